@@ -1,67 +1,273 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { AppState, TextRegion, User } from './types';
-import { detectRegions, extractTextFromRegions } from './services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppState, BatchJob, BoundingBox, DocumentPage, ExtractionStatus, FieldValue, FormTemplate, PageAdjustments, PreprocessSettings, PricingPlan, REGION_KINDS, RegionKind, RegionResult, RegionResultMap, ScanOptions, ScanSummary, TextRegion, TransformAction, User } from './types';
+import { getProvider, listProviders, loadProviderPreference, saveProviderPreference, OcrProviderId } from './services/ocrProvider';
+import { buildDocumentText, loadDocumentPages, pendingRegions, regionsForPage } from './services/documentService';
+import { addRegion, createManualRegion, deleteRegion, mergeWithNext, moveRegionTo, moveRegionToPosition, orderBySequence, setCodeLanguage, setRegionKind, splitRegion, updateRegionBox, updateRegionText } from './services/regionEditing';
 import RegionOverlay from './components/RegionOverlay';
+import PageViewport from './components/PageViewport';
 import PricingModal from './components/PricingModal';
+import TeamPanel from './components/TeamPanel';
+import ExportMenu from './components/ExportMenu';
+import PostProcessMenu, { TransformScope } from './components/PostProcessMenu';
+import TransformView from './components/TransformView';
+import ExtractionResult from './components/ExtractionResult';
+import TemplateManager from './components/TemplateManager';
+import ScanOptionsPanel from './components/ScanOptionsPanel';
+import ReviewPanel from './components/ReviewPanel';
+import FieldResults from './components/FieldResults';
+import { loadSelectedTemplateId, loadTemplates, mergeFieldValues, saveSelectedTemplateId } from './services/templateService';
+import BatchPanel from './components/BatchPanel';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { useSession } from './hooks/useSession';
+import { ShortcutHandlers, useShortcuts } from './hooks/useShortcuts';
+import { useViewport } from './hooks/useViewport';
+import ShortcutSheet from './components/ShortcutSheet';
+import { isBusy, loadResumePoint } from './services/sessionState';
+import { login, loginNeedsCode, logout, purchasePlan, refreshAccount, requestLoginCode, restoreSession, saveLocalUser } from './services/accountService';
+import { onCreditsChanged } from './services/apiClient';
+import { InsufficientCreditsError, describeError, isCancelled } from './services/errors';
+import HistoryPanel from './components/HistoryPanel';
+import { historyStorage } from './services/historyStorage';
+import { buildScanRecord, startScan } from './services/historyService';
+import PreprocessPanel from './components/PreprocessPanel';
+import CameraCapture from './components/CameraCapture';
+import { loadPreprocessSettings, preprocessPages, savePreprocessSettings } from './services/preprocessService';
+import { runTransform, transformCost } from './services/postProcessService';
+import { loadScanOptions, saveScanOptions, summarizeScanOptions } from './services/scanOptions';
+import { CODE_LANGUAGES } from './services/notationService';
+import { READING_ORDER_PRESETS, ReadingOrderPreset, applyReadingOrder, loadReadingOrderPreset, saveReadingOrderPreset } from './services/readingOrder';
+import { CONFIDENCE_COLORS, confidenceLevel, reviewQueue, verifyRegion } from './services/confidenceService';
+import { cacheRegions, cacheResult, clearResultCache, getCachedRegions, getCachedResults, hashImage, resultCacheSize } from './services/resultCache';
 
 const App: React.FC = () => {
   // --- Auth & Monetization State ---
   const [user, setUser] = useState<User | null>(null);
   const [showLogin, setShowLogin] = useState(true);
   const [showPricing, setShowPricing] = useState(false);
+  const [showTeam, setShowTeam] = useState(false);
   const [email, setEmail] = useState('');
+  const [loginCode, setLoginCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  
+  // Mirrors user.credits synchronously so concurrent batch jobs can't overspend.
+  const creditsRef = useRef(0);
   
   // --- Mobile Navigation State ---
   const [activeTab, setActiveTab] = useState<'view' | 'queue'>('view');
+  const [mode, setMode] = useState<'single' | 'batch' | 'library'>('single');
   
   // --- App Logic State ---
-  const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [image, setImage] = useState<string | null>(null);
-  const [regions, setRegions] = useState<TextRegion[]>([]);
+  // The open document and the workflow state live in one reducer, with undo history.
+  const { session, dispatch, canUndo, canRedo } = useSession(user?.id ?? null);
+  const { appState, pages, currentPage, regions, fieldValues, documentTransform, scan: currentScan } = session;
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  // The running analysis or extraction, so the Cancel button can abort it.
+  const requestRef = useRef<AbortController | null>(null);
+  // Regions of the running extraction that have no text yet.
+  const [extraction, setExtraction] = useState<Record<string, ExtractionStatus>>({});
+  // SHA-256 of each page image, the result cache's key; filled in shortly after the pages change.
+  const [pageHashes, setPageHashes] = useState<string[]>([]);
+  // Force-refresh: skip cached layouts and text for this session (fresh results are still stored).
+  const [ignoreCache, setIgnoreCache] = useState(false);
+  const [cacheSize, setCacheSize] = useState(resultCacheSize);
+  // Pages whose layout came from the cache rather than the engine.
+  const [layoutCached, setLayoutCached] = useState(0);
   const [selectedId, setSelectedId] = useState<string | null>(null);
-  const [finalText, setFinalText] = useState<string>('');
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  // Hints for the current scan; new scans start from the last settings used.
+  const [scanOptions, setScanOptions] = useState<ScanOptions>(loadScanOptions);
+  const [showScanOptions, setShowScanOptions] = useState(false);
+  const [readingOrder, setReadingOrder] = useState<ReadingOrderPreset>(loadReadingOrderPreset);
+  // Ids clicked so far in "set order" mode; null when the mode is off.
+  const [sequence, setSequence] = useState<string[] | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  // Digits typed with a region selected; Enter moves the region to that position.
+  const [positionInput, setPositionInput] = useState('');
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const rowRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const [error, setError] = useState<string | null>(null);
+  const [providerId, setProviderId] = useState<OcrProviderId>(loadProviderPreference);
+  const [preprocessSettings, setPreprocessSettings] = useState<PreprocessSettings>(loadPreprocessSettings);
+  // Corners found by the camera, handed to the preprocessing step.
+  const [pageAdjustments, setPageAdjustments] = useState<Record<string, PageAdjustments>>({});
+  const [showCamera, setShowCamera] = useState(false);
+
+  // --- Form Template State ---
+  const [templates, setTemplates] = useState<FormTemplate[]>(loadTemplates);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(loadSelectedTemplateId);
+  const [showTemplates, setShowTemplates] = useState(false);
+  // undefined = closed; null = open at the start of the review queue.
+  const [reviewStartId, setReviewStartId] = useState<string | null | undefined>(undefined);
+  const [transforming, setTransforming] = useState(false);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    const savedUser = localStorage.getItem('ocr_user');
-    if (savedUser) {
-      setUser(JSON.parse(savedUser));
-      setShowLogin(false);
-    }
+    restoreSession().then(savedUser => {
+      if (savedUser) {
+        // Read before the session hook sees the user and overwrites it.
+        const resume = loadResumePoint(savedUser.id);
+        setUser(savedUser);
+        setShowLogin(false);
+        if (resume) openScan(resume.scanId, resume.currentPage);
+      }
+    });
   }, []);
 
-  const handleLogin = (e: React.FormEvent) => {
+  // With a backend, the server's balance is the truth; mirror it whenever it changes.
+  useEffect(() => onCreditsChanged(credits => {
+    creditsRef.current = credits;
+    setUser(prev => prev && { ...prev, credits });
+  }), []);
+
+  useEffect(() => {
+    creditsRef.current = user?.credits ?? 0;
+  }, [user]);
+
+  // Teammates spend from the same pool, so re-read it when the team or pricing screen opens or closes.
+  useEffect(() => {
+    if (user?.workspace) refreshAccount().then(setUser).catch(() => undefined);
+  }, [showTeam, showPricing]);
+
+  // Autosave: debounced so dragging a region doesn't write on every pointer move,
+  // and flushed when the page goes away so a reload doesn't lose the last edit.
+  useEffect(() => {
+    if (!user || !currentScan || pages.length === 0) return;
+    const save = () => {
+      historyStorage.save(buildScanRecord(currentScan, user.id, { pages, regions, fieldValues, documentTransform, scanOptions }))
+        .catch(err => console.error("Saving to library failed:", err));
+    };
+    const timer = setTimeout(save, 500);
+    window.addEventListener('pagehide', save);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [user?.id, currentScan, pages, regions, fieldValues, documentTransform, scanOptions]);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!email) return;
-    const mockUser: User = { id: 'usr_' + Date.now(), email, credits: 5, isPro: false };
-    setUser(mockUser);
-    localStorage.setItem('ocr_user', JSON.stringify(mockUser));
-    setShowLogin(false);
+    try {
+      if (loginNeedsCode && !codeSent) {
+        await requestLoginCode(email);
+        setCodeSent(true);
+        setError(null);
+        return;
+      }
+      setUser(await login(email, loginCode));
+      setError(null);
+      setShowLogin(false);
+      setCodeSent(false);
+      setLoginCode('');
+    } catch (err: any) {
+      setError(err?.message || "Sign-in failed.");
+    }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('ocr_user');
+  const handleLogout = async () => {
+    await logout().catch(() => undefined);
+    requestRef.current?.abort();
     setUser(null);
     setShowLogin(true);
     reset();
+    dispatch({ type: 'reset', forget: true });
+  };
+
+  const adjustCredits = (amount: number) => {
+    creditsRef.current = Math.max(0, creditsRef.current + amount);
+    setUser(prev => {
+      if (!prev) return prev;
+      const updated = { ...prev, credits: Math.max(0, prev.credits + amount) };
+      saveLocalUser(updated);
+      return updated;
+    });
   };
 
   const updateCredits = (amount: number) => {
-    if (!user) return;
-    const updated = { ...user, credits: Math.max(0, user.credits + amount) };
-    setUser(updated);
-    localStorage.setItem('ocr_user', JSON.stringify(updated));
+    adjustCredits(amount);
     setShowPricing(false);
   };
 
+  // Rejections propagate to the pricing modal, which shows the payment error.
+  const handlePurchase = async (plan: PricingPlan) => {
+    updateCredits(await purchasePlan(plan));
+  };
+
+  // Check-and-debit in one step; returns false (charging nothing) if the balance is short.
+  const chargeCredits = (amount: number) => {
+    if (creditsRef.current < amount) return false;
+    adjustCredits(-amount);
+    return true;
+  };
+
+  const provider = getProvider(providerId);
+
+  // Finished batch files go to the library like single scans do.
+  const saveBatchJob = async (job: BatchJob) => {
+    if (!user) return;
+    const meta = await startScan(job.pages, job.creditsCharged);
+    await historyStorage.save(buildScanRecord(meta, user.id, { pages: job.pages, regions: job.regions, fieldValues: null }));
+  };
+
+  const batch = useBatchQueue({
+    provider,
+    chargeCredits,
+    refundCredits: adjustCredits,
+    onInsufficientCredits: () => setShowPricing(true),
+    preprocess: preprocessSettings,
+    readingOrder,
+    scanOptions,
+    ignoreCache,
+    onJobDone: (job) => saveBatchJob(job).catch(err => console.error("Saving to library failed:", err))
+  });
+
+  const changeProvider = (id: OcrProviderId) => {
+    setProviderId(id);
+    saveProviderPreference(id);
+  };
+
+  const pageRegions = regionsForPage(regions, currentPage);
+  const pending = pendingRegions(regions);
+  const pendingPages = Array.from(new Set(pending.map(r => r.pageIndex))).sort((a, b) => a - b);
+  // Regions whose text the cache already holds for this page image, engine and settings.
+  // Memoized on 'regions' because the lookup parses the whole cache.
+  const cachedPending = useMemo<RegionResultMap>(() => {
+    if (ignoreCache || pageHashes.length !== pages.length) return {};
+    return Object.assign({}, ...pendingPages.map(p =>
+      getCachedResults(provider, pageHashes[p], pending.filter(r => r.pageIndex === p), scanOptions)));
+  }, [regions, pageHashes, provider, scanOptions, ignoreCache, cacheSize]);
+  const uncachedPending = pending.filter(r => !cachedPending[r.id]);
+  const cachedCount = pending.length - uncachedPending.length;
+  // Cloud scans are billed per page that still has regions to send; cached text is free.
+  const scanCost = provider.isOffline ? 0 : new Set(uncachedPending.map(r => r.pageIndex)).size;
+  // The output is always rebuilt from the stored per-region text, never re-scanned.
+  // While extracting it grows as regions arrive.
+  const finalText = appState === AppState.FINISHED || appState === AppState.EXTRACTING ? buildDocumentText(regions, pages.length) : '';
+  const toReview = reviewQueue(regions);
+  // After "Edit" with nothing left to scan, the execute button just goes back to the results.
+  const canShowResults = appState === AppState.INTERACTING && pending.length === 0 && regions.some(r => r.extractedText !== undefined);
+  const canExecute = canShowResults || ((appState === AppState.INTERACTING || appState === AppState.FINISHED) && pending.length > 0);
+
+  /** Every manual change to the regions goes through here, so it can be undone. */
+  const editRegions = (update: (regions: TextRegion[]) => TextRegion[]) => dispatch({ type: 'edit', update });
+
+  const goToPage = (page: number) => dispatch({ type: 'page', page });
+
+  const addCreditsSpent = (amount: number) =>
+    dispatch({ type: 'scan', update: scan => scan && { ...scan, creditsSpent: scan.creditsSpent + amount } });
+
+  // Reordering is scoped to one page; other pages' sequences are untouched.
   const moveRegion = (id: string, direction: 'up' | 'down') => {
-    setRegions(prev => {
-      const index = prev.findIndex(r => r.id === id);
-      if (index === -1) return prev;
+    editRegions(prev => {
+      const region = prev.find(r => r.id === id);
+      if (!region) return prev;
+      const siblings = regionsForPage(prev, region.pageIndex);
+      const index = siblings.findIndex(r => r.id === id);
       
-      const newArr = [...prev];
+      const newArr = [...siblings];
       const targetIndex = direction === 'up' ? index - 1 : index + 1;
       
       if (targetIndex < 0 || targetIndex >= newArr.length) return prev;
@@ -70,65 +276,410 @@ const App: React.FC = () => {
       newArr[index] = newArr[targetIndex];
       newArr[targetIndex] = temp;
 
-      return newArr.map((r, i) => ({ ...r, order: i + 1 }));
+      const renumbered = newArr.map((r, i) => ({ ...r, order: i + 1 }));
+      return [...prev.filter(r => r.pageIndex !== region.pageIndex), ...renumbered]
+        .sort((a, b) => a.pageIndex - b.pageIndex || a.order - b.order);
     });
   };
 
+  const changeScanOptions = (options: ScanOptions) => {
+    setScanOptions(options);
+    saveScanOptions(options);
+  };
+
+  const changeReadingOrder = (preset: ReadingOrderPreset) => {
+    setReadingOrder(preset);
+    saveReadingOrderPreset(preset);
+  };
+
+  // Sequence mode only covers the page (and the editing session) it was started in.
+  useEffect(() => {
+    setSequence(null);
+  }, [currentPage, appState]);
+
+  /** In "set order" mode a click on a box numbers it next; otherwise it selects. */
+  const handleCanvasSelect = (id: string | null) => {
+    if (sequence && id) {
+      const next = sequence.includes(id) ? sequence : [...sequence, id];
+      setSequence(next);
+      editRegions(prev => orderBySequence(prev, currentPage, next));
+      return;
+    }
+    setSelectedId(id);
+  };
+
+  const toggleRegion = (id: string) => {
+    editRegions(prev => prev.map(r => r.id === id ? { ...r, isActive: !r.isActive } : r));
+  };
+
+  // --- Manual Region Editing ---
+  const handleCreateRegion = (box: BoundingBox) => {
+    const created = createManualRegion(box, currentPage);
+    editRegions(prev => addRegion(prev, created));
+    setSelectedId(created.id);
+  };
+
+  const handleDeleteRegion = (id: string) => {
+    editRegions(prev => deleteRegion(prev, id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleSplitRegion = (id: string, direction: 'horizontal' | 'vertical') => {
+    editRegions(prev => splitRegion(prev, id, direction));
+    setSelectedId(null);
+  };
+
+  /** Selects a region and shows its page, e.g. when its text is clicked. */
+  const focusRegion = (id: string) => {
+    const region = regions.find(r => r.id === id);
+    if (!region) return;
+    setSelectedId(id);
+    goToPage(region.pageIndex);
+  };
+
+  const selectedRegion = pageRegions.find(r => r.id === selectedId) || null;
+  const viewport = useViewport(pages[currentPage]?.id);
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) || null;
+
+  const changeTemplate = (id: string | null) => {
+    setSelectedTemplateId(id);
+    saveSelectedTemplateId(id);
+  };
+  const isEditable = appState === AppState.INTERACTING;
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    const files: File[] = Array.from(event.target.files as FileList || []);
+    event.target.value = '';
+    if (files.length === 0) return;
     setError(null);
-    setAppState(AppState.UPLOADING);
-
-    const reader = new FileReader();
-    reader.onloadend = async () => {
-      const fullBase64 = reader.result as string;
-      setImage(fullBase64);
-      try {
-        setAppState(AppState.DETECTING_REGIONS);
-        const detected = await detectRegions(fullBase64.split(',')[1]);
-        setRegions(detected);
-        setAppState(AppState.INTERACTING);
-        // On mobile, auto-switch to queue after detection to show findings
-        if (window.innerWidth < 1024) setActiveTab('queue');
-      } catch (err: any) {
-        setError("Analysis failed. Ensure image has clear text.");
-        setAppState(AppState.IDLE);
+    // Detaches the previous scan first, or autosave would write the new pages into its library entry.
+    dispatch({ type: 'begin' });
+
+    try {
+      const loaded = await loadDocumentPages(files);
+      if (loaded.length === 0) throw new Error("No supported pages");
+      await preparePages(loaded);
+    } catch (err: any) {
+      setError("Could not read these files.");
+      dispatch({ type: 'abandon' });
+    }
+  };
+
+  const handleCameraDone = async (captured: DocumentPage[], adjustments: Record<string, PageAdjustments>) => {
+    setShowCamera(false);
+    setError(null);
+    dispatch({ type: 'begin' });
+    try {
+      await preparePages(captured, adjustments);
+    } catch (err: any) {
+      setError("Could not process the captured pages.");
+      dispatch({ type: 'abandon' });
+    }
+  };
+
+  // Shows the preprocessing preview, or applies the saved settings straight away.
+  const preparePages = async (loaded: DocumentPage[], adjustments: Record<string, PageAdjustments> = {}) => {
+    if (preprocessSettings.review) {
+      // The preview panel takes over and calls analyzePages when the user confirms.
+      setPageAdjustments(adjustments);
+      dispatch({ type: 'preview', pages: loaded });
+      return;
+    }
+    await analyzePages(await preprocessPages(loaded, preprocessSettings, adjustments));
+  };
+
+  const analyzePages = async (prepared: DocumentPage[]) => {
+    dispatch({ type: 'detect', pages: prepared });
+    const controller = new AbortController();
+    requestRef.current = controller;
+    try {
+      const detected: TextRegion[] = [];
+      let fromCache = 0;
+      // Pages are analyzed one at a time so progress is visible and rate limits are respected.
+      for (let i = 0; i < prepared.length; i++) {
+        setProgress({ done: i, total: prepared.length });
+        const base64 = prepared[i].image.split(',')[1];
+        const imageHash = await hashImage(base64);
+        const cached = ignoreCache ? null : getCachedRegions(provider, imageHash, i, scanOptions);
+        if (cached) {
+          fromCache++;
+          detected.push(...cached);
+          continue;
+        }
+        const found = await provider.detectRegions(base64, i, scanOptions, controller.signal);
+        cacheRegions(provider, imageHash, scanOptions, found);
+        detected.push(...found);
       }
-    };
-    reader.readAsDataURL(file);
+      setLayoutCached(fromCache);
+      setCacheSize(resultCacheSize());
+      dispatch({ type: 'detected', regions: applyReadingOrder(detected, readingOrder), scan: await startScan(prepared) });
+      // On mobile, auto-switch to queue after detection to show findings
+      if (window.innerWidth < 1024) setActiveTab('queue');
+    } catch (err: any) {
+      if (!isCancelled(err)) {
+        console.error("Analysis failed:", err);
+        setError(describeError(err, "Analysis failed. Ensure image has clear text."));
+      }
+      dispatch({ type: 'abandon' });
+    } finally {
+      requestRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  useEffect(() => {
+    let stale = false;
+    setPageHashes([]);
+    Promise.all(pages.map(page => hashImage(page.image.split(',')[1])))
+      .then(hashes => { if (!stale) setPageHashes(hashes); })
+      .catch(err => console.error("Hashing pages failed:", err));
+    return () => { stale = true; };
+  }, [pages]);
+
+  const clearCache = () => {
+    clearResultCache();
+    setCacheSize(0);
+  };
+
+  const changePreprocessSettings = (settings: PreprocessSettings) => {
+    setPreprocessSettings(settings);
+    savePreprocessSettings(settings);
   };
 
   const handleExtractWithCredits = async () => {
     if (!user) return;
-    if (user.credits <= 0) {
+    // Offline scans cost nothing, so they never hit the paywall.
+    if (user.credits < scanCost) {
       setShowPricing(true);
       return;
     }
     
-    setAppState(AppState.EXTRACTING);
+    dispatch({ type: 'transition', to: AppState.EXTRACTING });
     if (window.innerWidth < 1024) setActiveTab('view'); // Back to view to show processing
 
+    let pagesBilled = 0;
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setExtraction(Object.fromEntries(pending.map(r => [r.id, 'pending' as const])));
+    // Each region's text is shown, and kept, the moment it arrives.
+    const showResult = (id: string, result: RegionResult) => {
+      dispatch({ type: 'results', results: { [id]: result } });
+      setExtraction(prev => {
+        const { [id]: _done, ...rest } = prev;
+        return rest;
+      });
+    };
+    try {
+      const hashes = pageHashes.length === pages.length ? pageHashes : await Promise.all(pages.map(page => hashImage(page.image.split(',')[1])));
+      // Cached text goes in first; serving it also marks it recently used.
+      for (const region of pending) {
+        const hit = cachedPending[region.id];
+        if (!hit) continue;
+        cacheResult(provider, hashes[region.pageIndex], region, scanOptions, hit);
+        showResult(region.id, hit);
+      }
+      const fieldsPerPage: FieldValue[][] = [];
+      for (let i = 0; i < pendingPages.length; i++) {
+        const pageIndex = pendingPages[i];
+        const pageBase64 = pages[pageIndex].image.split(',')[1];
+        setProgress({ done: i, total: pendingPages.length });
+        goToPage(pageIndex);
+        // Pages served entirely from the cache aren't sent, and so aren't billed.
+        const onPage = uncachedPending.filter(r => r.pageIndex === pageIndex);
+        if (onPage.length > 0) {
+          setExtraction(prev => ({ ...prev, ...Object.fromEntries(onPage.map(r => [r.id, 'active' as const])) }));
+          // A page is paid for once any of its text has arrived, even if the rest never does.
+          let pageBilled = provider.isOffline;
+          const billPage = () => {
+            if (pageBilled) return;
+            pageBilled = true;
+            pagesBilled++;
+          };
+          await provider.extractTextFromRegions(pageBase64, onPage, scanOptions, controller.signal, (id, result) => {
+            const region = onPage.find(r => r.id === id);
+            if (region) cacheResult(provider, hashes[pageIndex], region, scanOptions, result);
+            showResult(id, result);
+            billPage();
+          });
+          billPage();
+        }
+        // Template fields ride along with the page scan. The backend bills them only on pages it didn't just extract.
+        if (selectedTemplate) fieldsPerPage.push(await provider.extractFields(pageBase64, selectedTemplate, pageIndex, controller.signal));
+      }
+      if (selectedTemplate) {
+        const fieldOrder = selectedTemplate.fields.map(f => f.id);
+        dispatch({ type: 'fields', fieldValues: mergeFieldValues(fieldsPerPage).sort((a, b) => fieldOrder.indexOf(a.fieldId) - fieldOrder.indexOf(b.fieldId)) });
+      }
+      if (scanCost > 0 && !provider.billedByServer) updateCredits(-scanCost);
+      addCreditsSpent(pagesBilled);
+      dispatch({ type: 'transition', to: AppState.FINISHED });
+    } catch (err: any) {
+      // Text that arrived before the failure is already on its regions, and its pages are
+      // charged (the server bills the same way). Pages that returned nothing are re-run for free.
+      if (pagesBilled > 0 && !provider.billedByServer) updateCredits(-pagesBilled);
+      addCreditsSpent(pagesBilled);
+      if (err instanceof InsufficientCreditsError) setShowPricing(true);
+      if (!isCancelled(err)) console.error("Extraction failed:", err);
+      const kept = "Text read so far was kept and its pages were charged; pages with no text yet were not.";
+      setError(isCancelled(err) ? `Extraction cancelled. ${kept}` : `${describeError(err, "Extraction error.")} ${kept}`);
+      dispatch({ type: 'transition', to: AppState.INTERACTING });
+    } finally {
+      requestRef.current = null;
+      setProgress(null);
+      setExtraction({});
+      setCacheSize(resultCacheSize());
+    }
+  };
+
+  const executeScan = () => {
+    if (canShowResults) dispatch({ type: 'transition', to: AppState.FINISHED });
+    else handleExtractWithCredits();
+  };
+
+  const copyText = () => {
+    navigator.clipboard.writeText(finalText);
+    alert('Copied!');
+  };
+
+  const handleTransform = async (action: TransformAction, scope: TransformScope, targetLanguage: string) => {
+    if (!user) return;
+    const cost = transformCost(action);
+    if (user.credits < cost) {
+      setShowPricing(true);
+      return;
+    }
+    const target = scope === 'region' ? regions.find(r => r.id === selectedId && r.extractedText) : undefined;
+    const texts: Record<string, string> = target ? { [target.id]: target.extractedText! } : { document: finalText };
+
+    setTransforming(true);
+    setError(null);
     try {
-      const result = await extractTextFromRegions(image!.split(',')[1], regions);
-      updateCredits(-1);
-      setFinalText(result);
-      setAppState(AppState.FINISHED);
+      const results = await runTransform(provider, action, texts, targetLanguage);
+      if (cost > 0 && !provider.billedByServer) updateCredits(-cost);
+      if (cost > 0) addCreditsSpent(cost);
+      if (target) {
+        dispatch({ type: 'regionTransform', id: target.id, transform: results[target.id] });
+      } else {
+        dispatch({ type: 'documentTransform', transform: results.document });
+      }
     } catch (err: any) {
-      setError("Extraction error. Credits preserved.");
-      setAppState(AppState.INTERACTING);
+      console.error("Post-processing failed:", err);
+      if (err instanceof InsufficientCreditsError) setShowPricing(true);
+      setError(`${describeError(err, "Processing failed.")}${cost > 0 ? " Credits preserved." : ""}`);
+    } finally {
+      setTransforming(false);
     }
   };
 
+  // Undoable: Ctrl+Z (or Undo on the upload screen) brings the document back.
   const reset = () => {
-    setImage(null);
-    setRegions([]);
-    setFinalText('');
-    setAppState(AppState.IDLE);
+    dispatch({ type: 'reset' });
+    setLayoutCached(0);
     setError(null);
     setActiveTab('view');
   };
 
+  // --- Library ---
+  // Reopening restores the saved text, so already-extracted regions are never billed again.
+  // Also used to resume the session after a reload, at the page that was open.
+  const openScan = async (id: string, page = 0) => {
+    if (isBusy(appState)) {
+      setError("Cancel or wait for the running scan before opening another.");
+      return;
+    }
+    const record = await historyStorage.get(id);
+    if (!record) {
+      setError("Scan not found in library.");
+      return;
+    }
+    const { pages: savedPages, regions: savedRegions, fieldValues: savedFields, id: scanId, name, tags, thumbnail, creditsSpent, createdAt } = record;
+    dispatch({
+      type: 'open',
+      document: {
+        pages: savedPages,
+        currentPage: Math.min(page, savedPages.length - 1),
+        regions: savedRegions,
+        fieldValues: savedFields,
+        documentTransform: record.documentTransform ?? null,
+        scan: { id: scanId, name, tags, thumbnail, creditsSpent, createdAt }
+      },
+      appState: savedRegions.some(r => r.extractedText !== undefined) ? AppState.FINISHED : AppState.INTERACTING
+    });
+    if (record.scanOptions) setScanOptions(record.scanOptions);
+    setSelectedId(null);
+    setError(null);
+    setActiveTab('view');
+    setMode('single');
+  };
+
+  const handleScanChanged = (summary: ScanSummary) => {
+    dispatch({ type: 'scan', update: prev => prev && prev.id === summary.id ? { ...prev, name: summary.name, tags: summary.tags } : prev });
+  };
+
+  // The document stays open but is no longer tied to a library entry.
+  const handleScanDeleted = (id: string) => {
+    dispatch({ type: 'scan', update: prev => prev && prev.id === id ? null : prev });
+  };
+
+  // --- Keyboard ---
+  // Keeps the queue row of a region selected on the page (or by keyboard) in view.
+  useEffect(() => {
+    setPositionInput('');
+    if (selectedId) rowRefs.current[selectedId]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    // ...and its box on the page, when zoomed in far enough for it to be off screen.
+    if (selectedRegion) viewport.reveal(selectedRegion.box);
+  }, [selectedId]);
+
+  /** Steps through all regions in reading order, turning the page at its ends. */
+  const selectStep = (step: 1 | -1) => {
+    const index = regions.findIndex(r => r.id === selectedId);
+    const onPage = regionsForPage(regions, currentPage);
+    const next = index >= 0
+      ? regions[(index + step + regions.length) % regions.length]
+      : (step === 1 ? onPage[0] : onPage[onPage.length - 1]) ?? regions[0];
+    setSelectedId(next.id);
+    if (next.pageIndex !== currentPage) goToPage(next.pageIndex);
+  };
+
+  const canEditQueue = appState === AppState.INTERACTING || appState === AppState.FINISHED;
+  const modalOpen = showCamera || showPricing || showTeam || showScanOptions || showTemplates || reviewStartId !== undefined;
+  const closeShortcuts = () => setShowShortcuts(false);
+  const regionKeys: ShortcutHandlers = selectedRegion && canEditQueue ? {
+    moveUp: () => moveRegion(selectedRegion.id, 'up'),
+    moveDown: () => moveRegion(selectedRegion.id, 'down'),
+    toggle: () => toggleRegion(selectedRegion.id),
+    digit: (e) => setPositionInput(prev => (prev + e.key).slice(-3)),
+    confirm: positionInput ? () => {
+      editRegions(prev => moveRegionToPosition(prev, selectedRegion.id, Number(positionInput)));
+      setPositionInput('');
+    } : undefined,
+    delete: isEditable ? () => handleDeleteRegion(selectedRegion.id) : undefined
+  } : {};
+  useShortcuts(showShortcuts ? { help: closeShortcuts, cancel: closeShortcuts } : {
+    help: () => setShowShortcuts(true),
+    undo: () => dispatch({ type: 'undo' }),
+    redo: () => dispatch({ type: 'redo' }),
+    ...(mode === 'single' && {
+      next: regions.length > 0 ? () => selectStep(1) : undefined,
+      previous: regions.length > 0 ? () => selectStep(-1) : undefined,
+      ...regionKeys,
+      autoOrder: canEditQueue && regions.length > 0 ? () => editRegions(prev => applyReadingOrder(prev, readingOrder)) : undefined,
+      cancel: positionInput ? () => setPositionInput('') : sequence ? () => setSequence(null) : selectedId ? () => setSelectedId(null) : undefined,
+      nextPage: currentPage < pages.length - 1 ? () => goToPage(currentPage + 1) : undefined,
+      previousPage: currentPage > 0 ? () => goToPage(currentPage - 1) : undefined,
+      ...(pages.length > 0 && {
+        zoomIn: viewport.zoomIn,
+        zoomOut: viewport.zoomOut,
+        fitPage: viewport.fitPage,
+        fitWidth: viewport.fitWidth,
+        zoomToRegion: selectedRegion ? () => viewport.zoomToBox(selectedRegion.box) : undefined
+      }),
+      extract: canExecute ? executeScan : undefined,
+      copy: finalText ? copyText : undefined,
+      export: finalText ? () => setExportOpen(true) : undefined
+    })
+  }, !modalOpen && !showLogin);
+
   if (showLogin) {
     return (
       <div className="flex-1 flex items-center justify-center bg-slate-50 p-6">
@@ -145,12 +696,40 @@ const App: React.FC = () => {
                 placeholder="Business Email" 
                 required
                 value={email}
+                readOnly={codeSent}
                 onChange={(e) => setEmail(e.target.value)}
                 className="w-full p-5 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-4 focus:ring-blue-100 transition-all text-center font-bold"
               />
+              {codeSent && (
+                <>
+                  <p className="text-xs font-medium text-slate-500">We emailed a 6-digit code to {email}.</p>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="Sign-in Code"
+                    required
+                    autoFocus
+                    maxLength={6}
+                    value={loginCode}
+                    onChange={(e) => setLoginCode(e.target.value.replace(/\D/g, ''))}
+                    className="w-full p-5 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-4 focus:ring-blue-100 transition-all text-center font-bold tracking-[0.5em]"
+                  />
+                </>
+              )}
               <button className="w-full py-5 bg-blue-600 text-white font-black rounded-2xl hover:bg-blue-700 shadow-xl shadow-blue-200 transition-all transform active:scale-95 uppercase tracking-widest text-xs">
-                Enter Workspace
+                {loginNeedsCode && !codeSent ? 'Email Me a Code' : 'Enter Workspace'}
               </button>
+              {codeSent && (
+                <button
+                  type="button"
+                  onClick={() => { setCodeSent(false); setLoginCode(''); setError(null); }}
+                  className="text-[10px] font-bold text-slate-400 hover:text-blue-600 uppercase tracking-widest"
+                >
+                  Use a different email
+                </button>
+              )}
+              {error && <p className="text-xs font-bold text-red-500">{error}</p>}
            </form>
            <p className="mt-8 text-[10px] text-slate-400 font-bold uppercase tracking-tighter">Powered by Private Infrastructure</p>
         </div>
@@ -160,7 +739,35 @@ const App: React.FC = () => {
 
   return (
     <div className="flex-1 flex flex-col overflow-hidden relative">
-      {showPricing && <PricingModal onClose={() => setShowPricing(false)} onPurchase={updateCredits} />}
+      {showCamera && <CameraCapture onDone={handleCameraDone} onClose={() => setShowCamera(false)} />}
+      {showShortcuts && <ShortcutSheet onClose={closeShortcuts} />}
+      {showTeam && user && (
+        <TeamPanel user={user} onAccountChange={setUser} onTopUp={() => setShowPricing(true)} onClose={() => setShowTeam(false)} />
+      )}
+      {showPricing && <PricingModal onClose={() => setShowPricing(false)} onPurchase={handlePurchase} workspace={user?.workspace} />}
+      {reviewStartId !== undefined && (
+        <ReviewPanel
+          pages={pages}
+          regions={regions}
+          startId={reviewStartId}
+          onVerify={(id, text) => editRegions(prev => verifyRegion(prev, id, text))}
+          onClose={() => setReviewStartId(undefined)}
+        />
+      )}
+      {showScanOptions && (
+        <ScanOptionsPanel options={scanOptions} onChange={changeScanOptions} provider={provider} onClose={() => setShowScanOptions(false)} />
+      )}
+      {showTemplates && (
+        <TemplateManager
+          templates={templates}
+          onTemplatesChange={(next) => {
+            setTemplates(next);
+            if (selectedTemplateId && !next.some(t => t.id === selectedTemplateId)) changeTemplate(null);
+          }}
+          onClose={() => setShowTemplates(false)}
+          selectedBox={selectedRegion?.box ?? null}
+        />
+      )}
       
       {/* NAVBAR */}
       <nav className="bg-white/80 backdrop-blur-xl border-b border-slate-100 px-6 py-4 flex justify-between items-center shrink-0">
@@ -170,7 +777,44 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-3">
-          <div onClick={() => setShowPricing(true)} className="flex items-center gap-2 px-3 py-1.5 bg-blue-50 border border-blue-100 rounded-full cursor-pointer">
+          <div className="flex bg-slate-100 rounded-full p-0.5">
+            {(['single', 'batch', 'library'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`text-[10px] font-black uppercase px-3 py-1 rounded-full transition-all ${mode === m ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}
+              >{m === 'single' ? 'Scan' : m === 'batch' ? 'Batch' : 'Library'}</button>
+            ))}
+          </div>
+          <select
+            value={providerId}
+            onChange={(e) => changeProvider(e.target.value as OcrProviderId)}
+            disabled={appState === AppState.DETECTING_REGIONS || appState === AppState.EXTRACTING}
+            className="text-[10px] font-black text-slate-600 uppercase bg-slate-50 border border-slate-200 rounded-full px-3 py-1.5 outline-none"
+          >
+            {listProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <button
+            onClick={() => setShowScanOptions(true)}
+            disabled={appState === AppState.DETECTING_REGIONS || appState === AppState.EXTRACTING}
+            title="Languages, handwriting and line breaks"
+            className="text-[10px] font-black text-slate-600 uppercase bg-slate-50 border border-slate-200 rounded-full px-3 py-1.5 max-w-[10rem] truncate"
+          >{summarizeScanOptions(scanOptions)}</button>
+          <button
+            onClick={() => setShowShortcuts(true)}
+            title="Keyboard shortcuts (?)"
+            className="hidden lg:block text-[10px] font-black text-slate-500 bg-slate-50 border border-slate-200 rounded-full w-7 h-7"
+          >?</button>
+          <button
+            onClick={() => setShowTeam(true)}
+            title="Team workspace"
+            className="text-[10px] font-black text-slate-600 uppercase bg-slate-50 border border-slate-200 rounded-full px-3 py-1.5 max-w-[8rem] truncate"
+          >{user?.workspace?.name ?? 'Team'}</button>
+          <div
+            onClick={() => setShowPricing(true)}
+            title={user?.workspace ? `${user.workspace.pool} credits left in the ${user.workspace.name} pool` : undefined}
+            className="flex items-center gap-2 px-3 py-1.5 bg-blue-50 border border-blue-100 rounded-full cursor-pointer"
+          >
             <span className="text-[10px] font-black text-blue-700">{user?.credits} CR</span>
             <svg className="w-3 h-3 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="4"><path d="M12 4v16m8-8H4"/></svg>
           </div>
@@ -180,45 +824,188 @@ const App: React.FC = () => {
         </div>
       </nav>
 
+      {mode === 'batch' ? (
+        <BatchPanel queue={batch} isOfflineProvider={provider.isOffline} />
+      ) : mode === 'library' && user ? (
+        <HistoryPanel
+          ownerId={user.id}
+          currentScanId={currentScan?.id ?? null}
+          onOpen={openScan}
+          onScanChanged={handleScanChanged}
+          onScanDeleted={handleScanDeleted}
+        />
+      ) : appState === AppState.PREPROCESSING ? (
+        <PreprocessPanel
+          pages={pages}
+          initialAdjustments={pageAdjustments}
+          settings={preprocessSettings}
+          onSettingsChange={changePreprocessSettings}
+          onConfirm={analyzePages}
+          onCancel={reset}
+        />
+      ) : (
+      <>
       {/* MAIN CONTENT AREA */}
       <main className="flex-1 flex flex-col lg:flex-row gap-0 overflow-hidden bg-slate-50">
         
         {/* VIEWPORT TAB */}
-        <div className={`flex-1 relative bg-slate-900 flex flex-col ${activeTab === 'view' ? 'flex' : 'hidden lg:flex'}`}>
-          <div className="flex-1 relative flex items-center justify-center overflow-hidden">
+        <div className={`flex-1 min-w-0 relative bg-slate-900 flex flex-col md:flex-row ${activeTab === 'view' ? 'flex' : 'hidden lg:flex'}`}>
+          <div className="flex-1 min-h-0 relative flex items-center justify-center overflow-hidden">
             {appState === AppState.IDLE ? (
               <div className="text-center p-6" onClick={() => fileInputRef.current?.click()}>
                 <div className="w-20 h-20 bg-white/10 rounded-full flex items-center justify-center mb-4 mx-auto hover:scale-110 transition-transform cursor-pointer">
                    <svg className="w-10 h-10 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z"/><path d="M15 13a3 3 0 11-6 0 3 3 0 016 0z"/></svg>
                 </div>
                 <p className="text-white text-xs font-black tracking-widest uppercase opacity-60">Upload Document</p>
-                <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept="image/*" />
+                <button
+                  onClick={(e) => { e.stopPropagation(); setShowCamera(true); }}
+                  className="mt-6 text-[10px] font-black text-white bg-blue-600 px-5 py-2.5 rounded-full uppercase tracking-widest hover:bg-blue-700"
+                >Use Camera</button>
+                {canUndo && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); dispatch({ type: 'undo' }); }}
+                    className="block mx-auto mt-3 text-[10px] font-black text-white/60 hover:text-white uppercase tracking-widest"
+                  >Undo Clear</button>
+                )}
+                <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept="image/*,application/pdf" multiple />
               </div>
             ) : (
-              <div className="relative w-full h-full flex items-center justify-center bg-slate-950">
-                <img src={image!} alt="Canvas" className="max-w-full max-h-full object-contain" />
-                {(appState === AppState.INTERACTING || appState === AppState.EXTRACTING) && (
-                  <RegionOverlay regions={regions} onToggleRegion={() => {}} onSetSelected={setSelectedId} selectedId={selectedId} />
+              <div className="relative w-full h-full bg-slate-950">
+                {pages[currentPage] && (
+                  <PageViewport viewport={viewport} image={pages[currentPage].image} focusBox={selectedRegion?.box ?? null}>
+                    {(appState === AppState.INTERACTING || appState === AppState.EXTRACTING || appState === AppState.FINISHED) && (
+                      <RegionOverlay
+                        regions={pageRegions}
+                        onToggleRegion={toggleRegion}
+                        onSetSelected={handleCanvasSelect}
+                        selectedId={selectedId}
+                        highlightedId={hoveredId}
+                        extraction={extraction}
+                        editable={isEditable && !sequence}
+                        onCreateRegion={handleCreateRegion}
+                        onUpdateRegion={(id, box) => editRegions(prev => updateRegionBox(prev, id, box))}
+                        onDeleteRegion={handleDeleteRegion}
+                      />
+                    )}
+                  </PageViewport>
                 )}
-                {(appState === AppState.DETECTING_REGIONS || appState === AppState.EXTRACTING) && (
+                {isEditable && (
+                  <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-slate-900/80 backdrop-blur-md text-white rounded-full px-2 py-1.5 z-30">
+                    {sequence ? (
+                      <>
+                        <p className="px-3 py-1.5 text-[9px] font-black uppercase tracking-widest opacity-60">Click regions in reading order · {sequence.length} / {pageRegions.length}</p>
+                        <button onClick={() => setSequence(null)} className="px-3 py-1.5 rounded-full bg-blue-600 hover:bg-blue-700 text-[9px] font-black uppercase tracking-widest">Done</button>
+                      </>
+                    ) : selectedRegion ? (
+                      <>
+                        <button onClick={() => handleSplitRegion(selectedRegion.id, 'horizontal')} className="px-3 py-1.5 rounded-full hover:bg-white/10 text-[9px] font-black uppercase tracking-widest">Split Rows</button>
+                        <button onClick={() => handleSplitRegion(selectedRegion.id, 'vertical')} className="px-3 py-1.5 rounded-full hover:bg-white/10 text-[9px] font-black uppercase tracking-widest">Split Cols</button>
+                        <button
+                          disabled={selectedRegion.order === pageRegions.length}
+                          onClick={() => editRegions(prev => mergeWithNext(prev, selectedRegion.id))}
+                          className="px-3 py-1.5 rounded-full hover:bg-white/10 disabled:opacity-20 text-[9px] font-black uppercase tracking-widest"
+                        >Merge Next</button>
+                        <button onClick={() => handleDeleteRegion(selectedRegion.id)} className="px-3 py-1.5 rounded-full hover:bg-red-500/80 text-red-300 hover:text-white text-[9px] font-black uppercase tracking-widest">Delete</button>
+                      </>
+                    ) : (
+                      <>
+                        <p className="px-3 py-1.5 text-[9px] font-black uppercase tracking-widest opacity-60">Drag to draw a region · Double-click to exclude</p>
+                        <button
+                          disabled={pageRegions.length < 2}
+                          onClick={() => { setSelectedId(null); setSequence([]); }}
+                          className="px-3 py-1.5 rounded-full hover:bg-white/10 disabled:opacity-20 text-[9px] font-black uppercase tracking-widest"
+                        >Set Order</button>
+                      </>
+                    )}
+                  </div>
+                )}
+                {appState === AppState.EXTRACTING && (
+                  // The page stays visible during extraction, so boxes can show their progress.
+                  <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-slate-900/80 backdrop-blur-md text-white rounded-full pl-4 pr-2 py-1.5 z-30">
+                    <div className="w-3.5 h-3.5 border-2 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+                    <p className="text-[9px] font-black uppercase tracking-widest whitespace-nowrap">
+                      {progress && progress.total > 1 && `Page ${progress.done + 1} / ${progress.total} · `}{Object.keys(extraction).length} left
+                    </p>
+                    <button
+                      onClick={() => requestRef.current?.abort()}
+                      className="px-3 py-1.5 rounded-full hover:bg-white/10 text-[9px] font-black uppercase tracking-widest"
+                    >Cancel</button>
+                  </div>
+                )}
+                {appState === AppState.DETECTING_REGIONS && (
                   <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-xl flex flex-col items-center justify-center text-white p-6 text-center">
                     <div className="w-10 h-10 border-[4px] border-blue-500 border-t-transparent rounded-full animate-spin mb-6"></div>
-                    <p className="font-black text-[10px] uppercase tracking-[0.3em]">{appState === AppState.DETECTING_REGIONS ? 'Analyzing Grid' : 'Backend Processing'}</p>
+                    <p className="font-black text-[10px] uppercase tracking-[0.3em]">Analyzing Grid</p>
+                    {progress && progress.total > 1 && (
+                      <p className="mt-2 font-black text-[10px] uppercase tracking-widest opacity-60">Page {progress.done + 1} / {progress.total}</p>
+                    )}
+                    <button
+                      onClick={() => requestRef.current?.abort()}
+                      className="mt-6 px-5 py-2 rounded-full border border-white/20 hover:bg-white/10 text-[10px] font-black uppercase tracking-widest"
+                    >Cancel</button>
+                  </div>
+                )}
+                {pages.length > 1 && (
+                  <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-slate-900/80 backdrop-blur-md text-white rounded-full px-2 py-1.5 z-30">
+                    <button
+                      disabled={currentPage === 0}
+                      onClick={() => goToPage(currentPage - 1)}
+                      className="p-1.5 rounded-full hover:bg-white/10 disabled:opacity-20"
+                    ><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path d="M15 19l-7-7 7-7"/></svg></button>
+                    <div className="text-center min-w-[7rem]">
+                      <p className="text-[10px] font-black uppercase tracking-widest">Page {currentPage + 1} / {pages.length}</p>
+                      <p className="text-[9px] font-bold opacity-50 truncate max-w-[10rem]">{pages[currentPage]?.sourceName}</p>
+                    </div>
+                    <button
+                      disabled={currentPage === pages.length - 1}
+                      onClick={() => goToPage(currentPage + 1)}
+                      className="p-1.5 rounded-full hover:bg-white/10 disabled:opacity-20"
+                    ><svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path d="M9 5l7 7-7 7"/></svg></button>
                   </div>
                 )}
               </div>
             )}
           </div>
 
-          {/* FINAL RESULT OVERLAY */}
+          {/* RESULT PANE: text beside the page, linked region by region */}
           {finalText && (
-            <div className="absolute bottom-0 inset-x-0 bg-white rounded-t-[2.5rem] shadow-2xl p-6 animate-in slide-in-from-bottom-full duration-500 max-h-[70%] overflow-y-auto z-40">
-              <div className="w-12 h-1.5 bg-slate-200 rounded-full mx-auto mb-6"></div>
-              <div className="flex justify-between items-center mb-6">
-                <h3 className="text-lg font-black text-slate-900 tracking-tight">EXTRACTION</h3>
-                <button onClick={() => { navigator.clipboard.writeText(finalText); alert('Copied!'); }} className="text-[10px] font-black text-blue-600 bg-blue-50 px-4 py-2 rounded-full uppercase">Copy</button>
+            <div className="h-[55%] md:h-auto md:w-1/2 shrink-0 bg-white border-t md:border-t-0 md:border-l border-slate-100 p-6 overflow-y-auto animate-in fade-in duration-300">
+              <div className="flex justify-between items-center gap-3 mb-6 flex-wrap">
+                <div className="min-w-0">
+                  <h3 className="text-lg font-black text-slate-900 tracking-tight">EXTRACTION</h3>
+                  <p className="text-[10px] font-bold text-slate-400 truncate">{currentScan ? `Saved to library as "${currentScan.name}"` : 'Click any text to correct it'}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {toReview.length > 0 && (
+                    <button onClick={() => setReviewStartId(null)} className="text-[10px] font-black text-amber-700 bg-amber-50 px-4 py-2 rounded-full uppercase">Review ({toReview.length})</button>
+                  )}
+                  <button onClick={() => dispatch({ type: 'transition', to: AppState.INTERACTING })} disabled={appState === AppState.EXTRACTING} className="text-[10px] font-black text-slate-700 bg-slate-100 px-4 py-2 rounded-full uppercase disabled:opacity-30">Edit Regions</button>
+                  <button onClick={copyText} className="text-[10px] font-black text-blue-600 bg-blue-50 px-4 py-2 rounded-full uppercase">Copy</button>
+                  <PostProcessMenu
+                    provider={provider}
+                    hasSelection={regions.some(r => r.id === selectedId && !!r.extractedText)}
+                    busy={transforming || appState === AppState.EXTRACTING}
+                    onRun={handleTransform}
+                  />
+                  <ExportMenu pages={pages} regions={regions} onError={setError} isOpen={exportOpen} onOpenChange={setExportOpen} />
+                </div>
               </div>
-              <div className="text-slate-700 font-medium leading-relaxed whitespace-pre-wrap text-sm pb-10">{finalText}</div>
+              {documentTransform && (
+                <div className="mb-6">
+                  <TransformView transform={documentTransform} onDiscard={() => dispatch({ type: 'documentTransform', transform: null })} />
+                </div>
+              )}
+              {fieldValues && selectedTemplate && <FieldResults templateName={selectedTemplate.name} values={fieldValues} />}
+              <ExtractionResult
+                pages={pages}
+                regions={regions}
+                selectedId={selectedId}
+                onHover={setHoveredId}
+                onSelect={focusRegion}
+                onEditText={(id, text) => editRegions(prev => updateRegionText(prev, id, text))}
+                onReview={setReviewStartId}
+                onDiscardTransform={(id) => editRegions(prev => prev.map(r => r.id === id ? { ...r, transform: undefined } : r))}
+              />
             </div>
           )}
         </div>
@@ -228,24 +1015,54 @@ const App: React.FC = () => {
           <div className="p-6 border-b bg-slate-50/50 flex justify-between items-center">
              <div>
                 <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Queue Management</h2>
-                <p className="text-sm font-black text-slate-900">Logic Flow & Sequencing</p>
+                <p className="text-sm font-black text-slate-900">Logic Flow & Sequencing{pages.length > 1 && ` · P${currentPage + 1}`}</p>
+                {layoutCached > 0 && (
+                  <p className="mt-1 text-[10px] font-bold text-emerald-600">Layout from cache{pages.length > 1 && ` (${layoutCached}/${pages.length} pages)`}</p>
+                )}
              </div>
              {appState !== AppState.IDLE && (
-               <button onClick={reset} className="text-[10px] font-black text-red-500 uppercase tracking-widest">Clear</button>
+               <div className="flex items-center gap-3">
+                 <button onClick={() => dispatch({ type: 'undo' })} disabled={!canUndo} title="Undo (Ctrl+Z)" className="text-[10px] font-black text-slate-500 uppercase tracking-widest disabled:opacity-30">Undo</button>
+                 <button onClick={() => dispatch({ type: 'redo' })} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="text-[10px] font-black text-slate-500 uppercase tracking-widest disabled:opacity-30">Redo</button>
+                 <button onClick={reset} disabled={isBusy(appState)} className="text-[10px] font-black text-red-500 uppercase tracking-widest disabled:opacity-30">Clear</button>
+               </div>
              )}
           </div>
+          {regions.length > 0 && (
+            <div className="px-4 py-3 border-b flex items-center gap-2">
+              <select
+                value={readingOrder}
+                onChange={(e) => changeReadingOrder(e.target.value as ReadingOrderPreset)}
+                className="flex-1 min-w-0 bg-slate-50 rounded-full px-3 py-1.5 text-[10px] font-black text-slate-700 outline-none"
+              >
+                {READING_ORDER_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+              <button
+                disabled={appState === AppState.EXTRACTING}
+                onClick={() => editRegions(prev => applyReadingOrder(prev, readingOrder))}
+                className="shrink-0 text-[10px] font-black text-blue-600 bg-blue-50 px-3 py-1.5 rounded-full uppercase disabled:opacity-30"
+              >Auto-Order</button>
+            </div>
+          )}
           
           <div className="flex-1 overflow-y-auto p-4 space-y-3">
-            {regions.length === 0 ? (
+            {pageRegions.length === 0 ? (
               <div className="h-full flex flex-col items-center justify-center text-center opacity-20 p-12">
                 <svg className="w-10 h-10 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path d="M4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z"/></svg>
                 <p className="text-[10px] font-black uppercase tracking-widest">Upload to start sequence</p>
               </div>
             ) : (
-              regions.map((region, idx) => (
+              pageRegions.map((region, idx) => (
                 <div 
                   key={region.id}
-                  className={`flex items-center gap-3 p-4 rounded-2xl border transition-all ${
+                  ref={(el) => { rowRefs.current[region.id] = el; }}
+                  draggable={appState !== AppState.EXTRACTING}
+                  onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragId(region.id); }}
+                  onDragOver={(e) => { if (dragId && dragId !== region.id) e.preventDefault(); }}
+                  onDrop={() => { if (dragId) editRegions(prev => moveRegionTo(prev, dragId, region.id)); setDragId(null); }}
+                  onDragEnd={() => setDragId(null)}
+                  className={`flex items-center gap-3 p-4 rounded-2xl border transition-all cursor-grab ${
+                    dragId === region.id ? 'opacity-40' :
                     !region.isActive ? 'opacity-30' : 
                     selectedId === region.id ? 'border-blue-500 bg-blue-50/50 shadow-sm' : 'bg-white border-slate-100'
                   }`}
@@ -253,7 +1070,44 @@ const App: React.FC = () => {
                 >
                   <div className={`w-8 h-8 rounded-xl flex items-center justify-center font-black text-xs ${region.isActive ? 'bg-slate-900 text-white' : 'bg-slate-200 text-slate-400'}`}>{region.order}</div>
                   <div className="flex-1 min-w-0">
-                    <p className="text-[10px] font-black text-slate-900 uppercase truncate">{region.description}</p>
+                    <div className="flex items-center gap-2">
+                      {region.extractedText !== undefined && (
+                        <span className="shrink-0 w-2 h-2 rounded-full" style={{ backgroundColor: CONFIDENCE_COLORS[confidenceLevel(region)] }}></span>
+                      )}
+                      <p className="text-[10px] font-black text-slate-900 uppercase truncate">{region.description}</p>
+                      <select
+                        value={region.kind}
+                        disabled={!region.isActive || appState === AppState.EXTRACTING}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => editRegions(prev => setRegionKind(prev, region.id, e.target.value as RegionKind))}
+                        className={`shrink-0 text-[9px] font-black uppercase rounded-md px-1 py-0.5 outline-none ${region.kind === 'table' ? 'bg-amber-100 text-amber-700' : region.kind === 'math' || region.kind === 'code' ? 'bg-violet-100 text-violet-700' : 'bg-slate-100 text-slate-500'}`}
+                      >
+                        {REGION_KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+                      </select>
+                      {region.kind === 'code' && region.extractedText !== undefined && (
+                        <select
+                          value={region.codeLanguage ?? ''}
+                          disabled={appState === AppState.EXTRACTING}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={(e) => editRegions(prev => setCodeLanguage(prev, region.id, e.target.value || undefined))}
+                          className="shrink-0 text-[9px] font-black uppercase rounded-md px-1 py-0.5 outline-none bg-slate-900 text-slate-100"
+                        >
+                          <option value="">plain</option>
+                          {CODE_LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+                        </select>
+                      )}
+                      {selectedId === region.id && positionInput && (
+                        <span className="shrink-0 text-[9px] font-black rounded-md px-1 py-0.5 bg-blue-600 text-white">→ #{positionInput} ⏎</span>
+                      )}
+                      {(region.cached || cachedPending[region.id]) && (
+                        <span title="Cached · no credit charged" className="shrink-0 text-[9px] font-black uppercase rounded-md px-1 py-0.5 bg-emerald-50 text-emerald-600">cached</span>
+                      )}
+                    </div>
+                    {region.table && region.table.length > 0 ? (
+                      <p className="mt-1 text-[11px] font-medium text-slate-500">{region.table.length} rows × {Math.max(...region.table.map(row => row.length))} cols</p>
+                    ) : region.extractedText !== undefined && (
+                      <p className="mt-1 text-[11px] font-medium text-slate-500 line-clamp-2 whitespace-pre-wrap">{region.extractedText || <span className="italic">No text found</span>}</p>
+                    )}
                   </div>
                   
                   <div className="flex flex-col gap-0.5">
@@ -263,14 +1117,14 @@ const App: React.FC = () => {
                       className="p-1 hover:text-blue-600 disabled:opacity-0"
                     ><svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="4" viewBox="0 0 24 24"><path d="M5 15l7-7 7 7"/></svg></button>
                     <button 
-                      disabled={idx === regions.length - 1 || !region.isActive}
+                      disabled={idx === pageRegions.length - 1 || !region.isActive}
                       onClick={(e) => { e.stopPropagation(); moveRegion(region.id, 'down'); }}
                       className="p-1 hover:text-blue-600 disabled:opacity-0"
                     ><svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="4" viewBox="0 0 24 24"><path d="M19 9l-7 7-7-7"/></svg></button>
                   </div>
 
                   <button 
-                    onClick={(e) => { e.stopPropagation(); setRegions(prev => prev.map(r => r.id === region.id ? {...r, isActive: !r.isActive} : r)); }}
+                    onClick={(e) => { e.stopPropagation(); toggleRegion(region.id); }}
                     className={`w-9 h-9 rounded-xl flex items-center justify-center ${region.isActive ? 'text-red-400 hover:bg-red-50' : 'text-blue-600 hover:bg-blue-50'}`}
                   >
                     {region.isActive ? <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"/></svg> : <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path d="M12 4v16m8-8H4"/></svg>}
@@ -281,13 +1135,38 @@ const App: React.FC = () => {
           </div>
 
           <div className="p-6 border-t bg-slate-50/80 pb-24 lg:pb-6">
+             <div className="flex items-center gap-2 mb-3">
+               <select
+                 value={selectedTemplateId || ''}
+                 onChange={(e) => changeTemplate(e.target.value || null)}
+                 disabled={appState === AppState.EXTRACTING}
+                 className="flex-1 min-w-0 p-3 bg-white border border-slate-200 rounded-xl outline-none text-[10px] font-black uppercase tracking-wider text-slate-600"
+               >
+                 <option value="">No form template</option>
+                 {templates.map(t => <option key={t.id} value={t.id}>{t.name} ({t.fields.length} fields)</option>)}
+               </select>
+               <button onClick={() => setShowTemplates(true)} className="p-3 text-[10px] font-black text-blue-600 uppercase tracking-wider">Manage</button>
+             </div>
              <button 
-              disabled={appState !== AppState.INTERACTING || regions.filter(r => r.isActive).length === 0}
-              onClick={handleExtractWithCredits}
+              disabled={!canExecute}
+              onClick={executeScan}
               className="w-full py-5 bg-slate-900 text-white font-black rounded-2xl shadow-xl hover:bg-black disabled:bg-slate-200 transform active:scale-[0.97] transition-all flex items-center justify-center gap-3 uppercase tracking-widest text-[10px]"
              >
-               {appState === AppState.EXTRACTING ? "SYNTHESIZING..." : "EXECUTE PRO SCAN (1 CR)"}
+               {appState === AppState.EXTRACTING ? `EXTRACTING · ${Object.keys(extraction).length} LEFT` : canShowResults ? "SHOW RESULTS" : appState === AppState.FINISHED && pending.length === 0 ? "ALL REGIONS EXTRACTED" : pending.length > 0 && uncachedPending.length === 0 ? "FILL FROM CACHE (FREE)" : provider.isOffline ? "EXECUTE LOCAL SCAN (FREE)" : `EXECUTE PRO SCAN (${scanCost} CR${cachedCount > 0 ? ` · ${cachedCount} CACHED` : ''})`}
              </button>
+             <div className="flex items-center justify-between mt-3 px-1">
+               <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 cursor-pointer">
+                 <input type="checkbox" checked={ignoreCache} onChange={(e) => setIgnoreCache(e.target.checked)} className="accent-slate-900" />
+                 Ignore cached results
+               </label>
+               {cacheSize > 0 && (
+                 <button
+                   onClick={clearCache}
+                   disabled={appState === AppState.EXTRACTING || appState === AppState.DETECTING_REGIONS}
+                   className="text-[10px] font-black text-slate-400 hover:text-red-500 uppercase tracking-wider disabled:opacity-30"
+                 >Clear cache ({cacheSize})</button>
+               )}
+             </div>
           </div>
         </div>
       </main>
@@ -312,6 +1191,8 @@ const App: React.FC = () => {
           <span className="text-[9px] font-black uppercase tracking-tighter">Queue</span>
         </button>
       </div>
+      </>
+      )}
 
       {error && (
         <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[200] bg-red-600 text-white px-6 py-3 rounded-xl font-bold shadow-2xl animate-in slide-in-from-top-10">
@@ -0,0 +1,109 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { User } from '../../types';
+import { HttpError, bearerToken } from './http';
+import { MailUnavailableError, getMailProvider } from './mailer';
+import { takeRateLimit } from './rateLimit';
+import {
+  createUser, deleteLoginCode, deleteSession, findUserByEmail, getLoginCode, getSession, getUser, saveLoginCode, saveSession
+} from './store';
+
+/**
+ * SESSIONS
+ * Python Analogy: A minimal Flask-Login with passwordless email sign-in:
+ * 'requestLoginCode' mails a one-time code, 'login' trades it for an opaque
+ * token, and 'requireUser' is the @login_required check.
+ *
+ * Owning the mailbox is the proof of identity, so nobody can sign in (or take
+ * a workspace seat) as an address they can't read. Codes are kept hashed,
+ * expire after a few minutes and allow a handful of guesses; sessions expire
+ * too. New accounts start with the same free credits the demo gives.
+ */
+const SIGNUP_CREDITS = 5;
+
+const CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+// Codes mailed per address and hour, so the endpoint can't be used to flood an inbox.
+const CODES_PER_HOUR = 5;
+const HOUR_MS = 60 * 60 * 1000;
+const SESSION_TTL_MS = 30 * 24 * HOUR_MS;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const parseEmail = (rawEmail: unknown): string => {
+  const email = typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) throw new HttpError(400, 'A valid email is required');
+  return email;
+};
+
+const hashCode = (email: string, code: string) => createHash('sha256').update(`${email}:${code}`).digest('hex');
+
+export const requestLoginCode = async (rawEmail: unknown) => {
+  const email = parseEmail(rawEmail);
+  takeRateLimit(`login-code:${email}`, CODES_PER_HOUR, HOUR_MS);
+
+  let mailer;
+  try {
+    mailer = getMailProvider();
+  } catch (error) {
+    if (error instanceof MailUnavailableError) {
+      console.error('Sign-in code not sent:', error.message);
+      throw new HttpError(503, 'Sign-in is not available right now', 'mail_unavailable');
+    }
+    throw error;
+  }
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+  saveLoginCode(email, { hash: hashCode(email, code), expiresAt: Date.now() + CODE_TTL_MS, attempts: 0 });
+  await mailer.send({
+    to: email,
+    subject: `Your Smart Lens sign-in code: ${code}`,
+    text: `Enter ${code} to sign in to Smart Lens. It expires in ${CODE_TTL_MS / 60000} minutes.\n\nIf you didn't ask for it, ignore this email.`
+  });
+};
+
+/** Checks the code (used up on success) and opens a session, creating the account on first sign-in. */
+export const login = (rawEmail: unknown, rawCode: unknown): { token: string; user: User } => {
+  const email = parseEmail(rawEmail);
+  const code = typeof rawCode === 'string' ? rawCode.trim() : '';
+  const pending = getLoginCode(email);
+  if (!pending || pending.expiresAt < Date.now() || pending.attempts >= MAX_CODE_ATTEMPTS) {
+    if (pending) deleteLoginCode(email);
+    throw new HttpError(401, 'That code has expired or was already used; request a new one', 'invalid_code');
+  }
+  const matches = timingSafeEqual(Buffer.from(hashCode(email, code), 'hex'), Buffer.from(pending.hash, 'hex'));
+  if (!matches) {
+    saveLoginCode(email, { ...pending, attempts: pending.attempts + 1 });
+    throw new HttpError(401, 'That code is not right', 'invalid_code');
+  }
+  deleteLoginCode(email);
+
+  const user = findUserByEmail(email) ?? createUser({
+    id: 'usr_' + randomBytes(8).toString('hex'),
+    email,
+    credits: SIGNUP_CREDITS,
+    isPro: false
+  });
+
+  const token = randomBytes(32).toString('hex');
+  const now = Date.now();
+  saveSession(token, { userId: user.id, createdAt: now, expiresAt: now + SESSION_TTL_MS });
+  return { token, user };
+};
+
+export const logout = (req: IncomingMessage) => {
+  const token = bearerToken(req);
+  if (token) deleteSession(token);
+};
+
+export const requireUser = (req: IncomingMessage): User => {
+  const token = bearerToken(req);
+  const session = token ? getSession(token) : undefined;
+  if (session && (session.expiresAt ?? session.createdAt + SESSION_TTL_MS) < Date.now()) {
+    deleteSession(token!);
+    throw new HttpError(401, 'Your session has expired; sign in again');
+  }
+  const user = session ? getUser(session.userId) : undefined;
+  if (!user) throw new HttpError(401, 'Not signed in');
+  return user;
+};
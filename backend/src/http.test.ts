@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import type { IncomingMessage } from 'node:http';
+import { readJson } from './http';
+
+const request = (body: string) => Readable.from([Buffer.from(body)]) as IncomingMessage;
+
+test('a JSON object body is parsed, an empty one reads as {}', async () => {
+  assert.deepEqual(await readJson(request('{"email":"a@b.co"}')), { email: 'a@b.co' });
+  assert.deepEqual(await readJson(Readable.from([]) as IncomingMessage), {});
+});
+
+test('bodies that are not JSON objects are rejected with 400', async () => {
+  for (const body of ['null', '[]', '[{"image":"x"}]', '"text"', '42', 'true', '{oops']) {
+    await assert.rejects(readJson(request(body)), { status: 400 }, body);
+  }
+});
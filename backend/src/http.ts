@@ -0,0 +1,100 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+/**
+ * HTTP PLUMBING
+ * Python Analogy: The tiny slice of Flask we actually need (request.get_json(),
+ * jsonify(), abort()) written on top of the standard library's http server.
+ */
+
+/** Base64 page images are large; anything past this is rejected before parsing. */
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+/** Thrown from a handler to answer with a status code (Python: abort(402)). */
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public code?: string, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const readJson = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  if (size === 0) return {} as T;
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Body must be valid JSON');
+  }
+  // Handlers read fields off the body, so null, arrays and bare values are turned away here.
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new HttpError(400, 'Body must be a JSON object');
+  return body as T;
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * A route's answer written out as one JSON array, element by element (Python:
+ * a Flask response streamed from a generator), so the client can use each part
+ * as soon as it is ready. 'produce' pushes the elements and resolves when done.
+ */
+export class JsonArrayStream {
+  constructor(public produce: (push: (element: unknown) => void) => Promise<void>) {}
+}
+
+/**
+ * Headers go out with the first element, so a route that fails before pushing
+ * anything still gets its real status code: the error is rethrown. Later
+ * failures can only be reported in-band, as a last '{error, code}' element.
+ */
+export const sendJsonArray = async (res: ServerResponse, stream: JsonArrayStream, errorElement: (error: unknown) => unknown) => {
+  let started = false;
+  const write = (element: unknown) => {
+    if (res.destroyed) return;
+    if (!started) res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.write((started ? ',\n' : '[\n') + JSON.stringify(element));
+    started = true;
+  };
+  try {
+    await stream.produce(write);
+  } catch (error) {
+    if (!started) throw error;
+    write(errorElement(error));
+  }
+  if (started) res.end('\n]');
+  else sendJson(res, 200, []);
+};
+
+/** The UI is served by Vite on another origin, so every response carries CORS headers. */
+export const applyCors = (res: ServerResponse, allowedOrigin: string) => {
+  res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+};
+
+export const bearerToken = (req: IncomingMessage): string | null => {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice(7) : null;
+};
+
+export interface RequestContext {
+  req: IncomingMessage;
+  body: any;
+  /** Aborted when the client hangs up before the response is sent. */
+  signal: AbortSignal;
+}
+
+/** A route returns the JSON payload (or a JsonArrayStream); errors are thrown as HttpError. */
+export type RouteHandler = (ctx: RequestContext) => Promise<unknown>;
+
+// Python: routes: dict[str, Callable] keyed by "POST /api/..."
+export type RouteTable = Record<string, RouteHandler>;
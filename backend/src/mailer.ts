@@ -0,0 +1,69 @@
+/**
+ * MAIL PROVIDERS
+ * Python Analogy: Django's EMAIL_BACKEND setting: one 'send' method, with a
+ * console backend for development and a real one for deployments.
+ *
+ * Choose one with MAIL_PROVIDER. 'webhook' POSTs {to, subject, text} as JSON
+ * to MAIL_WEBHOOK_URL, which any transactional mail service (or a small relay
+ * in front of SMTP) can accept. 'console' prints the mail to the server log,
+ * so it lets anyone who can read the log sign in as anyone; it also needs
+ * ALLOW_CONSOLE_MAIL=1 (development only). There is no default.
+ */
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailProvider {
+  id: string;
+  send: (mail: Mail) => Promise<void>;
+}
+
+/** Mail can't be sent: no provider is configured, or it isn't allowed here. */
+export class MailUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailUnavailableError';
+  }
+}
+
+const consoleProvider: MailProvider = {
+  id: 'console',
+  send: async ({ to, subject, text }) => {
+    console.log(`[mail] to ${to}: ${subject}\n${text}`);
+  }
+};
+
+const webhookProvider: MailProvider = {
+  id: 'webhook',
+  send: async (mail) => {
+    const url = process.env.MAIL_WEBHOOK_URL;
+    if (!url) throw new MailUnavailableError('MAIL_WEBHOOK_URL is not set');
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.MAIL_WEBHOOK_TOKEN ? { Authorization: `Bearer ${process.env.MAIL_WEBHOOK_TOKEN}` } : {})
+      },
+      body: JSON.stringify(mail)
+    });
+    if (!response.ok) throw new Error(`Mail webhook answered ${response.status}`);
+  }
+};
+
+const PROVIDERS: Record<string, MailProvider> = {
+  console: consoleProvider,
+  webhook: webhookProvider,
+};
+
+export const getMailProvider = (): MailProvider => {
+  const id = process.env.MAIL_PROVIDER;
+  if (!id) throw new MailUnavailableError('MAIL_PROVIDER is not set');
+  const provider = PROVIDERS[id];
+  if (!provider) throw new MailUnavailableError(`Unknown MAIL_PROVIDER "${id}"`);
+  if (provider === consoleProvider && process.env.ALLOW_CONSOLE_MAIL !== '1') {
+    throw new MailUnavailableError('The console mail provider needs ALLOW_CONSOLE_MAIL=1 (development only)');
+  }
+  return provider;
+};
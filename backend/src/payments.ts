@@ -0,0 +1,63 @@
+import { randomBytes } from 'node:crypto';
+
+/**
+ * PAYMENT PROVIDERS
+ * Python Analogy: A Protocol with one 'charge' method, plus a fake
+ * implementation for development (like a unittest.mock stand-in for Stripe).
+ *
+ * Choose one with PAYMENT_PROVIDER; only 'mock' exists today. A real gateway
+ * is added by implementing the interface and registering it below. There is
+ * no default: an unconfigured server refuses purchases rather than giving
+ * credits away, and 'mock' also needs ALLOW_MOCK_PAYMENTS=1 (development only).
+ */
+export interface ChargeRequest {
+  userId: string;
+  email: string;
+  amountCents: number;
+  description: string;
+}
+
+export interface PaymentProvider {
+  id: string;
+  /** Resolves with the provider's payment id, or rejects when the charge is declined. */
+  charge: (request: ChargeRequest) => Promise<{ paymentId: string }>;
+}
+
+export class PaymentDeclinedError extends Error {
+  constructor(message = 'Payment declined') {
+    super(message);
+    this.name = 'PaymentDeclinedError';
+  }
+}
+
+/** Purchases can't be taken: no provider is configured, or it isn't allowed here. */
+export class PaymentUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentUnavailableError';
+  }
+}
+
+/** Always approves, unless MOCK_PAYMENT_DECLINE=1 is set to exercise the failure path. */
+const mockProvider: PaymentProvider = {
+  id: 'mock',
+  charge: async () => {
+    if (process.env.MOCK_PAYMENT_DECLINE === '1') throw new PaymentDeclinedError();
+    return { paymentId: 'pay_mock_' + randomBytes(8).toString('hex') };
+  }
+};
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  mock: mockProvider,
+};
+
+export const getPaymentProvider = (): PaymentProvider => {
+  const id = process.env.PAYMENT_PROVIDER;
+  if (!id) throw new PaymentUnavailableError('PAYMENT_PROVIDER is not set');
+  const provider = PROVIDERS[id];
+  if (!provider) throw new PaymentUnavailableError(`Unknown PAYMENT_PROVIDER "${id}"`);
+  if (provider === mockProvider && process.env.ALLOW_MOCK_PAYMENTS !== '1') {
+    throw new PaymentUnavailableError('The mock payment provider needs ALLOW_MOCK_PAYMENTS=1 (development only)');
+  }
+  return provider;
+};
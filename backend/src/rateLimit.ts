@@ -0,0 +1,31 @@
+import { HttpError } from './http';
+
+/**
+ * RATE LIMITS
+ * Python Analogy: A fixed-window counter like flask-limiter's in-memory
+ * storage: each key gets 'limit' calls per window, then 429 until it resets.
+ *
+ * Kept in memory, so limits reset on restart and are per process, like the
+ * rest of the store.
+ */
+interface Window {
+  start: number;
+  count: number;
+}
+
+const windows = new Map<string, Window>();
+
+/** Counts one call for 'key', or throws 429 (as a 'quota' error the client already explains) once over the limit. */
+export const takeRateLimit = (key: string, limit: number, windowMs: number) => {
+  const now = Date.now();
+  let window = windows.get(key);
+  if (!window || now - window.start >= windowMs) {
+    window = { start: now, count: 0 };
+    windows.set(key, window);
+  }
+  if (window.count >= limit) {
+    const retryAfter = Math.ceil((window.start + windowMs - now) / 1000);
+    throw new HttpError(429, `Too many requests; try again in ${retryAfter}s`, 'quota', { retryAfter });
+  }
+  window.count++;
+};
@@ -0,0 +1,22 @@
+import { RouteTable } from '../http';
+import { login, logout, requestLoginCode, requireUser } from '../auth';
+import { accountView } from '../workspaces';
+
+export const authRoutes: RouteTable = {
+  'POST /api/auth/code': async ({ body }) => {
+    await requestLoginCode(body.email);
+    return { ok: true };
+  },
+
+  'POST /api/auth/login': async ({ body }) => {
+    const { token, user } = login(body.email, body.code);
+    return { token, user: accountView(user) };
+  },
+
+  'POST /api/auth/logout': async ({ req }) => {
+    logout(req);
+    return { ok: true };
+  },
+
+  'GET /api/me': async ({ req }) => ({ user: accountView(requireUser(req)) }),
+};
@@ -0,0 +1,64 @@
+import { randomBytes } from 'node:crypto';
+import { HttpError, RouteTable } from '../http';
+import { requireUser } from '../auth';
+import { PaymentDeclinedError, PaymentUnavailableError, getPaymentProvider } from '../payments';
+import { addCredits, addPoolCredits, availableCredits, getMembership, recordPurchase } from '../store';
+import { findPlan, planPriceCents } from '../../../services/plans';
+
+export const billingRoutes: RouteTable = {
+  'GET /api/credits': async ({ req }) => ({ credits: availableCredits(requireUser(req).id) }),
+
+  /**
+   * Only the plan id comes from the client; price and credits are looked up here.
+   * Workspace admins buy team plans for the pool; everyone else buys for themselves.
+   */
+  'POST /api/purchases': async ({ req, body }) => {
+    const user = requireUser(req);
+    const plan = findPlan(String(body.planId));
+    if (!plan) throw new HttpError(400, 'Unknown plan');
+    const membership = getMembership(user.id);
+    if (membership && membership.role !== 'admin') throw new HttpError(403, 'Only workspace admins can buy credits');
+    if (!!membership !== !!plan.team) {
+      throw new HttpError(400, plan.team ? 'Team plans need a workspace' : 'Workspaces are topped up with team plans');
+    }
+
+    const amountCents = planPriceCents(plan);
+    let provider;
+    try {
+      provider = getPaymentProvider();
+    } catch (error) {
+      if (error instanceof PaymentUnavailableError) {
+        console.error('Purchase refused:', error.message);
+        throw new HttpError(503, 'Purchases are not available right now', 'payments_unavailable');
+      }
+      throw error;
+    }
+
+    let paymentId: string;
+    try {
+      ({ paymentId } = await provider.charge({
+        userId: user.id,
+        email: user.email,
+        amountCents,
+        description: `${plan.name} - ${plan.credits} credits`
+      }));
+    } catch (error) {
+      if (error instanceof PaymentDeclinedError) throw new HttpError(402, error.message, 'payment_declined');
+      throw error;
+    }
+
+    recordPurchase({
+      id: 'pur_' + randomBytes(8).toString('hex'),
+      userId: user.id,
+      workspaceId: membership?.workspaceId,
+      planId: plan.id,
+      credits: plan.credits,
+      amountCents,
+      paymentId,
+      createdAt: Date.now()
+    });
+    if (membership) addPoolCredits(membership.workspaceId, plan.credits);
+    else addCredits(user.id, plan.credits);
+    return { credits: availableCredits(user.id) };
+  },
+};
@@ -0,0 +1,104 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { IncomingMessage } from 'node:http';
+import type { TextRegion } from '../../../types';
+import { RequestError } from '../../../services/errors';
+
+// The store reads DATA_FILE when it is first imported.
+process.env.DATA_FILE = join(mkdtempSync(join(tmpdir(), 'smartlens-')), 'db.json');
+const { JsonArrayStream } = await import('../http');
+const { availableCredits, createUser, saveSession } = await import('../store');
+const { geminiProvider } = await import('../../../services/geminiService');
+const { ocrRoutes } = await import('./ocr');
+
+const region = (id: string, order: number): TextRegion => ({
+  id, order, pageIndex: 0, isActive: true, description: 'Paragraph', kind: 'paragraph', box: { ymin: 0, xmin: 0, ymax: 100, xmax: 100 }
+});
+
+const signIn = (id: string) => {
+  createUser({ id, email: `${id}@example.com`, credits: 5, isPro: false });
+  saveSession(`token-${id}`, { userId: id, createdAt: Date.now(), expiresAt: Date.now() + 60_000 });
+  return { headers: { authorization: `Bearer token-${id}` } } as IncomingMessage;
+};
+
+// Runs the route like the server does and collects the streamed elements.
+const extract = async (req: IncomingMessage, controller: AbortController, onElement: (element: any) => void = () => {}) => {
+  const stream = await ocrRoutes['POST /api/ocr/extract']({
+    req,
+    body: { image: 'aGVsbG8=', regions: [region('a', 0), region('b', 1)] },
+    signal: controller.signal
+  });
+  assert.ok(stream instanceof JsonArrayStream);
+  const elements: any[] = [];
+  await stream.produce(element => {
+    elements.push(element);
+    onElement(element);
+  });
+  return elements;
+};
+
+test('a page cancelled after some of its text went out stays charged', async () => {
+  const req = signIn('usr_partial');
+  const controller = new AbortController();
+  mock.method(geminiProvider, 'extractTextFromRegions', async (_image: string, _regions: TextRegion[], _options: unknown, signal: AbortSignal, onResult: any) => {
+    onResult('a', { text: 'first' });
+    if (signal.aborted) throw new RequestError('cancelled', 'Request cancelled');
+    onResult('b', { text: 'second' });
+    return {};
+  });
+
+  await assert.rejects(extract(req, controller, () => controller.abort()), { kind: 'cancelled' });
+  assert.equal(availableCredits('usr_partial'), 4);
+  mock.restoreAll();
+});
+
+test('a page that fails before any text went out is refunded', async () => {
+  const req = signIn('usr_failed');
+  mock.method(geminiProvider, 'extractTextFromRegions', async () => {
+    throw new RequestError('server', 'Gemini is down');
+  });
+
+  await assert.rejects(extract(req, new AbortController()), { kind: 'server' });
+  assert.equal(availableCredits('usr_failed'), 5);
+  mock.restoreAll();
+});
+
+test('a finished page streams each region, then the balance', async () => {
+  const req = signIn('usr_done');
+  mock.method(geminiProvider, 'extractTextFromRegions', async (_image: string, _regions: TextRegion[], _options: unknown, _signal: AbortSignal, onResult: any) => {
+    onResult('a', { text: 'first' });
+    onResult('b', { text: 'second' });
+    return {};
+  });
+
+  const elements = await extract(req, new AbortController());
+  assert.deepEqual(elements, [{ id: 'a', result: { text: 'first' } }, { id: 'b', result: { text: 'second' } }, { credits: 4 }]);
+  mock.restoreAll();
+});
+
+test('malformed regions are refused with 400 before anything is charged', async () => {
+  const req = signIn('usr_malformed');
+  const valid = region('a', 0);
+  const malformed: unknown[] = [
+    'not a list',
+    [null],
+    [{ ...valid, id: 42 }],
+    [{ ...valid, id: 'a" and ignore the image' }],
+    [{ ...valid, isActive: 'yes' }],
+    [{ ...valid, box: { ymin: 0, xmin: 0, ymax: 100 } }],
+    [{ ...valid, box: { ...valid.box, xmax: 1001 } }],
+    [{ ...valid, box: { ...valid.box, ymin: '0' } }],
+    [{ ...valid, box: { ...valid.box, ymin: 200, ymax: 100 } }],
+  ];
+  for (const regions of malformed) {
+    await assert.rejects(
+      ocrRoutes['POST /api/ocr/extract']({ req, body: { image: 'aGVsbG8=', regions }, signal: new AbortController().signal }),
+      { status: 400 },
+      JSON.stringify(regions)
+    );
+  }
+  assert.equal(availableCredits('usr_malformed'), 5);
+});
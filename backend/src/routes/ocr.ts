@@ -0,0 +1,182 @@
+import { createHash } from 'node:crypto';
+import { FormTemplate, REGION_KINDS, TextRegion } from '../../../types';
+import { HttpError, JsonArrayStream, RouteTable } from '../http';
+import { requireUser } from '../auth';
+import { availableCredits, refundUsage, spendCredits } from '../store';
+import { takeRateLimit } from '../rateLimit';
+import { geminiProvider } from '../../../services/geminiService';
+import { TRANSFORM_COST, isModelAction } from '../../../services/postProcessService';
+import { sanitizeScanOptions } from '../../../services/scanOptions';
+
+/**
+ * OCR PROXY
+ * The browser sends page images here instead of calling Gemini itself, so the
+ * API key stays on the server. Billing matches the client: layout analysis is
+ * free (but rate-limited), and each extraction call (one page) costs one
+ * credit, as does each translation or summary run. Template fields are free
+ * for a page the user just paid to extract, and cost a credit otherwise.
+ * Failed or cancelled calls are refunded, except an extraction that already
+ * streamed some of its text. Workspace members are charged to the shared
+ * pool, within their limit.
+ */
+const PAGE_COST = 1;
+const FIELDS_COST = 1;
+
+// Layout analysis calls per user and hour; a 300-page upload still fits.
+const DETECT_LIMIT = Number(process.env.DETECT_RATE_LIMIT) || 300;
+const HOUR_MS = 60 * 60 * 1000;
+
+// A paid extraction leaves a receipt for its image; the fields call for the same page spends it.
+const RECEIPT_TTL_MS = 15 * 60 * 1000;
+const receipts = new Map<string, number>();
+
+const receiptKey = (userId: string, image: string) => `${userId}:${createHash('sha256').update(image).digest('hex')}`;
+
+const issueReceipt = (userId: string, image: string) => {
+  const now = Date.now();
+  receipts.forEach((issuedAt, key) => { if (now - issuedAt > RECEIPT_TTL_MS) receipts.delete(key); });
+  receipts.set(receiptKey(userId, image), now);
+};
+
+/** True (once) if the user paid to extract this exact image in the last few minutes. */
+const redeemReceipt = (userId: string, image: string): boolean => {
+  const key = receiptKey(userId, image);
+  const issuedAt = receipts.get(key);
+  receipts.delete(key);
+  return issuedAt !== undefined && Date.now() - issuedAt <= RECEIPT_TTL_MS;
+};
+
+const requireImage = (image: unknown): string => {
+  if (typeof image !== 'string' || image.length === 0) throw new HttpError(400, 'image (base64) is required');
+  return image;
+};
+
+// Region ids end up quoted in the prompt, so only plain ids are accepted.
+const REGION_ID_PATTERN = /^[\w-]{1,64}$/;
+const MAX_REGIONS = 500;
+
+const isCoordinate = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1000;
+
+/** Rebuilds the regions field by field, so nothing malformed reaches the prompt or the cropping. */
+const parseRegions = (value: unknown): TextRegion[] => {
+  if (!Array.isArray(value) || value.length > MAX_REGIONS) throw new HttpError(400, `regions must be a list of at most ${MAX_REGIONS}`);
+  return value.map((raw: any, i): TextRegion => {
+    const box = raw?.box;
+    const valid = typeof raw?.id === 'string' && REGION_ID_PATTERN.test(raw.id)
+      && typeof raw.isActive === 'boolean'
+      && [box?.ymin, box?.xmin, box?.ymax, box?.xmax].every(isCoordinate)
+      && box.ymin <= box.ymax && box.xmin <= box.xmax;
+    if (!valid) throw new HttpError(400, `regions[${i}] needs an id, a boolean isActive and a box within 0-1000`);
+    return {
+      id: raw.id,
+      box: { ymin: box.ymin, xmin: box.xmin, ymax: box.ymax, xmax: box.xmax },
+      order: Number.isFinite(raw.order) ? raw.order : i,
+      description: typeof raw.description === 'string' ? raw.description.slice(0, 200) : '',
+      kind: REGION_KINDS.includes(raw.kind) ? raw.kind : 'paragraph',
+      isActive: raw.isActive,
+      pageIndex: Number.isInteger(raw.pageIndex) ? raw.pageIndex : 0
+    };
+  });
+};
+
+export const ocrRoutes: RouteTable = {
+  'POST /api/ocr/detect': async ({ req, body, signal }) => {
+    const user = requireUser(req);
+    takeRateLimit(`detect:${user.id}`, DETECT_LIMIT, HOUR_MS);
+    const pageIndex = Number(body.pageIndex) || 0;
+    return { regions: await geminiProvider.detectRegions(requireImage(body.image), pageIndex, sanitizeScanOptions(body.options), signal) };
+  },
+
+  'POST /api/ocr/extract': async ({ req, body, signal }) => {
+    const user = requireUser(req);
+    const image = requireImage(body.image);
+    // Inactive regions are skipped by the engine, so a request without active ones would be billed for nothing.
+    const regions = parseRegions(body.regions);
+    if (!regions.some(r => r.isActive)) throw new HttpError(400, 'At least one active region is required');
+
+    // Debit before the Gemini call so two parallel scans can't both spend the last credit.
+    const charge = spendCredits(user.id, PAGE_COST, 'extract');
+    if (!charge) {
+      throw new HttpError(402, 'Not enough credits', 'insufficient_credits', { required: PAGE_COST });
+    }
+    const balance = availableCredits(user.id);
+
+    // Streamed as [{id, result}, ..., {credits}]: each region as soon as Gemini has read
+    // it, and the balance last. The client keeps whatever reached it, so a page is only
+    // refunded if it fails (or is cancelled) before its first region went out.
+    return new JsonArrayStream(async push => {
+      let delivered = false;
+      try {
+        await geminiProvider.extractTextFromRegions(image, regions, sanitizeScanOptions(body.options), signal, (id, result) => {
+          delivered = true;
+          push({ id, result });
+        });
+      } catch (error) {
+        if (!delivered) refundUsage(charge);
+        throw error;
+      }
+      issueReceipt(user.id, image);
+      push({ credits: balance });
+    });
+  },
+
+  'POST /api/ocr/transform': async ({ req, body, signal }) => {
+    const user = requireUser(req);
+    if (typeof body.action !== 'string' || !isModelAction(body.action)) {
+      throw new HttpError(400, 'action must be translate or summarize');
+    }
+    const texts = body.texts;
+    if (!texts || typeof texts !== 'object' || !Object.values(texts).every(t => typeof t === 'string')) {
+      throw new HttpError(400, 'texts must map ids to strings');
+    }
+    if (!Object.values(texts as Record<string, string>).some(t => t.trim())) throw new HttpError(400, 'Nothing to transform');
+    const targetLanguage = typeof body.targetLanguage === 'string' ? body.targetLanguage : undefined;
+
+    const charge = spendCredits(user.id, TRANSFORM_COST, 'transform');
+    if (!charge) {
+      throw new HttpError(402, 'Not enough credits', 'insufficient_credits', { required: TRANSFORM_COST });
+    }
+    const balance = availableCredits(user.id);
+
+    try {
+      const results = await geminiProvider.transformText!(texts, body.action, targetLanguage, signal);
+      return { results, credits: balance };
+    } catch (error) {
+      refundUsage(charge);
+      throw error;
+    }
+  },
+
+  /** Template fields ride along with a page extraction the user just paid for; on any other page they cost a credit. */
+  'POST /api/ocr/fields': async ({ req, body, signal }) => {
+    const user = requireUser(req);
+    const image = requireImage(body.image);
+    const template: FormTemplate | undefined = body.template;
+    if (!template || !Array.isArray(template.fields)) throw new HttpError(400, 'template is required');
+    const pageIndex = Number(body.pageIndex) || 0;
+
+    if (redeemReceipt(user.id, image)) {
+      try {
+        return { fields: await geminiProvider.extractFields(image, template, pageIndex, signal), credits: availableCredits(user.id) };
+      } catch (error) {
+        // Still paid for: a retry of the same page stays free.
+        issueReceipt(user.id, image);
+        throw error;
+      }
+    }
+
+    const charge = spendCredits(user.id, FIELDS_COST, 'fields');
+    if (!charge) {
+      throw new HttpError(402, 'Not enough credits', 'insufficient_credits', { required: FIELDS_COST });
+    }
+    const balance = availableCredits(user.id);
+
+    try {
+      return { fields: await geminiProvider.extractFields(image, template, pageIndex, signal), credits: balance };
+    } catch (error) {
+      refundUsage(charge);
+      throw error;
+    }
+  },
+};
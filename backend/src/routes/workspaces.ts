@@ -0,0 +1,26 @@
+import { RouteTable } from '../http';
+import { requireUser } from '../auth';
+import {
+  acceptInvite, createWorkspace, declineInvite, inviteMember, leaveWorkspace, removeMember, updateMember, usageReport, workspaceState
+} from '../workspaces';
+
+/** Every change answers with the caller's fresh account and workspace, so the client never refetches. */
+export const workspaceRoutes: RouteTable = {
+  'GET /api/workspace': async ({ req }) => workspaceState(requireUser(req)),
+
+  'POST /api/workspace': async ({ req, body }) => createWorkspace(requireUser(req), body.name),
+
+  'POST /api/workspace/invites': async ({ req, body }) => inviteMember(requireUser(req), body),
+
+  'POST /api/workspace/invites/accept': async ({ req, body }) => acceptInvite(requireUser(req), body.workspaceId),
+
+  'POST /api/workspace/invites/decline': async ({ req, body }) => declineInvite(requireUser(req), body.workspaceId),
+
+  'POST /api/workspace/members': async ({ req, body }) => updateMember(requireUser(req), body),
+
+  'POST /api/workspace/members/remove': async ({ req, body }) => removeMember(requireUser(req), body.email),
+
+  'POST /api/workspace/leave': async ({ req }) => leaveWorkspace(requireUser(req)),
+
+  'GET /api/workspace/usage': async ({ req }) => ({ report: usageReport(requireUser(req)) }),
+};
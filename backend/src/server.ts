@@ -0,0 +1,95 @@
+import { createServer } from 'node:http';
+import { HttpError, JsonArrayStream, RouteTable, applyCors, readJson, sendJson, sendJsonArray } from './http';
+import { authRoutes } from './routes/auth';
+import { billingRoutes } from './routes/billing';
+import { getMailProvider } from './mailer';
+import { getPaymentProvider } from './payments';
+import { ocrRoutes } from './routes/ocr';
+import { workspaceRoutes } from './routes/workspaces';
+import { RequestError, RequestErrorKind } from '../../services/errors';
+
+/**
+ * API SERVER
+ * Python Analogy: The Flask 'app' object and its url_map, without Flask.
+ *
+ * Holds the Gemini key, the user accounts, their workspaces and the credit
+ * balances, so none of those can be read or changed from the browser.
+ */
+const PORT = Number(process.env.PORT) || 8787;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+
+// The shared geminiService reads API_KEY, like it does in the browser build.
+// (process.env stringifies whatever is assigned, so never copy an undefined key.)
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+if (!process.env.API_KEY) console.warn('GEMINI_API_KEY is not set; OCR routes will fail.');
+try {
+  getPaymentProvider();
+} catch (error: any) {
+  console.warn(`${error.message}; purchases will be refused.`);
+}
+try {
+  getMailProvider();
+} catch (error: any) {
+  console.warn(`${error.message}; nobody can sign in.`);
+}
+
+const routes: RouteTable = { ...authRoutes, ...billingRoutes, ...ocrRoutes, ...workspaceRoutes };
+
+// Failed Gemini calls are answered with their kind as 'code', so the client can rebuild the same RequestError.
+const REQUEST_ERROR_STATUS: Record<RequestErrorKind, number> = {
+  quota: 429,
+  safety: 422,
+  invalid_image: 400,
+  // The server's own key or connection is at fault, not the client's request.
+  auth: 502,
+  network: 502,
+  server: 502,
+  bad_response: 502,
+  timeout: 504,
+  cancelled: 499,
+  unknown: 500,
+};
+
+const server = createServer(async (req, res) => {
+  applyCors(res, ALLOWED_ORIGIN);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  const handler = routes[`${req.method} ${path}`];
+  if (!handler) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  const controller = new AbortController();
+  // A client that hangs up (Cancel, a closed tab) stops the Gemini call, and a billed route refunds it.
+  res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+  // Python: the @app.errorhandler functions, as a status code and a JSON body.
+  const describeFailure = (error: unknown): { status: number; body: Record<string, unknown> } => {
+    if (error instanceof HttpError) {
+      return { status: error.status, body: { error: error.message, code: error.code, ...error.details } };
+    }
+    if (error instanceof RequestError) {
+      if (error.kind !== 'cancelled') console.error(`${req.method} ${path} failed (${error.kind}):`, error.message);
+      return { status: REQUEST_ERROR_STATUS[error.kind], body: { error: error.message, code: error.kind } };
+    }
+    console.error(`${req.method} ${path} failed:`, error);
+    return { status: 500, body: { error: 'Internal server error' } };
+  };
+
+  try {
+    const body = req.method === 'POST' ? await readJson(req) : {};
+    const result = await handler({ req, body, signal: controller.signal });
+    if (result instanceof JsonArrayStream) await sendJsonArray(res, result, error => describeFailure(error).body);
+    else sendJson(res, 200, result);
+  } catch (error) {
+    const { status, body } = describeFailure(error);
+    if (!res.writableEnded) sendJson(res, status, body);
+  }
+});
+
+server.listen(PORT, () => console.log(`SmartLens API listening on http://localhost:${PORT}`));
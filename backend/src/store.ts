@@ -0,0 +1,252 @@
+import { randomBytes } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { User, WorkspaceRole } from '../../types';
+
+/**
+ * DATA STORE
+ * Python Analogy: A 'shelve'-style JSON file loaded once at startup and
+ * written back after every change.
+ *
+ * Node runs handlers on one thread, so a check-and-subtract that never awaits
+ * in between cannot interleave with another request: that is what makes the
+ * credit debits atomic. Swap this module for a real database before running
+ * more than one server process.
+ */
+export interface Session {
+  userId: string;
+  createdAt: number;
+  /** Sessions from before expiry existed lack this; they expire by createdAt instead. */
+  expiresAt?: number;
+}
+
+/** A sign-in code waiting to be typed in; only its hash is kept. */
+export interface LoginCode {
+  hash: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+export interface Purchase {
+  id: string;
+  userId: string;
+  /** Set for team plans, whose credits went to this workspace's pool. */
+  workspaceId?: string;
+  planId: string;
+  credits: number;
+  amountCents: number;
+  paymentId: string;
+  createdAt: number;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  /** The shared pool every member's scans are paid from. */
+  credits: number;
+  createdAt: number;
+}
+
+/** A seat in a workspace; an invitation until the email's owner accepts it. */
+export interface Membership {
+  workspaceId: string;
+  email: string;
+  userId: string | null;
+  role: WorkspaceRole;
+  /** Credits per calendar month; null means no limit. */
+  spendingLimit: number | null;
+  invitedBy: string;
+  invitedAt: number;
+  joinedAt: number | null;
+}
+
+/** One billed call, kept for spending limits and the usage dashboard. */
+export interface UsageEvent {
+  id: string;
+  userId: string;
+  /** Null when the user's own credits paid for it. */
+  workspaceId: string | null;
+  kind: 'extract' | 'transform' | 'fields';
+  credits: number;
+  createdAt: number;
+}
+
+interface Database {
+  users: Record<string, User>;
+  sessions: Record<string, Session>;
+  loginCodes: Record<string, LoginCode>;
+  purchases: Purchase[];
+  workspaces: Record<string, Workspace>;
+  memberships: Membership[];
+  usage: UsageEvent[];
+}
+
+const DEFAULT_DATA_FILE = resolve(dirname(fileURLToPath(import.meta.url)), '../data/db.json');
+const DATA_FILE = process.env.DATA_FILE || DEFAULT_DATA_FILE;
+
+const load = (): Database => {
+  const empty: Database = { users: {}, sessions: {}, loginCodes: {}, purchases: [], workspaces: {}, memberships: [], usage: [] };
+  // Files written before workspaces existed lack their tables.
+  return existsSync(DATA_FILE) ? { ...empty, ...JSON.parse(readFileSync(DATA_FILE, 'utf8')) } : empty;
+};
+
+const db = load();
+
+// Write to a temp file and rename, so a crash mid-write never leaves half a JSON file.
+const persist = () => {
+  mkdirSync(dirname(DATA_FILE), { recursive: true });
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(db, null, 2));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+export const getUser = (id: string): User | undefined => db.users[id];
+
+export const findUserByEmail = (email: string): User | undefined =>
+  Object.values(db.users).find(u => u.email === email);
+
+export const createUser = (user: User): User => {
+  db.users[user.id] = user;
+  persist();
+  return user;
+};
+
+export const getSession = (token: string): Session | undefined => db.sessions[token];
+
+export const saveSession = (token: string, session: Session) => {
+  db.sessions[token] = session;
+  persist();
+};
+
+export const deleteSession = (token: string) => {
+  delete db.sessions[token];
+  persist();
+};
+
+export const getLoginCode = (email: string): LoginCode | undefined => db.loginCodes[email];
+
+export const saveLoginCode = (email: string, code: LoginCode) => {
+  db.loginCodes[email] = code;
+  persist();
+};
+
+export const deleteLoginCode = (email: string) => {
+  delete db.loginCodes[email];
+  persist();
+};
+
+/** The user's accepted seat, if they belong to a workspace. */
+export const getMembership = (userId: string): Membership | undefined =>
+  db.memberships.find(m => m.userId === userId && m.joinedAt !== null);
+
+export const findMembership = (workspaceId: string, email: string): Membership | undefined =>
+  db.memberships.find(m => m.workspaceId === workspaceId && m.email === email);
+
+/** Seats and open invitations of a workspace. */
+export const listMemberships = (workspaceId: string): Membership[] =>
+  db.memberships.filter(m => m.workspaceId === workspaceId);
+
+export const listInvites = (email: string): Membership[] =>
+  db.memberships.filter(m => m.email === email && m.joinedAt === null);
+
+export const saveMembership = (membership: Membership) => {
+  const index = db.memberships.findIndex(m => m.workspaceId === membership.workspaceId && m.email === membership.email);
+  if (index >= 0) db.memberships[index] = membership;
+  else db.memberships.push(membership);
+  persist();
+};
+
+export const deleteMembership = (workspaceId: string, email: string) => {
+  db.memberships = db.memberships.filter(m => !(m.workspaceId === workspaceId && m.email === email));
+  persist();
+};
+
+export const getWorkspace = (id: string): Workspace | undefined => db.workspaces[id];
+
+export const saveWorkspace = (workspace: Workspace) => {
+  db.workspaces[workspace.id] = workspace;
+  persist();
+};
+
+/** Removes the workspace with its seats and invitations; its usage history is kept. */
+export const deleteWorkspace = (id: string) => {
+  delete db.workspaces[id];
+  db.memberships = db.memberships.filter(m => m.workspaceId !== id);
+  persist();
+};
+
+export const listUsage = (workspaceId: string | null, since: number): UsageEvent[] =>
+  db.usage.filter(e => e.workspaceId === workspaceId && e.createdAt >= since);
+
+const startOfMonth = () => {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+};
+
+export const spentThisMonth = (userId: string, workspaceId: string): number =>
+  listUsage(workspaceId, startOfMonth()).reduce((sum, e) => sum + (e.userId === userId ? e.credits : 0), 0);
+
+/**
+ * What the user may spend right now. Members of a workspace draw on its pool,
+ * up to what is left of their monthly limit; viewers can't spend at all.
+ */
+export const availableCredits = (userId: string): number => {
+  const membership = getMembership(userId);
+  if (!membership) return db.users[userId]?.credits ?? 0;
+  const pool = db.workspaces[membership.workspaceId]?.credits ?? 0;
+  if (membership.role === 'viewer') return 0;
+  if (membership.spendingLimit === null) return pool;
+  return Math.max(0, Math.min(pool, membership.spendingLimit - spentThisMonth(userId, membership.workspaceId)));
+};
+
+/**
+ * Takes 'amount' from whoever pays for the user's scans and logs the usage.
+ * Returns the usage event (the receipt for a refund), or null when the
+ * balance or the member's limit doesn't cover it.
+ */
+export const spendCredits = (userId: string, amount: number, kind: UsageEvent['kind']): UsageEvent | null => {
+  if (availableCredits(userId) < amount) return null;
+  const membership = getMembership(userId);
+  if (membership) db.workspaces[membership.workspaceId].credits -= amount;
+  else db.users[userId].credits -= amount;
+  const event: UsageEvent = {
+    id: 'use_' + randomBytes(8).toString('hex'),
+    userId,
+    workspaceId: membership?.workspaceId ?? null,
+    kind,
+    credits: amount,
+    createdAt: Date.now()
+  };
+  db.usage.push(event);
+  persist();
+  return event;
+};
+
+/** Undoes a spend whose call failed: the credits go back where they came from and the usage is dropped. */
+export const refundUsage = (event: UsageEvent) => {
+  db.usage = db.usage.filter(e => e.id !== event.id);
+  const payer = event.workspaceId ? db.workspaces[event.workspaceId] : db.users[event.userId];
+  if (payer) payer.credits += event.credits;
+  persist();
+};
+
+export const addPoolCredits = (workspaceId: string, amount: number): number => {
+  const workspace = db.workspaces[workspaceId];
+  if (!workspace) throw new Error(`Unknown workspace ${workspaceId}`);
+  workspace.credits += amount;
+  persist();
+  return workspace.credits;
+};
+
+export const addCredits = (userId: string, amount: number): number => {
+  const user = db.users[userId];
+  if (!user) throw new Error(`Unknown user ${userId}`);
+  user.credits += amount;
+  persist();
+  return user.credits;
+};
+
+export const recordPurchase = (purchase: Purchase) => {
+  db.purchases.push(purchase);
+  persist();
+};
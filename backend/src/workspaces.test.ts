@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { User } from '../../types';
+
+// The store reads DATA_FILE when it is first imported.
+process.env.DATA_FILE = join(mkdtempSync(join(tmpdir(), 'smartlens-')), 'db.json');
+const { addPoolCredits, availableCredits, createUser, getUser, getWorkspace, refundUsage, spendCredits } = await import('./store');
+const { acceptInvite, createWorkspace, inviteMember, leaveWorkspace, removeMember, updateMember } = await import('./workspaces');
+
+let nextUser = 0;
+const newUser = (credits = 0): User =>
+  createUser({ id: `usr_${++nextUser}`, email: `user${nextUser}@example.com`, credits, isPro: false });
+
+/** An admin with a funded pool and one member who joined with the given role and limit. */
+const team = (role: 'admin' | 'member' | 'viewer' = 'member', spendingLimit: number | null = null) => {
+  const admin = newUser();
+  const member = newUser(7);
+  const { user } = createWorkspace(admin, 'Team');
+  const workspaceId = user.workspace!.id;
+  addPoolCredits(workspaceId, 10);
+  inviteMember(admin, { email: member.email, role, spendingLimit });
+  acceptInvite(member, workspaceId);
+  return { admin, member, workspaceId };
+};
+
+test('without a workspace, users spend and get back their own credits', () => {
+  const user = newUser(2);
+  const charge = spendCredits(user.id, 2, 'extract');
+  assert.ok(charge);
+  assert.equal(availableCredits(user.id), 0);
+  assert.equal(spendCredits(user.id, 1, 'extract'), null);
+  refundUsage(charge);
+  assert.equal(availableCredits(user.id), 2);
+});
+
+test('members spend from the pool, not from their own balance', () => {
+  const { member, workspaceId } = team();
+  assert.equal(availableCredits(member.id), 10);
+  spendCredits(member.id, 4, 'extract');
+  assert.equal(getWorkspace(workspaceId)?.credits, 6);
+  assert.equal(getUser(member.id)?.credits, 7);
+});
+
+test('the monthly limit caps what a member can spend, and a refund gives it back', () => {
+  const { member, workspaceId } = team('member', 3);
+  assert.equal(availableCredits(member.id), 3);
+
+  const first = spendCredits(member.id, 2, 'extract');
+  assert.ok(first);
+  assert.equal(availableCredits(member.id), 1);
+  assert.equal(spendCredits(member.id, 2, 'transform'), null, 'the pool has enough, the limit does not');
+  assert.equal(getWorkspace(workspaceId)?.credits, 8);
+
+  const last = spendCredits(member.id, 1, 'fields');
+  assert.ok(last);
+  assert.equal(availableCredits(member.id), 0);
+
+  refundUsage(first);
+  assert.equal(availableCredits(member.id), 2);
+  assert.equal(getWorkspace(workspaceId)?.credits, 9);
+});
+
+test('the limit never lets a member spend more than the pool holds', () => {
+  const { member } = team('member', 50);
+  assert.equal(availableCredits(member.id), 10);
+});
+
+test('viewers cannot spend at all', () => {
+  const { member } = team('viewer');
+  assert.equal(availableCredits(member.id), 0);
+  assert.equal(spendCredits(member.id, 1, 'extract'), null);
+});
+
+test('the last admin can be neither demoted nor removed', () => {
+  const { admin } = team();
+  assert.throws(() => updateMember(admin, { email: admin.email, role: 'member' }), { status: 409 });
+  assert.throws(() => removeMember(admin, admin.email), { status: 409 });
+  assert.throws(() => leaveWorkspace(admin), { status: 409 });
+});
+
+test('with a second admin, the first one can step down', () => {
+  const { admin, member } = team('admin');
+  const state = updateMember(admin, { email: admin.email, role: 'member' });
+  assert.equal(state.members.find(m => m.email === admin.email)?.role, 'member');
+  assert.throws(() => updateMember(member, { email: member.email, role: 'viewer' }), { status: 409 });
+});
+
+test('only admins can change seats', () => {
+  const { member } = team();
+  assert.throws(() => updateMember(member, { email: member.email, role: 'admin' }), { status: 403 });
+  assert.throws(() => inviteMember(member, { email: 'new@example.com' }), { status: 403 });
+});
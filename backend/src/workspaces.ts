@@ -0,0 +1,195 @@
+import { randomBytes } from 'node:crypto';
+import { MemberUsage, UsageReport, User, WORKSPACE_ROLES, WorkspaceRole, WorkspaceState } from '../../types';
+import { HttpError } from './http';
+import {
+  Membership, availableCredits, deleteMembership, deleteWorkspace, findMembership, getMembership, getUser, getWorkspace,
+  listInvites, listMemberships, listUsage, saveMembership, saveWorkspace, spentThisMonth
+} from './store';
+
+/**
+ * TEAM WORKSPACES
+ * Python Analogy: The service layer of a Django "organizations" app: each
+ * function checks who is asking, applies one change and leaves the storage
+ * to the store module.
+ *
+ * A user belongs to at most one workspace. While they do, their scans are
+ * paid from its shared pool and their own balance sits untouched until they
+ * leave. Invitations are addressed to an email and wait until its owner
+ * signs in and accepts.
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Days covered by the usage dashboard. */
+export const REPORT_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The user as the client sees them: spendable credits and their seat, if any. */
+export const accountView = (user: User): User => {
+  const membership = getMembership(user.id);
+  const workspace = membership && getWorkspace(membership.workspaceId);
+  return {
+    ...user,
+    credits: availableCredits(user.id),
+    workspace: membership && workspace ? {
+      id: workspace.id,
+      name: workspace.name,
+      role: membership.role,
+      pool: workspace.credits,
+      spendingLimit: membership.spendingLimit,
+      spentThisMonth: spentThisMonth(user.id, workspace.id)
+    } : undefined
+  };
+};
+
+const requireSeat = (user: User, role?: WorkspaceRole): Membership => {
+  const membership = getMembership(user.id);
+  if (!membership) throw new HttpError(404, "You're not in a workspace");
+  if (role && membership.role !== role) throw new HttpError(403, `Only workspace ${role}s can do that`);
+  return membership;
+};
+
+const parseRole = (value: unknown): WorkspaceRole => {
+  if (!WORKSPACE_ROLES.includes(value as WorkspaceRole)) throw new HttpError(400, 'role must be admin, member or viewer');
+  return value as WorkspaceRole;
+};
+
+// Python: None or a non-negative int
+const parseLimit = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) throw new HttpError(400, 'spendingLimit must be a whole number of credits');
+  return limit;
+};
+
+const isLastAdmin = (membership: Membership) =>
+  membership.role === 'admin' && !listMemberships(membership.workspaceId).some(m =>
+    m.role === 'admin' && m.joinedAt !== null && m.email !== membership.email);
+
+export const workspaceState = (user: User): WorkspaceState => {
+  const membership = getMembership(user.id);
+  return {
+    user: accountView(user),
+    members: membership ? listMemberships(membership.workspaceId).map(m => ({
+      userId: m.userId,
+      email: m.email,
+      role: m.role,
+      spendingLimit: m.spendingLimit,
+      spentThisMonth: m.userId ? spentThisMonth(m.userId, m.workspaceId) : 0,
+      invitedAt: m.invitedAt,
+      joinedAt: m.joinedAt
+    })) : [],
+    invites: listInvites(user.email).flatMap(m => {
+      const workspace = getWorkspace(m.workspaceId);
+      return workspace ? [{ workspaceId: m.workspaceId, workspaceName: workspace.name, role: m.role, invitedBy: m.invitedBy }] : [];
+    })
+  };
+};
+
+export const createWorkspace = (user: User, rawName: unknown): WorkspaceState => {
+  const name = typeof rawName === 'string' ? rawName.trim() : '';
+  if (!name) throw new HttpError(400, 'A workspace name is required');
+  if (getMembership(user.id)) throw new HttpError(409, 'Leave your current workspace first');
+
+  const id = 'wks_' + randomBytes(8).toString('hex');
+  const now = Date.now();
+  saveWorkspace({ id, name: name.slice(0, 80), credits: 0, createdAt: now });
+  saveMembership({ workspaceId: id, email: user.email, userId: user.id, role: 'admin', spendingLimit: null, invitedBy: user.email, invitedAt: now, joinedAt: now });
+  return workspaceState(user);
+};
+
+export const inviteMember = (admin: User, body: { email?: unknown; role?: unknown; spendingLimit?: unknown }): WorkspaceState => {
+  const { workspaceId } = requireSeat(admin, 'admin');
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) throw new HttpError(400, 'A valid email is required');
+  if (findMembership(workspaceId, email)) throw new HttpError(409, `${email} is already a member or invited`);
+
+  saveMembership({
+    workspaceId,
+    email,
+    userId: null,
+    role: parseRole(body.role ?? 'member'),
+    spendingLimit: parseLimit(body.spendingLimit),
+    invitedBy: admin.email,
+    invitedAt: Date.now(),
+    joinedAt: null
+  });
+  return workspaceState(admin);
+};
+
+export const acceptInvite = (user: User, workspaceId: unknown): WorkspaceState => {
+  const invite = typeof workspaceId === 'string' ? findMembership(workspaceId, user.email) : undefined;
+  if (!invite || invite.joinedAt !== null) throw new HttpError(404, 'Invitation not found');
+  if (getMembership(user.id)) throw new HttpError(409, 'Leave your current workspace first');
+  saveMembership({ ...invite, userId: user.id, joinedAt: Date.now() });
+  return workspaceState(user);
+};
+
+export const declineInvite = (user: User, workspaceId: unknown): WorkspaceState => {
+  const invite = typeof workspaceId === 'string' ? findMembership(workspaceId, user.email) : undefined;
+  if (invite && invite.joinedAt === null) deleteMembership(invite.workspaceId, invite.email);
+  return workspaceState(user);
+};
+
+/** Changes a member's role or monthly limit; a workspace always keeps at least one admin. */
+export const updateMember = (admin: User, body: { email?: unknown; role?: unknown; spendingLimit?: unknown }): WorkspaceState => {
+  const { workspaceId } = requireSeat(admin, 'admin');
+  const member = typeof body.email === 'string' ? findMembership(workspaceId, body.email.toLowerCase()) : undefined;
+  if (!member) throw new HttpError(404, 'Member not found');
+
+  const role = body.role === undefined ? member.role : parseRole(body.role);
+  if (role !== 'admin' && isLastAdmin(member)) throw new HttpError(409, 'Make another member an admin first');
+  const spendingLimit = 'spendingLimit' in body ? parseLimit(body.spendingLimit) : member.spendingLimit;
+  saveMembership({ ...member, role, spendingLimit });
+  return workspaceState(admin);
+};
+
+/** Removes a member or withdraws an invitation. */
+export const removeMember = (admin: User, email: unknown): WorkspaceState => {
+  const { workspaceId } = requireSeat(admin, 'admin');
+  const member = typeof email === 'string' ? findMembership(workspaceId, email.toLowerCase()) : undefined;
+  if (!member) throw new HttpError(404, 'Member not found');
+  if (isLastAdmin(member)) throw new HttpError(409, 'Make another member an admin first');
+  deleteMembership(workspaceId, member.email);
+  return workspaceState(admin);
+};
+
+/**
+ * The last admin can only leave an empty workspace with nothing in its pool,
+ * which closes it; otherwise paid credits would be stranded.
+ */
+export const leaveWorkspace = (user: User): WorkspaceState => {
+  const membership = requireSeat(user);
+  if (isLastAdmin(membership)) {
+    const others = listMemberships(membership.workspaceId).some(m => m.email !== membership.email && m.joinedAt !== null);
+    if (others) throw new HttpError(409, 'Make another member an admin first');
+    if ((getWorkspace(membership.workspaceId)?.credits ?? 0) > 0) throw new HttpError(409, 'The workspace still has credits in its pool');
+    deleteWorkspace(membership.workspaceId);
+  } else {
+    deleteMembership(membership.workspaceId, membership.email);
+  }
+  return workspaceState(user);
+};
+
+/** Scans and credits per member per day; admins see everyone, others only themselves. */
+export const usageReport = (user: User): UsageReport => {
+  const membership = requireSeat(user);
+  const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+  const start = today - (REPORT_DAYS - 1) * DAY_MS;
+  const days = Array.from({ length: REPORT_DAYS }, (_, i) => new Date(start + i * DAY_MS).toISOString().slice(0, 10));
+
+  // Past members keep their rows, so their spending stays accounted for.
+  const members = new Map<string, MemberUsage>();
+  for (const event of listUsage(membership.workspaceId, start)) {
+    if (membership.role !== 'admin' && event.userId !== user.id) continue;
+    let row = members.get(event.userId);
+    if (!row) {
+      row = { userId: event.userId, email: getUser(event.userId)?.email ?? 'unknown', scans: 0, credits: 0, daily: days.map(() => 0) };
+      members.set(event.userId, row);
+    }
+    if (event.kind === 'extract') row.scans += 1;
+    row.credits += event.credits;
+    row.daily[Math.floor((event.createdAt - start) / DAY_MS)] += event.credits;
+  }
+  return { days, members: Array.from(members.values()).sort((a, b) => b.credits - a.credits) };
+};
@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { BatchJob } from '../types';
+import { isJobRunning, useBatchQueue } from '../hooks/useBatchQueue';
+
+interface BatchPanelProps {
+  queue: ReturnType<typeof useBatchQueue>;
+  isOfflineProvider: boolean;
+}
+
+const STATUS_STYLES: Record<BatchJob['status'], string> = {
+  queued: 'bg-slate-100 text-slate-500',
+  loading: 'bg-blue-50 text-blue-600',
+  detecting: 'bg-blue-50 text-blue-600',
+  extracting: 'bg-indigo-50 text-indigo-600',
+  done: 'bg-emerald-50 text-emerald-600',
+  failed: 'bg-red-50 text-red-600',
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ queue, isOfflineProvider }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+
+  const { jobs } = queue;
+  const doneCount = jobs.filter(j => j.status === 'done').length;
+  const failedCount = jobs.filter(j => j.status === 'failed').length;
+  const runningCount = jobs.filter(isJobRunning).length;
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    queue.addFiles(Array.from(event.target.files as FileList || []));
+    event.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    queue.addFiles(Array.from(e.dataTransfer.files as FileList || []));
+  };
+
+  const handleDownload = async () => {
+    setIsZipping(true);
+    try {
+      await queue.downloadResults();
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col lg:flex-row overflow-hidden bg-slate-50">
+      {/* CONTROLS */}
+      <div className="lg:w-[360px] lg:shrink-0 p-6 space-y-4 border-b lg:border-b-0 lg:border-r border-slate-100 bg-white">
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`p-8 rounded-3xl border-2 border-dashed text-center transition-all ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-slate-200'}`}
+        >
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Drop images or PDFs</p>
+          <div className="flex gap-2 justify-center">
+            <button onClick={() => fileInputRef.current?.click()} className="text-[10px] font-black text-white bg-slate-900 px-4 py-2 rounded-full uppercase">Add Files</button>
+            <button onClick={() => folderInputRef.current?.click()} className="text-[10px] font-black text-slate-700 bg-slate-100 px-4 py-2 rounded-full uppercase">Add Folder</button>
+          </div>
+          <input type="file" ref={fileInputRef} onChange={handleFiles} className="hidden" accept="image/*,application/pdf" multiple />
+          <input type="file" ref={folderInputRef} onChange={handleFiles} className="hidden" multiple {...{ webkitdirectory: '' }} />
+        </div>
+
+        <label className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl">
+          <span className="text-xs font-bold text-slate-700">Extract text after detection</span>
+          <input type="checkbox" checked={queue.extract} onChange={(e) => queue.setExtract(e.target.checked)} />
+        </label>
+        <label className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl">
+          <span className="text-xs font-bold text-slate-700">Parallel jobs</span>
+          <select value={queue.concurrency} onChange={(e) => queue.setConcurrency(Number(e.target.value))} className="bg-transparent text-xs font-black outline-none">
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider px-1">
+          {queue.extract && !isOfflineProvider ? '1 credit per extracted page' : 'No credits charged'}
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => queue.setIsPaused(!queue.isPaused)}
+            className={`py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest ${queue.isPaused ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700'}`}
+          >{queue.isPaused ? 'Resume' : 'Pause'}</button>
+          <button
+            disabled={failedCount === 0}
+            onClick={queue.retryFailed}
+            className="py-3 rounded-2xl bg-slate-100 text-slate-700 text-[10px] font-black uppercase tracking-widest disabled:opacity-30"
+          >Retry Failed</button>
+          <button
+            disabled={doneCount === 0}
+            onClick={queue.clearFinished}
+            className="py-3 rounded-2xl bg-slate-100 text-slate-700 text-[10px] font-black uppercase tracking-widest disabled:opacity-30"
+          >Clear Done</button>
+          <button
+            disabled={doneCount === 0 || isZipping}
+            onClick={handleDownload}
+            className="py-3 rounded-2xl bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest disabled:bg-slate-200"
+          >{isZipping ? 'Zipping...' : 'Download Zip'}</button>
+        </div>
+      </div>
+
+      {/* JOB LIST */}
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <div className="p-6 border-b bg-slate-50/50">
+          <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Batch Queue</h2>
+          <p className="text-sm font-black text-slate-900">
+            {jobs.length} files · {doneCount} done · {runningCount} running · {failedCount} failed{queue.isPaused ? ' · paused' : ''}
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-2 pb-24 lg:pb-4">
+          {jobs.length === 0 ? (
+            <div className="h-full flex items-center justify-center opacity-20">
+              <p className="text-[10px] font-black uppercase tracking-widest">No files queued</p>
+            </div>
+          ) : jobs.map(job => (
+            <div key={job.id} className="p-4 bg-white rounded-2xl border border-slate-100">
+              <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-bold text-slate-900 truncate">{job.file.name}</p>
+                  {job.error && <p className="text-[10px] font-bold text-red-500 truncate">{job.error}</p>}
+                </div>
+                <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-full ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+                {isJobRunning(job) && (
+                  <button onClick={() => queue.cancelJob(job.id)} className="text-[10px] font-black text-slate-500 hover:text-red-500 uppercase">Cancel</button>
+                )}
+                {job.status === 'failed' && (
+                  <button onClick={() => queue.retryJob(job.id)} className="text-[10px] font-black text-blue-600 uppercase">Retry</button>
+                )}
+                {!isJobRunning(job) && (
+                  <button onClick={() => queue.removeJob(job.id)} className="text-slate-300 hover:text-red-500">
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path d="M6 18L18 6M6 6l12 12"/></svg>
+                  </button>
+                )}
+              </div>
+              {isJobRunning(job) && (
+                <div className="mt-3 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${Math.round(job.progress * 100)}%` }}></div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
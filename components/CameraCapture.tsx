@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentPage, PageAdjustments, Quad } from '../types';
+import { detectDocumentQuad, quadDistance } from '../services/edgeDetection';
+
+interface CameraCaptureProps {
+  /** Captured pages plus the page corners found on each, for the preprocessing step. */
+  onDone: (pages: DocumentPage[], adjustments: Record<string, PageAdjustments>) => void;
+  onClose: () => void;
+}
+
+interface Capture {
+  page: DocumentPage;
+  corners: Quad | null;
+}
+
+const ANALYSIS_INTERVAL_MS = 150;
+/** Corners may wobble this much (grid units) and still count as "held still". */
+const STEADY_TOLERANCE = 20;
+/** ~1 second of steady frames triggers an auto-capture. */
+const STEADY_FRAMES = 7;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onDone, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [captures, setCaptures] = useState<Capture[]>([]);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [steadiness, setSteadiness] = useState(0);
+  const [flash, setFlash] = useState(false);
+
+  // The analysis loop runs outside React's render cycle, so it reads live values from refs.
+  const autoCaptureRef = useRef(autoCapture);
+  const trackingRef = useRef({ last: null as Quad | null, steadyFrames: 0, armed: true });
+  const pageCountRef = useRef(0);
+
+  useEffect(() => {
+    autoCaptureRef.current = autoCapture;
+  }, [autoCapture]);
+
+  const capture = (corners: Quad | null) => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+
+    pageCountRef.current += 1;
+    const page: DocumentPage = {
+      id: Math.random().toString(36).substr(2, 9),
+      image: canvas.toDataURL('image/jpeg', 0.92),
+      sourceName: `Camera page ${pageCountRef.current}`
+    };
+    setCaptures(prev => [...prev, { page, corners }]);
+
+    // Wait for the page to change (or be moved) before auto-capturing again.
+    trackingRef.current = { last: corners, steadyFrames: 0, armed: false };
+    setSteadiness(0);
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+  };
+
+  const analyzeFrame = () => {
+    const video = videoRef.current;
+    if (!video || video.readyState < 2) return;
+
+    const detected = detectDocumentQuad(video, video.videoWidth, video.videoHeight);
+    const tracking = trackingRef.current;
+    setQuad(detected);
+
+    if (!detected) {
+      tracking.last = null;
+      tracking.steadyFrames = 0;
+      tracking.armed = true;
+      setSteadiness(0);
+      return;
+    }
+
+    const held = tracking.last !== null && quadDistance(detected, tracking.last) < STEADY_TOLERANCE;
+    tracking.steadyFrames = held ? tracking.steadyFrames + 1 : 0;
+    tracking.last = detected;
+    if (!held) tracking.armed = true;
+
+    setSteadiness(tracking.armed && autoCaptureRef.current ? Math.min(1, tracking.steadyFrames / STEADY_FRAMES) : 0);
+    if (tracking.armed && autoCaptureRef.current && tracking.steadyFrames >= STEADY_FRAMES) capture(detected);
+  };
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const loop = () => {
+      timer = setTimeout(() => {
+        analyzeFrame();
+        loop();
+      }, ANALYSIS_INTERVAL_MS);
+    };
+
+    if (!navigator.mediaDevices) {
+      setError("This browser has no camera access (it needs HTTPS).");
+      return;
+    }
+
+    navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false
+    })
+      .then(async (s) => {
+        if (cancelled) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        const video = videoRef.current!;
+        video.srcObject = s;
+        await video.play();
+        loop();
+      })
+      .catch(() => setError("Camera unavailable. Allow camera access or upload files instead."));
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  const handleDone = () => {
+    const adjustments: Record<string, PageAdjustments> = {};
+    for (const { page, corners } of captures) adjustments[page.id] = { rotation: 0, corners };
+    onDone(captures.map(c => c.page), adjustments);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-black flex flex-col">
+      <div className="flex justify-between items-center px-6 py-4 text-white">
+        <button onClick={onClose} className="text-[10px] font-black uppercase tracking-widest opacity-70">Cancel</button>
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+          <input type="checkbox" checked={autoCapture} onChange={(e) => setAutoCapture(e.target.checked)} />
+          Auto-capture
+        </label>
+        <button
+          disabled={captures.length === 0}
+          onClick={handleDone}
+          className="text-[10px] font-black uppercase tracking-widest bg-blue-600 px-4 py-2 rounded-full disabled:opacity-30"
+        >Done ({captures.length})</button>
+      </div>
+
+      <div className="flex-1 relative flex items-center justify-center overflow-hidden">
+        {error ? (
+          <p className="text-white text-xs font-black uppercase tracking-widest opacity-60 text-center px-6">{error}</p>
+        ) : (
+          <div className="relative inline-block max-w-full max-h-full">
+            <video ref={videoRef} playsInline muted className="block max-w-full max-h-[calc(100vh-14rem)]" />
+            {quad && (
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+                <polygon
+                  points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill={`rgba(59, 130, 246, ${0.1 + steadiness * 0.25})`}
+                  stroke={steadiness >= 1 ? '#22c55e' : '#3b82f6'}
+                  strokeWidth="6"
+                />
+              </svg>
+            )}
+            {flash && <div className="absolute inset-0 bg-white/80"></div>}
+          </div>
+        )}
+        <p className="absolute top-4 left-1/2 -translate-x-1/2 text-white text-[10px] font-black uppercase tracking-widest bg-black/50 px-3 py-1.5 rounded-full">
+          {!quad ? 'Point at a page' : autoCapture ? 'Hold still' : 'Page found'}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-4 px-6 py-5">
+        <div className="flex-1 flex gap-2 overflow-x-auto">
+          {captures.map((c, i) => (
+            <div key={c.page.id} className="relative shrink-0">
+              <img src={c.page.image} alt={`Page ${i + 1}`} className="h-14 w-10 object-cover rounded-md border border-white/20" />
+              <button
+                onClick={() => setCaptures(prev => prev.filter(p => p.page.id !== c.page.id))}
+                className="absolute -top-1.5 -right-1.5 w-5 h-5 bg-red-500 text-white rounded-full text-[10px] font-black"
+              >×</button>
+            </div>
+          ))}
+        </div>
+        <button
+          disabled={!!error}
+          onClick={() => capture(quad)}
+          className="w-16 h-16 shrink-0 rounded-full border-4 border-white bg-white/20 active:scale-90 transition-transform disabled:opacity-30"
+          aria-label="Capture page"
+        ></button>
+        <div className="flex-1"></div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,75 @@
+import React, { useRef, useState } from 'react';
+import { Point, Quad } from '../types';
+
+interface CornerOverlayProps {
+  corners: Quad;
+  onChange: (corners: Quad) => void;
+}
+
+const HANDLE_RADIUS = 14;
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+/**
+ * Four draggable page corners drawn over the "before" image. Must sit in a
+ * box with the image's exact size, since points are in the 0-1000 grid.
+ */
+const CornerOverlay: React.FC<CornerOverlayProps> = ({ corners, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Like RegionOverlay, the drag stays local until pointer-up.
+  const [dragging, setDragging] = useState<{ index: number; point: Point } | null>(null);
+
+  const toGrid = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1000, Math.max(0, Math.round(v)));
+    return {
+      x: clamp(((e.clientX - rect.left) / rect.width) * 1000),
+      y: clamp(((e.clientY - rect.top) / rect.height) * 1000)
+    };
+  };
+
+  const shown = corners.map((p, i) => dragging?.index === i ? dragging.point : p) as Quad;
+
+  const handlePointerUp = () => {
+    if (dragging) onChange(shown);
+    setDragging(null);
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute inset-0 w-full h-full touch-none"
+      viewBox="0 0 1000 1000"
+      preserveAspectRatio="none"
+      onPointerMove={(e) => dragging && setDragging({ index: dragging.index, point: toGrid(e) })}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDragging(null)}
+    >
+      <polygon
+        points={shown.map(p => `${p.x},${p.y}`).join(' ')}
+        fill="rgba(59, 130, 246, 0.15)"
+        stroke="#2563eb"
+        strokeWidth="4"
+      />
+      {shown.map((p, index) => (
+        <circle
+          key={index}
+          cx={p.x}
+          cy={p.y}
+          r={HANDLE_RADIUS}
+          fill="white"
+          stroke="#2563eb"
+          strokeWidth="4"
+          className="cursor-grab"
+          onPointerDown={(e) => {
+            svgRef.current?.setPointerCapture(e.pointerId);
+            setDragging({ index, point: p });
+          }}
+        >
+          <title>{CORNER_LABELS[index]}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default CornerOverlay;
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentPage, TextRegion } from '../types';
+import { EXPORT_FORMATS, ExportFormat, collectTables, downloadBlob, exportDocument, exportFileName } from '../services/exportService';
+
+interface ExportMenuProps {
+  pages: DocumentPage[];
+  regions: TextRegion[];
+  onError: (message: string) => void;
+  /** Lets the parent open the menu (the export shortcut); uncontrolled when omitted. */
+  isOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ pages, regions, onError, isOpen: openProp, onOpenChange }) => {
+  const [openState, setOpenState] = useState(false);
+  const isOpen = openProp ?? openState;
+  const setIsOpen = (open: boolean) => {
+    setOpenState(open);
+    onOpenChange?.(open);
+  };
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const hasTables = collectTables({ pages, regions }).length > 0;
+
+  // Focus the first format so the menu can be driven from the keyboard.
+  useEffect(() => {
+    if (isOpen) menuRef.current?.querySelector<HTMLButtonElement>('button:not(:disabled)')?.focus();
+  }, [isOpen]);
+
+  // Arrows walk the formats and Esc closes; kept from reaching the page's shortcuts.
+  const handleMenuKey = (e: React.KeyboardEvent) => {
+    const items: HTMLButtonElement[] = Array.from(menuRef.current?.querySelectorAll<HTMLButtonElement>('button:not(:disabled)') ?? []);
+    const index = items.indexOf(document.activeElement as HTMLButtonElement);
+    if (e.key === 'Escape') setIsOpen(false);
+    else if (e.key === 'ArrowDown') items[(index + 1) % items.length]?.focus();
+    else if (e.key === 'ArrowUp') items[(index - 1 + items.length) % items.length]?.focus();
+    else return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setBusyFormat(format);
+    try {
+      const source = { pages, regions };
+      downloadBlob(await exportDocument(format, source), exportFileName(format, source));
+    } catch (err: any) {
+      console.error("Export failed:", err);
+      onError("Export failed. Try another format.");
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        disabled={busyFormat !== null}
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-[10px] font-black text-white bg-slate-900 px-4 py-2 rounded-full uppercase disabled:opacity-50 flex items-center gap-1"
+      >
+        {busyFormat ? 'Exporting...' : 'Export'}
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="4"><path d="M19 9l-7 7-7-7"/></svg>
+      </button>
+      {isOpen && (
+        <div ref={menuRef} onKeyDown={handleMenuKey} className="absolute right-0 mt-2 w-48 bg-white border border-slate-100 rounded-2xl shadow-2xl py-2 z-50">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              disabled={format.tablesOnly && !hasTables}
+              onClick={() => handleExport(format.id)}
+              className="w-full flex justify-between items-center px-4 py-2 text-left hover:bg-slate-50 disabled:opacity-30"
+            >
+              <span className="text-xs font-bold text-slate-700">{format.label}</span>
+              <span className="text-[9px] font-black text-slate-400 uppercase">.{format.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
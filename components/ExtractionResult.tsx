@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentPage, TextRegion } from '../types';
+import { regionsForPage } from '../services/documentService';
+import TransformView from './TransformView';
+import MathPreview from './MathPreview';
+import { isRightToLeft } from '../services/scanOptions';
+import { CONFIDENCE_COLORS, confidenceLevel, needsReview, splitBySpans } from '../services/confidenceService';
+
+interface ExtractionResultProps {
+  pages: DocumentPage[];
+  regions: TextRegion[];
+  /** Region linked to the box selected on the canvas; its text is scrolled into view. */
+  selectedId?: string | null;
+  /** Reports the region under the pointer, or null when it leaves. */
+  onHover?: (id: string | null) => void;
+  onSelect?: (id: string) => void;
+  /** Saves an edited text onto its region; blocks are read-only without it. */
+  onEditText?: (id: string, text: string) => void;
+  /** Opens the review panel on a region. */
+  onReview?: (id: string) => void;
+  onDiscardTransform?: (id: string) => void;
+}
+
+const TableGrid: React.FC<{ rows: string[][] }> = ({ rows }) => (
+  <div className="overflow-x-auto rounded-xl border border-slate-200">
+    <table className="min-w-full text-xs">
+      <tbody>
+        {rows.map((row, r) => (
+          <tr key={r} className={r === 0 ? 'bg-slate-50 font-black text-slate-900' : 'border-t border-slate-100'}>
+            {row.map((cell, c) => (
+              <td key={c} className="px-3 py-2 whitespace-pre-wrap align-top border-l first:border-l-0 border-slate-100">{cell}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const ConfidenceBadge: React.FC<{ region: TextRegion }> = ({ region }) => {
+  if (region.verified) {
+    return <span className="text-[9px] font-black uppercase tracking-widest text-emerald-600">Verified</span>;
+  }
+  if (region.confidence === undefined) return null;
+  return (
+    <span className="text-[9px] font-black uppercase tracking-widest" style={{ color: CONFIDENCE_COLORS[confidenceLevel(region)] }}>
+      {Math.round(region.confidence * 100)}% confident
+    </span>
+  );
+};
+
+/** Grows with its content, so editing never adds a second scrollbar. */
+const AutoSizeTextarea: React.FC<{ value: string; onChange: (value: string) => void; onBlur: () => void; className: string }> = ({ value, onChange, onBlur, className }) => {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    el.style.height = 'auto';
+    el.style.height = `${el.scrollHeight}px`;
+  }, [value]);
+  useEffect(() => { ref.current?.focus(); }, []);
+  return <textarea ref={ref} value={value} rows={1} onChange={(e) => onChange(e.target.value)} onBlur={onBlur} className={className} />;
+};
+
+/**
+ * Renders the extraction region by region, so tables show as real grids
+ * instead of tab-separated text. Mirrors buildDocumentText's ordering rules.
+ * Characters the engine was unsure of are highlighted, and regions that still
+ * need proof-reading carry a confidence badge.
+ *
+ * Every block is linked to its region: hovering reports it (so the canvas can
+ * highlight the box), clicking edits it, and selecting a box elsewhere scrolls
+ * its block into view. Tables are edited as tab-separated text. A translation
+ * or other post-processed copy is shown under the original it came from.
+ * Math is typeset from its LaTeX (edited as source) and code keeps its indentation.
+ */
+const ExtractionResult: React.FC<ExtractionResultProps> = ({ pages, regions, selectedId = null, onHover, onSelect, onEditText, onReview, onDiscardTransform }) => {
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const blockRefs = useRef<Record<string, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    if (selectedId) blockRefs.current[selectedId]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedId]);
+
+  const startEditing = (region: TextRegion) => {
+    onSelect?.(region.id);
+    if (onEditText && editing?.id !== region.id) setEditing({ id: region.id, text: region.extractedText ?? '' });
+  };
+
+  const commit = () => {
+    if (!editing) return;
+    const original = regions.find(r => r.id === editing.id)?.extractedText;
+    if (editing.text !== original) onEditText?.(editing.id, editing.text);
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-6 pb-10">
+      {pages.map((page, pageIndex) => {
+        const visible = regionsForPage(regions, pageIndex).filter(r => r.isActive && r.extractedText);
+        if (visible.length === 0) return null;
+
+        return (
+          <section key={page.id} className="space-y-4">
+            {pages.length > 1 && (
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Page {pageIndex + 1}</p>
+            )}
+            {visible.map(region => {
+              const flagged = needsReview(region);
+              const isEditing = editing?.id === region.id;
+              const verbatim = region.kind === 'code' || region.kind === 'math';
+              const textStyle = region.kind === 'heading' ? 'text-base font-black text-slate-900' : 'text-sm font-medium';
+              const highlighted = splitBySpans(region.extractedText!, region.uncertain).map((segment, i) => segment.uncertain ? (
+                <mark key={i} className="bg-amber-100 text-amber-900 rounded-sm">{segment.text}</mark>
+              ) : (
+                <React.Fragment key={i}>{segment.text}</React.Fragment>
+              ));
+              return (
+                <div
+                  key={region.id}
+                  lang={region.language}
+                  dir={verbatim ? 'ltr' : isRightToLeft(region.language) ? 'rtl' : undefined}
+                  ref={(el) => { blockRefs.current[region.id] = el; }}
+                  onMouseEnter={() => onHover?.(region.id)}
+                  onMouseLeave={() => onHover?.(null)}
+                  className={`space-y-1 rounded-lg transition-colors ${flagged ? 'pl-3 border-l-2' : ''} ${selectedId === region.id ? 'bg-blue-50/60 ring-1 ring-blue-200' : 'hover:bg-slate-50'}`}
+                  style={flagged ? { borderColor: CONFIDENCE_COLORS[confidenceLevel(region)] } : undefined}
+                >
+                  {(flagged || region.verified || region.cached) && (
+                    <div className="flex items-center gap-3">
+                      {(flagged || region.verified) && <ConfidenceBadge region={region} />}
+                      {region.cached && (
+                        <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">Cached · no credit charged</span>
+                      )}
+                      {onReview && flagged && (
+                        <button onClick={() => onReview(region.id)} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-700">Review</button>
+                      )}
+                    </div>
+                  )}
+                  {isEditing ? (
+                    <AutoSizeTextarea
+                      value={editing.text}
+                      onChange={(text) => setEditing({ id: region.id, text })}
+                      onBlur={commit}
+                      className={`w-full p-2 -m-px border border-blue-300 rounded-lg outline-none resize-none bg-white text-slate-700 leading-relaxed ${region.table || verbatim ? 'font-mono text-xs whitespace-pre' : textStyle}`}
+                    />
+                  ) : (
+                    <div onClick={() => startEditing(region)} className={onEditText ? 'cursor-text' : onSelect ? 'cursor-pointer' : ''}>
+                      {region.table && region.table.length > 0 ? (
+                        <TableGrid rows={region.table} />
+                      ) : region.kind === 'math' ? (
+                        <MathPreview latex={region.extractedText!} />
+                      ) : region.kind === 'code' ? (
+                        <div className="rounded-xl bg-slate-900 overflow-hidden">
+                          {region.codeLanguage && (
+                            <p className="px-3 pt-2 text-[9px] font-black uppercase tracking-widest text-slate-500">{region.codeLanguage}</p>
+                          )}
+                          <pre className="p-3 overflow-x-auto font-mono text-xs leading-relaxed text-slate-100">{highlighted}</pre>
+                        </div>
+                      ) : (
+                        <div className={`text-slate-700 leading-relaxed whitespace-pre-wrap ${textStyle}`}>{highlighted}</div>
+                      )}
+                    </div>
+                  )}
+                  {region.transform && (
+                    <TransformView transform={region.transform} onDiscard={() => onDiscardTransform?.(region.id)} />
+                  )}
+                </div>
+              );
+            })}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ExtractionResult;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { FieldValue } from '../types';
+import { fieldValuesToJson } from '../services/templateService';
+import { downloadBlob } from '../services/exportService';
+
+interface FieldResultsProps {
+  templateName: string;
+  values: FieldValue[];
+}
+
+const confidenceStyle = (confidence: number) =>
+  confidence >= 0.85 ? 'bg-emerald-50 text-emerald-600' :
+  confidence >= 0.5 ? 'bg-amber-50 text-amber-600' :
+  'bg-red-50 text-red-600';
+
+const formatValue = (v: FieldValue) => {
+  if (v.value === null) return v.raw ? `Unreadable: "${v.raw}"` : 'Not found';
+  if (v.type === 'amount') return (v.value as number).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return String(v.value);
+};
+
+const FieldResults: React.FC<FieldResultsProps> = ({ templateName, values }) => (
+  <div className="mb-6 rounded-2xl border border-slate-100 overflow-hidden">
+    <div className="flex justify-between items-center px-4 py-3 bg-slate-50">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Fields · {templateName}</p>
+      <button
+        onClick={() => downloadBlob(new Blob([fieldValuesToJson(values)], { type: 'application/json' }), `${templateName}.fields.json`)}
+        className="text-[10px] font-black text-blue-600 uppercase"
+      >JSON</button>
+    </div>
+    {values.map(v => (
+      <div key={v.fieldId} className="flex items-center gap-3 px-4 py-3 border-t border-slate-100">
+        <div className="w-1/3 min-w-0">
+          <p className="text-xs font-bold text-slate-900 truncate">{v.name}</p>
+          <p className="text-[9px] font-black text-slate-400 uppercase">{v.type}</p>
+        </div>
+        <p className={`flex-1 text-sm ${v.value === null ? 'italic text-slate-400' : 'font-medium text-slate-700'}`}>{formatValue(v)}</p>
+        <span className={`text-[9px] font-black px-2 py-1 rounded-full ${confidenceStyle(v.confidence)}`}>{Math.round(v.confidence * 100)}%</span>
+      </div>
+    ))}
+  </div>
+);
+
+export default FieldResults;
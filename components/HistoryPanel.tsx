@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { ScanSummary } from '../types';
+import { historyStorage } from '../services/historyStorage';
+import { parseTags, searchScans } from '../services/historyService';
+
+interface HistoryPanelProps {
+  ownerId: string;
+  /** The scan open in the editor, highlighted in the list. */
+  currentScanId: string | null;
+  onOpen: (id: string) => void;
+  /** Lets the editor pick up a rename/retag of the scan it has open. */
+  onScanChanged: (summary: ScanSummary) => void;
+  onScanDeleted: (id: string) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ ownerId, currentScanId, onOpen, onScanChanged, onScanDeleted }) => {
+  const [scans, setScans] = useState<ScanSummary[] | null>(null);
+  const [query, setQuery] = useState('');
+  // Only one card is edited at a time.
+  const [editing, setEditing] = useState<{ id: string; name: string; tags: string } | null>(null);
+
+  useEffect(() => {
+    historyStorage.list(ownerId).then(setScans).catch(() => setScans([]));
+  }, [ownerId]);
+
+  const handleSave = async () => {
+    if (!editing || !editing.name.trim()) return;
+    const updated = await historyStorage.update(editing.id, { name: editing.name.trim(), tags: parseTags(editing.tags) });
+    if (updated) {
+      setScans(prev => prev && prev.map(s => s.id === updated.id ? updated : s));
+      onScanChanged(updated);
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = async (scan: ScanSummary) => {
+    if (!confirm(`Delete "${scan.name}" from the library?`)) return;
+    await historyStorage.remove(scan.id);
+    setScans(prev => prev && prev.filter(s => s.id !== scan.id));
+    onScanDeleted(scan.id);
+  };
+
+  const visible = scans ? searchScans(scans, query) : [];
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-slate-50">
+      <div className="p-6 border-b bg-white flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="flex-1">
+          <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Library</h2>
+          <p className="text-sm font-black text-slate-900">{scans ? `${scans.length} saved scans` : 'Loading...'}</p>
+        </div>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search text, names or #tags"
+          className="sm:w-80 p-3 bg-slate-50 border border-slate-200 rounded-xl outline-none text-xs font-bold"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-24 lg:pb-4">
+        {scans && visible.length === 0 ? (
+          <div className="h-full flex items-center justify-center opacity-20">
+            <p className="text-[10px] font-black uppercase tracking-widest">{query ? 'No matches' : 'Scans are saved here automatically'}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-3">
+            {visible.map(scan => (
+              <div key={scan.id} className={`flex gap-4 p-4 bg-white rounded-2xl border ${scan.id === currentScanId ? 'border-blue-500' : 'border-slate-100'}`}>
+                <button onClick={() => onOpen(scan.id)} className="w-20 h-24 shrink-0 rounded-xl overflow-hidden bg-slate-100">
+                  {scan.thumbnail && <img src={scan.thumbnail} alt="" className="w-full h-full object-cover" />}
+                </button>
+                <div className="flex-1 min-w-0 space-y-1">
+                  {editing?.id === scan.id ? (
+                    <>
+                      <input
+                        value={editing.name}
+                        onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                        className="w-full p-2 border border-slate-200 rounded-lg outline-none text-xs font-bold"
+                      />
+                      <input
+                        value={editing.tags}
+                        onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                        placeholder="Tags, comma separated"
+                        className="w-full p-2 border border-slate-200 rounded-lg outline-none text-xs"
+                      />
+                      <div className="flex gap-3 pt-1">
+                        <button onClick={handleSave} className="text-[10px] font-black text-blue-600 uppercase">Save</button>
+                        <button onClick={() => setEditing(null)} className="text-[10px] font-black text-slate-400 uppercase">Cancel</button>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-xs font-bold text-slate-900 truncate">{scan.name}</p>
+                      <p className="text-[10px] font-bold text-slate-400">
+                        {new Date(scan.updatedAt).toLocaleString()} · {scan.pageCount} {scan.pageCount === 1 ? 'page' : 'pages'} · {scan.creditsSpent} CR
+                      </p>
+                      <p className="text-[11px] text-slate-500 line-clamp-2">{scan.text || <span className="italic">Not extracted yet</span>}</p>
+                      {scan.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {scan.tags.map(tag => (
+                            <button key={tag} onClick={() => setQuery(`#${tag}`)} className="text-[9px] font-black text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">#{tag}</button>
+                          ))}
+                        </div>
+                      )}
+                      <div className="flex gap-3 pt-1">
+                        <button onClick={() => onOpen(scan.id)} className="text-[10px] font-black text-blue-600 uppercase">Open</button>
+                        <button onClick={() => setEditing({ id: scan.id, name: scan.name, tags: scan.tags.join(', ') })} className="text-[10px] font-black text-slate-500 uppercase">Rename / Tag</button>
+                        <button onClick={() => handleDelete(scan)} className="text-[10px] font-black text-red-500 uppercase">Delete</button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,27 @@
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import { splitEquations } from '../services/notationService';
+
+interface MathPreviewProps {
+  latex: string;
+}
+
+/**
+ * Typesets a math region's LaTeX, one display equation per block. Anything
+ * KaTeX can't parse is shown in red in place rather than breaking the view,
+ * so a misread symbol is easy to spot and fix.
+ */
+const MathPreview: React.FC<MathPreviewProps> = ({ latex }) => {
+  const equations = useMemo(
+    () => splitEquations(latex).map(eq => katex.renderToString(eq, { displayMode: true, throwOnError: false })),
+    [latex]
+  );
+
+  return (
+    <div className="overflow-x-auto text-slate-900">
+      {equations.map((html, i) => <div key={i} dangerouslySetInnerHTML={{ __html: html }} />)}
+    </div>
+  );
+};
+
+export default MathPreview;
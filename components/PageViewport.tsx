@@ -0,0 +1,84 @@
+import React from 'react';
+import { BoundingBox } from '../types';
+import type { Viewport } from '../hooks/useViewport';
+import { visibleFraction } from '../services/viewport';
+
+interface PageViewportProps {
+  viewport: Viewport;
+  image: string;
+  /** Box offered to "zoom to region", usually the selected one. */
+  focusBox?: BoundingBox | null;
+  /** Drawn over the page at its exact size, e.g. the region overlay. */
+  children?: React.ReactNode;
+}
+
+const MINIMAP_SIZE = 128;
+
+const toolButton = "px-2.5 py-1.5 rounded-full hover:bg-white/10 disabled:opacity-20 text-[9px] font-black uppercase tracking-widest";
+
+/**
+ * The page is laid out at its own aspect ratio and the children are stretched
+ * over exactly that box, so boxes stay on their text at every zoom level and
+ * no letterboxing can shift them.
+ */
+const PageViewport: React.FC<PageViewportProps> = ({ viewport, image, focusBox = null, children }) => {
+  const { view, image: size, container, fit } = viewport;
+  const frame = size ? visibleFraction(view, container, size) : null;
+  const showMinimap = !!frame && (frame.width < 0.999 || frame.height < 0.999);
+  const minimap = size && (size.width >= size.height
+    ? { width: MINIMAP_SIZE, height: (MINIMAP_SIZE * size.height) / size.width }
+    : { width: (MINIMAP_SIZE * size.width) / size.height, height: MINIMAP_SIZE });
+
+  // Click or drag on the minimap to move the view there.
+  const panFromMinimap = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && e.buttons !== 1) return;
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    viewport.panTo((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+  };
+
+  return (
+    <div
+      ref={viewport.ref}
+      {...viewport.pointerHandlers}
+      className="absolute inset-0 overflow-hidden touch-none cursor-grab active:cursor-grabbing"
+    >
+      <div
+        className="absolute"
+        style={size ? { left: view.x, top: view.y, width: size.width * view.scale, height: size.height * view.scale } : { visibility: 'hidden' }}
+      >
+        <img src={image} alt="Canvas" draggable={false} onLoad={viewport.onImageLoad} className="absolute inset-0 w-full h-full select-none" />
+        {size && children}
+      </div>
+
+      <div
+        onPointerDown={(e) => e.stopPropagation()}
+        className="absolute top-4 right-4 flex items-center gap-0.5 bg-slate-900/80 backdrop-blur-md text-white rounded-full px-1.5 py-1 z-30 cursor-default"
+      >
+        <button onClick={viewport.zoomOut} title="Zoom out (-)" className={toolButton}>−</button>
+        <span className="w-11 text-center text-[9px] font-black tabular-nums">{Math.round(view.scale * 100)}%</span>
+        <button onClick={viewport.zoomIn} title="Zoom in (+)" className={toolButton}>+</button>
+        <button onClick={viewport.fitPage} title="Fit page (F)" className={`${toolButton} ${fit === 'page' ? 'bg-white/15' : ''}`}>Page</button>
+        <button onClick={viewport.fitWidth} title="Fit width (W)" className={`${toolButton} ${fit === 'width' ? 'bg-white/15' : ''}`}>Width</button>
+        <button onClick={() => focusBox && viewport.zoomToBox(focusBox)} disabled={!focusBox} title="Zoom to selected region (Z)" className={toolButton}>Region</button>
+      </div>
+
+      {showMinimap && minimap && frame && (
+        <div
+          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); panFromMinimap(e); }}
+          onPointerMove={panFromMinimap}
+          className="hidden md:block absolute bottom-20 right-4 z-30 rounded-lg overflow-hidden border border-white/20 shadow-2xl bg-slate-900 cursor-pointer"
+          style={minimap}
+        >
+          <img src={image} alt="" draggable={false} className="w-full h-full opacity-70 select-none pointer-events-none" />
+          <div
+            className="absolute border-2 border-blue-400 bg-blue-400/10 pointer-events-none"
+            style={{ left: `${frame.left * 100}%`, top: `${frame.top * 100}%`, width: `${frame.width * 100}%`, height: `${frame.height * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PageViewport;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { TransformAction } from '../types';
+import type { OcrProvider } from '../services/ocrProvider';
+import {
+  TARGET_LANGUAGES,
+  TRANSFORM_ACTIONS,
+  isModelAction,
+  loadTargetLanguage,
+  saveTargetLanguage,
+  transformCost
+} from '../services/postProcessService';
+
+export type TransformScope = 'region' | 'document';
+
+interface PostProcessMenuProps {
+  provider: OcrProvider;
+  /** True when a region with text is selected, so it can be processed on its own. */
+  hasSelection: boolean;
+  busy: boolean;
+  onRun: (action: TransformAction, scope: TransformScope, targetLanguage: string) => void;
+}
+
+const PostProcessMenu: React.FC<PostProcessMenuProps> = ({ provider, hasSelection, busy, onRun }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<TransformScope>('document');
+  const [language, setLanguage] = useState(loadTargetLanguage);
+  const effectiveScope = hasSelection ? scope : 'document';
+
+  const run = (action: TransformAction) => {
+    setIsOpen(false);
+    onRun(action, effectiveScope, language);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        disabled={busy}
+        onClick={() => setIsOpen(open => !open)}
+        className="text-[10px] font-black text-indigo-600 bg-indigo-50 px-4 py-2 rounded-full uppercase disabled:opacity-50 flex items-center gap-1"
+      >
+        {busy ? 'Processing...' : 'Process'}
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="4"><path d="M19 9l-7 7-7-7"/></svg>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white border border-slate-100 rounded-2xl shadow-2xl py-2 z-50">
+          <div className="px-4 pb-2 space-y-2 border-b border-slate-100">
+            <div className="flex bg-slate-100 rounded-full p-0.5">
+              {(['region', 'document'] as const).map(s => (
+                <button
+                  key={s}
+                  disabled={s === 'region' && !hasSelection}
+                  onClick={() => setScope(s)}
+                  className={`flex-1 text-[9px] font-black uppercase py-1 rounded-full transition-all disabled:opacity-30 ${effectiveScope === s ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}
+                >{s === 'region' ? 'Selected region' : 'Whole result'}</button>
+              ))}
+            </div>
+            <label className="flex items-center justify-between text-[10px] font-bold text-slate-500">
+              Translate to
+              <select
+                value={language}
+                onChange={(e) => { setLanguage(e.target.value); saveTargetLanguage(e.target.value); }}
+                className="bg-transparent text-xs font-black text-slate-700 outline-none"
+              >
+                {TARGET_LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+              </select>
+            </label>
+          </div>
+          {TRANSFORM_ACTIONS.map(action => {
+            const unsupported = isModelAction(action.id) && !provider.transformText;
+            const cost = transformCost(action.id);
+            return (
+              <button
+                key={action.id}
+                disabled={unsupported}
+                title={unsupported ? `Not available with ${provider.label}` : undefined}
+                onClick={() => run(action.id)}
+                className="w-full flex justify-between items-center px-4 py-2 text-left hover:bg-slate-50 disabled:opacity-30"
+              >
+                <span className="text-xs font-bold text-slate-700">{action.id === 'translate' ? `Translate to ${language}` : action.label}</span>
+                <span className="text-[9px] font-black text-slate-400 uppercase">{cost > 0 ? `${cost} CR` : 'Free'}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostProcessMenu;
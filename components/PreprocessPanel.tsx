@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { DocumentPage, EnhanceMode, PageAdjustments, PreprocessSettings } from '../types';
+import CornerOverlay from './CornerOverlay';
+import {
+  DEFAULT_ADJUSTMENTS,
+  MAX_DIMENSION_OPTIONS,
+  PreprocessReport,
+  fullPageQuad,
+  orientImage,
+  preprocessPage
+} from '../services/preprocessService';
+
+interface PreprocessPanelProps {
+  pages: DocumentPage[];
+  /** Starting corners/rotation per page id, e.g. the edges found by the camera. */
+  initialAdjustments?: Record<string, PageAdjustments>;
+  settings: PreprocessSettings;
+  onSettingsChange: (settings: PreprocessSettings) => void;
+  /** Receives the processed pages, in the same order. */
+  onConfirm: (pages: DocumentPage[]) => void;
+  onCancel: () => void;
+}
+
+const ENHANCE_LABELS: Record<EnhanceMode, string> = {
+  none: 'Original',
+  contrast: 'Contrast',
+  binarize: 'Black & White',
+};
+
+// The "before" view only needs to be big enough to place corners precisely.
+const BEFORE_PREVIEW_SIZE = 1200;
+
+const formatBytes = (bytes: number) =>
+  bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const PreprocessPanel: React.FC<PreprocessPanelProps> = ({ pages, initialAdjustments = {}, settings, onSettingsChange, onConfirm, onCancel }) => {
+  const [pageIndex, setPageIndex] = useState(0);
+  const [adjustments, setAdjustments] = useState<Record<string, PageAdjustments>>(initialAdjustments);
+  const [editingCorners, setEditingCorners] = useState(false);
+  const [before, setBefore] = useState<string | null>(null);
+  const [after, setAfter] = useState<{ image: string; report: PreprocessReport } | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const page = pages[pageIndex];
+  const pageAdjustments = adjustments[page.id] ?? DEFAULT_ADJUSTMENTS;
+
+  const updateAdjustments = (patch: Partial<PageAdjustments>) => {
+    setAdjustments(prev => ({ ...prev, [page.id]: { ...(prev[page.id] ?? DEFAULT_ADJUSTMENTS), ...patch } }));
+  };
+
+  const rotate = () => {
+    // Corners are placed on the rotated image, so a new rotation invalidates them.
+    updateAdjustments({ rotation: ((pageAdjustments.rotation + 90) % 360) as PageAdjustments['rotation'], corners: null });
+    setEditingCorners(false);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    orientImage(page.image, pageAdjustments.rotation, BEFORE_PREVIEW_SIZE)
+      .then(canvas => { if (!cancelled) setBefore(canvas.toDataURL('image/jpeg', 0.85)); });
+    return () => { cancelled = true; };
+  }, [page, pageAdjustments.rotation]);
+
+  // Debounced so dragging a setting doesn't run the whole pipeline on every change.
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      preprocessPage(page, settings, pageAdjustments)
+        .then(result => { if (!cancelled) setAfter({ image: result.page.image, report: result.report }); })
+        .catch(err => console.error("Preview failed:", err));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [page, settings, pageAdjustments]);
+
+  const handleConfirm = async () => {
+    const processed: DocumentPage[] = [];
+    for (let i = 0; i < pages.length; i++) {
+      setProgress({ done: i, total: pages.length });
+      processed.push((await preprocessPage(pages[i], settings, adjustments[pages[i].id])).page);
+    }
+    setProgress(null);
+    onConfirm(processed);
+  };
+
+  const report = after?.report;
+
+  return (
+    <div className="flex-1 flex flex-col lg:flex-row overflow-hidden bg-slate-50">
+      {/* PREVIEW */}
+      <div className="flex-1 flex flex-col overflow-hidden bg-slate-900">
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 p-4 overflow-y-auto">
+          <div className="flex flex-col items-center justify-center gap-2 min-h-0">
+            <p className="text-[10px] font-black text-white/50 uppercase tracking-widest">Before</p>
+            {before && (
+              <div className="relative inline-block">
+                <img src={before} alt="Original" className="block max-w-full max-h-[65vh]" />
+                {editingCorners && (
+                  <CornerOverlay
+                    corners={pageAdjustments.corners ?? fullPageQuad()}
+                    onChange={(corners) => updateAdjustments({ corners })}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col items-center justify-center gap-2 min-h-0">
+            <p className="text-[10px] font-black text-white/50 uppercase tracking-widest">After</p>
+            {after && <img src={after.image} alt="Processed" className="block max-w-full max-h-[65vh] bg-white" />}
+            {report && (
+              <p className="text-[10px] font-bold text-white/60 text-center">
+                {report.width}×{report.height} · {formatBytes(report.originalBytes)} → {formatBytes(report.bytes)}
+                {report.skewAngle !== 0 && ` · deskewed ${report.skewAngle}°`}
+                {report.exifOrientation !== 1 && ' · EXIF rotation applied'}
+              </p>
+            )}
+          </div>
+        </div>
+        {pages.length > 1 && (
+          <div className="flex items-center justify-center gap-3 p-3 text-white">
+            <button disabled={pageIndex === 0} onClick={() => { setPageIndex(i => i - 1); setEditingCorners(false); }} className="px-3 py-1 rounded-full hover:bg-white/10 disabled:opacity-20 text-[10px] font-black uppercase">Prev</button>
+            <p className="text-[10px] font-black uppercase tracking-widest">Page {pageIndex + 1} / {pages.length}</p>
+            <button disabled={pageIndex === pages.length - 1} onClick={() => { setPageIndex(i => i + 1); setEditingCorners(false); }} className="px-3 py-1 rounded-full hover:bg-white/10 disabled:opacity-20 text-[10px] font-black uppercase">Next</button>
+          </div>
+        )}
+      </div>
+
+      {/* SETTINGS */}
+      <div className="lg:w-[360px] lg:shrink-0 p-6 space-y-4 bg-white border-t lg:border-t-0 lg:border-l border-slate-100 overflow-y-auto">
+        <div>
+          <h2 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Prepare Pages</h2>
+          <p className="text-sm font-black text-slate-900 truncate">{page.sourceName}</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={rotate} className="py-3 rounded-2xl bg-slate-100 text-slate-700 text-[10px] font-black uppercase tracking-widest">Rotate 90°</button>
+          <button
+            onClick={() => setEditingCorners(e => !e)}
+            className={`py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest ${editingCorners ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700'}`}
+          >{editingCorners ? 'Done' : 'Crop / Corners'}</button>
+        </div>
+        {pageAdjustments.corners && (
+          <button onClick={() => updateAdjustments({ corners: null })} className="w-full text-[10px] font-black text-slate-400 hover:text-red-500 uppercase tracking-widest">Reset corners</button>
+        )}
+        {editingCorners && (
+          <p className="text-[10px] font-bold text-slate-400 px-1">Drag the corners onto the paper's edges. A rectangle crops; any other shape straightens a photo taken at an angle.</p>
+        )}
+
+        <label className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl">
+          <span className="text-xs font-bold text-slate-700">Straighten tilted text</span>
+          <input type="checkbox" checked={settings.deskew} onChange={(e) => onSettingsChange({ ...settings, deskew: e.target.checked })} />
+        </label>
+        <div className="p-4 bg-slate-50 rounded-2xl space-y-2">
+          <span className="text-xs font-bold text-slate-700">Enhance</span>
+          <div className="flex bg-white rounded-full p-0.5 border border-slate-100">
+            {(Object.keys(ENHANCE_LABELS) as EnhanceMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => onSettingsChange({ ...settings, enhance: mode })}
+                className={`flex-1 text-[10px] font-black uppercase py-1.5 rounded-full transition-all ${settings.enhance === mode ? 'bg-slate-900 text-white' : 'text-slate-400'}`}
+              >{ENHANCE_LABELS[mode]}</button>
+            ))}
+          </div>
+        </div>
+        <label className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl">
+          <span className="text-xs font-bold text-slate-700">Max size</span>
+          <select value={settings.maxDimension} onChange={(e) => onSettingsChange({ ...settings, maxDimension: Number(e.target.value) })} className="bg-transparent text-xs font-black outline-none">
+            {MAX_DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl">
+          <span className="text-xs font-bold text-slate-700">Show this step on upload</span>
+          <input type="checkbox" checked={settings.review} onChange={(e) => onSettingsChange({ ...settings, review: e.target.checked })} />
+        </label>
+
+        <div className="grid grid-cols-2 gap-2 pt-2 pb-20 lg:pb-0">
+          <button onClick={onCancel} disabled={!!progress} className="py-4 bg-slate-100 text-slate-700 font-bold rounded-2xl">Cancel</button>
+          <button onClick={handleConfirm} disabled={!!progress} className="py-4 bg-slate-900 text-white font-bold rounded-2xl hover:bg-black disabled:bg-slate-300">
+            {progress ? `Processing ${progress.done + 1}/${progress.total}` : 'Analyze'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessPanel;
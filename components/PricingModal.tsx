@@ -1,32 +1,38 @@
 
 import React, { useState } from 'react';
-import { PricingPlan } from '../types';
+import { PricingPlan, WorkspaceSeat } from '../types';
+import { PLANS } from '../services/plans';
 
 interface PricingModalProps {
   onClose: () => void;
-  onPurchase: (credits: number) => void;
+  /** Resolves once the credits are on the account; rejects if the payment failed. */
+  onPurchase: (plan: PricingPlan) => Promise<void>;
+  /** In a workspace, team plans top up its pool, and only admins may buy them. */
+  workspace?: WorkspaceSeat;
 }
 
-const PLANS: PricingPlan[] = [
-  { id: 'starter', name: 'Starter', price: '$4.99', credits: 10 },
-  { id: 'pro', name: 'Professional', price: '$14.99', credits: 50, popular: true },
-  { id: 'unlimited', name: 'Elite', price: '$29.99', credits: 500 },
-];
-
-const PricingModal: React.FC<PricingModalProps> = ({ onClose, onPurchase }) => {
+const PricingModal: React.FC<PricingModalProps> = ({ onClose, onPurchase, workspace }) => {
   const [step, setStep] = useState<'selection' | 'checkout' | 'processing'>('selection');
   const [selectedPlan, setSelectedPlan] = useState<PricingPlan | null>(null);
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+  const plans = PLANS.filter(plan => !!plan.team === !!workspace);
+  const canBuy = !workspace || workspace.role === 'admin';
 
   const handleSelect = (plan: PricingPlan) => {
     setSelectedPlan(plan);
     setStep('checkout');
   };
 
-  const handlePay = () => {
+  const handlePay = async () => {
+    if (!selectedPlan) return;
     setStep('processing');
-    setTimeout(() => {
-      onPurchase(selectedPlan?.credits || 0);
-    }, 2000);
+    setPaymentError(null);
+    try {
+      await onPurchase(selectedPlan);
+    } catch (err: any) {
+      setPaymentError(err?.message || 'Payment failed. Please try again.');
+      setStep('checkout');
+    }
   };
 
   return (
@@ -37,8 +43,8 @@ const PricingModal: React.FC<PricingModalProps> = ({ onClose, onPurchase }) => {
           <div className="p-8">
             <div className="flex justify-between items-start mb-6">
               <div>
-                <h2 className="text-2xl font-black text-slate-900">Refill Credits</h2>
-                <p className="text-slate-500">Choose a plan to continue extraction.</p>
+                <h2 className="text-2xl font-black text-slate-900">{workspace ? `Top Up ${workspace.name}` : 'Refill Credits'}</h2>
+                <p className="text-slate-500">{workspace ? 'Team plans add credits to the shared pool.' : 'Choose a plan to continue extraction.'}</p>
               </div>
               <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
                 <svg className="w-6 h-6 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -47,30 +53,42 @@ const PricingModal: React.FC<PricingModalProps> = ({ onClose, onPurchase }) => {
               </button>
             </div>
 
-            <div className="grid gap-4">
-              {PLANS.map((plan) => (
-                <div 
-                  key={plan.id}
-                  onClick={() => handleSelect(plan)}
-                  className={`relative p-5 rounded-2xl border-2 cursor-pointer transition-all hover:scale-[1.02] active:scale-[0.98] ${
-                    plan.popular ? 'border-blue-600 bg-blue-50/30' : 'border-slate-100 bg-white hover:border-blue-200'
-                  }`}
-                >
-                  {plan.popular && (
-                    <span className="absolute -top-3 left-6 px-3 py-1 bg-blue-600 text-white text-[10px] font-bold rounded-full uppercase tracking-widest">Most Popular</span>
-                  )}
-                  <div className="flex justify-between items-center">
-                    <div>
-                      <h4 className="font-bold text-slate-900">{plan.name}</h4>
-                      <p className="text-sm text-slate-500">{plan.credits} Scan Credits</p>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-xl font-black text-slate-900">{plan.price}</div>
+            {!canBuy && workspace ? (
+              <div className="p-5 rounded-2xl bg-slate-50 space-y-1 text-sm text-slate-600">
+                <p>
+                  The shared pool has <b>{workspace.pool}</b> credits
+                  {workspace.spendingLimit !== null && <>, and you've used <b>{workspace.spentThisMonth}</b> of your <b>{workspace.spendingLimit}</b> this month</>}.
+                </p>
+                <p>{workspace.role === 'viewer'
+                  ? "Viewers can't spend credits. Ask a workspace admin to make you a member."
+                  : 'Ask a workspace admin to top up the pool or raise your limit.'}</p>
+              </div>
+            ) : (
+              <div className="grid gap-4">
+                {plans.map((plan) => (
+                  <div 
+                    key={plan.id}
+                    onClick={() => handleSelect(plan)}
+                    className={`relative p-5 rounded-2xl border-2 cursor-pointer transition-all hover:scale-[1.02] active:scale-[0.98] ${
+                      plan.popular ? 'border-blue-600 bg-blue-50/30' : 'border-slate-100 bg-white hover:border-blue-200'
+                    }`}
+                  >
+                    {plan.popular && (
+                      <span className="absolute -top-3 left-6 px-3 py-1 bg-blue-600 text-white text-[10px] font-bold rounded-full uppercase tracking-widest">Most Popular</span>
+                    )}
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <h4 className="font-bold text-slate-900">{plan.name}</h4>
+                        <p className="text-sm text-slate-500">{plan.credits} Scan Credits</p>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-xl font-black text-slate-900">{plan.price}</div>
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
@@ -107,6 +125,9 @@ const PricingModal: React.FC<PricingModalProps> = ({ onClose, onPurchase }) => {
                    </div>
                 </div>
 
+                {paymentError && (
+                  <p className="text-xs font-bold text-red-500 text-center">{paymentError}</p>
+                )}
                 <button 
                   onClick={handlePay}
                   className="w-full py-4 bg-slate-900 text-white font-bold rounded-2xl hover:bg-black transition-all shadow-xl shadow-slate-200 mt-4"
@@ -1,65 +1,268 @@
-
-import React from 'react';
-import { TextRegion } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox, ExtractionStatus, TextRegion } from '../types';
+import { isUsableBox, normalizeBox } from '../services/regionEditing';
+import { CONFIDENCE_COLORS, confidenceLevel } from '../services/confidenceService';
 
 interface RegionOverlayProps {
   regions: TextRegion[];
   onToggleRegion: (id: string) => void;
   onSetSelected: (id: string | null) => void;
   selectedId: string | null;
+  /** Box to emphasize without selecting it, e.g. while its text is hovered. */
+  highlightedId?: string | null;
+  /** Regions still waiting for text in a running extraction, by id. */
+  extraction?: Record<string, ExtractionStatus>;
+  /** When true, the user can draw new boxes and move/resize the selected one. */
+  editable?: boolean;
+  onCreateRegion?: (box: BoundingBox) => void;
+  onUpdateRegion?: (id: string, box: BoundingBox) => void;
+  onDeleteRegion?: (id: string) => void;
 }
 
-const RegionOverlay: React.FC<RegionOverlayProps> = ({ regions, onToggleRegion, onSetSelected, selectedId }) => {
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+type Point = { x: number; y: number };
+
+// A drag is kept locally until pointer-up, so the parent only sees one change per gesture.
+type DragState =
+  | { mode: 'draw'; origin: Point }
+  | { mode: 'move'; id: string; origin: Point; startBox: BoundingBox }
+  | { mode: 'resize'; id: string; corner: Corner; startBox: BoundingBox };
+
+// Decorations are sized in screen pixels, so they stay readable at any zoom and page shape.
+const HANDLE_SIZE = 10;
+const BADGE_HEIGHT = 18;
+const DELETE_SIZE = 18;
+
+const RegionOverlay: React.FC<RegionOverlayProps> = ({
+  regions,
+  onToggleRegion,
+  onSetSelected,
+  selectedId,
+  highlightedId = null,
+  extraction = {},
+  editable = false,
+  onCreateRegion,
+  onUpdateRegion,
+  onDeleteRegion
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [draftBox, setDraftBox] = useState<BoundingBox | null>(null);
+  // Rendered size of the 1000x1000 grid; the grid is stretched to the page, not square.
+  const [size, setSize] = useState({ width: 1000, height: 1000 });
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > 0 && height > 0) setSize({ width, height });
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
+
+  // Grid units per screen pixel; 'pixels' maps a group's local units to screen pixels at a grid point.
+  const unitX = 1000 / size.width;
+  const unitY = 1000 / size.height;
+  const pixels = (x: number, y: number) => `translate(${x} ${y}) scale(${unitX} ${unitY})`;
+
+  // Python: ((client_x - left) / width) * 1000 -> position on the normalized grid
+  const toGrid = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * 1000,
+      y: ((e.clientY - rect.top) / rect.height) * 1000
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, state: DragState) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = state;
+  };
+
+  const boxForDrag = (drag: DragState, p: Point): BoundingBox => {
+    if (drag.mode === 'draw') {
+      return { ymin: drag.origin.y, xmin: drag.origin.x, ymax: p.y, xmax: p.x };
+    }
+    if (drag.mode === 'move') {
+      const { startBox } = drag;
+      const width = startBox.xmax - startBox.xmin;
+      const height = startBox.ymax - startBox.ymin;
+      // Clamp the whole box so moving never squashes it against the edges.
+      const xmin = Math.min(1000 - width, Math.max(0, startBox.xmin + p.x - drag.origin.x));
+      const ymin = Math.min(1000 - height, Math.max(0, startBox.ymin + p.y - drag.origin.y));
+      return { ymin, xmin, ymax: ymin + height, xmax: xmin + width };
+    }
+    const box = { ...drag.startBox };
+    if (drag.corner.includes('n')) box.ymin = p.y; else box.ymax = p.y;
+    if (drag.corner.includes('w')) box.xmin = p.x; else box.xmax = p.x;
+    return box;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!editable) return;
+    onSetSelected(null);
+    startDrag(e, { mode: 'draw', origin: toGrid(e) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    setDraftBox(normalizeBox(boxForDrag(dragRef.current, toGrid(e))));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setDraftBox(null);
+    if (!drag) return;
+
+    const box = normalizeBox(boxForDrag(drag, toGrid(e)));
+    if (!isUsableBox(box)) return;
+
+    if (drag.mode === 'draw') {
+      onCreateRegion?.(box);
+      return;
+    }
+    // A plain click on the selected box is not an edit; don't throw away its text.
+    const start = normalizeBox(drag.startBox);
+    const unchanged = (['ymin', 'xmin', 'ymax', 'xmax'] as const).every(k => start[k] === box[k]);
+    if (!unchanged) onUpdateRegion?.(drag.id, box);
+  };
+
+  const activeDrag = dragRef.current;
+
   return (
-    <div className="absolute inset-0 pointer-events-none">
-      <svg className="w-full h-full" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+    <div className={`absolute inset-0 ${editable ? 'cursor-crosshair' : 'pointer-events-none'}`}>
+      <svg
+        ref={svgRef}
+        className="w-full h-full touch-none"
+        viewBox="0 0 1000 1000"
+        preserveAspectRatio="none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { dragRef.current = null; setDraftBox(null); }}
+      >
         {regions.map((region) => {
           if (!region.isActive) return null;
-          
+
           const isSelected = selectedId === region.id;
-          const { ymin, xmin, ymax, xmax } = region.box;
+          const isHighlighted = highlightedId === region.id;
+          const isDragged = !!draftBox && !!activeDrag && activeDrag.mode !== 'draw' && activeDrag.id === region.id;
+          const { ymin, xmin, ymax, xmax } = isDragged ? draftBox! : region.box;
           const width = xmax - xmin;
           const height = ymax - ymin;
+          // Once extracted, the outline shows how sure the engine was; before that it stays blue.
+          // During extraction, queued boxes are grey and dashed, and the ones being read pulse.
+          const status = extraction[region.id];
+          const color = isSelected ? '#2563eb' : status === 'pending' ? '#94a3b8' : CONFIDENCE_COLORS[confidenceLevel(region)];
+          // The number sits on top of the box, or just inside it when there's no room above.
+          const badgeWidth = 12 + 7 * String(region.order).length;
+          const badgeTop = ymin / unitY > BADGE_HEIGHT ? -BADGE_HEIGHT : 0;
 
           return (
-            <g 
-              key={region.id} 
-              className="pointer-events-auto cursor-pointer"
+            <g
+              key={region.id}
+              className={`pointer-events-auto ${editable && isSelected ? 'cursor-move' : 'cursor-pointer'}`}
+              onPointerDown={(e) => {
+                if (editable && isSelected) {
+                  startDrag(e, { mode: 'move', id: region.id, origin: toGrid(e), startBox: region.box });
+                } else {
+                  e.stopPropagation();
+                }
+              }}
               onClick={(e) => {
                 e.stopPropagation();
                 onSetSelected(region.id);
               }}
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                onToggleRegion(region.id);
+              }}
             >
               <rect
                 x={xmin}
                 y={ymin}
                 width={width}
                 height={height}
-                fill={isSelected ? "rgba(59, 130, 246, 0.2)" : "transparent"}
-                stroke={isSelected ? "#2563eb" : "#3b82f6"}
-                strokeWidth="4"
-                className="transition-all duration-200"
-              />
-              <rect
-                x={xmin}
-                y={ymin - 25 > 0 ? ymin - 25 : ymin}
-                width="30"
-                height="25"
-                fill={isSelected ? "#2563eb" : "#3b82f6"}
+                fill={isSelected || isHighlighted ? "rgba(59, 130, 246, 0.2)" : status === 'active' ? "rgba(59, 130, 246, 0.08)" : "transparent"}
+                stroke={color}
+                strokeWidth={isHighlighted ? 4 : 2}
+                strokeDasharray={status ? '6 4' : undefined}
+                vectorEffect="non-scaling-stroke"
+                className={status === 'active' ? 'animate-pulse' : isDragged ? '' : 'transition-all duration-200'}
               />
-              <text
-                x={xmin + 15}
-                y={ymin - 25 > 0 ? ymin - 7 : ymin + 18}
-                fill="white"
-                fontSize="16"
-                fontWeight="bold"
-                textAnchor="middle"
-              >
-                {region.order}
-              </text>
+              <g transform={pixels(xmin, ymin)}>
+                <rect y={badgeTop} width={badgeWidth} height={BADGE_HEIGHT} fill={color} />
+                <text
+                  x={badgeWidth / 2}
+                  y={badgeTop + 13}
+                  fill="white"
+                  fontSize="11"
+                  fontWeight="bold"
+                  textAnchor="middle"
+                >
+                  {region.order}
+                </text>
+                {region.verified && (
+                  <path
+                    d={`M${badgeWidth + 4} ${badgeTop + 9} l3 3 l6 -7`}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth="2.5"
+                  />
+                )}
+              </g>
+
+              {editable && isSelected && (
+                <>
+                  {([['nw', xmin, ymin], ['ne', xmax, ymin], ['sw', xmin, ymax], ['se', xmax, ymax]] as [Corner, number, number][]).map(([corner, cx, cy]) => (
+                    <rect
+                      key={corner}
+                      transform={pixels(cx, cy)}
+                      x={-HANDLE_SIZE / 2}
+                      y={-HANDLE_SIZE / 2}
+                      width={HANDLE_SIZE}
+                      height={HANDLE_SIZE}
+                      fill="white"
+                      stroke="#2563eb"
+                      strokeWidth="2"
+                      className={corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}
+                      onPointerDown={(e) => startDrag(e, { mode: 'resize', id: region.id, corner, startBox: region.box })}
+                    />
+                  ))}
+                  {onDeleteRegion && (
+                    <g
+                      transform={pixels(xmax, ymin)}
+                      className="cursor-pointer"
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onClick={(e) => { e.stopPropagation(); onDeleteRegion(region.id); }}
+                    >
+                      <rect x={-DELETE_SIZE - 4} y={4} width={DELETE_SIZE} height={DELETE_SIZE} rx="3" fill="#ef4444" />
+                      <path d={`M${-DELETE_SIZE + 1} 9 l8 8 m0 -8 l-8 8`} stroke="white" strokeWidth="2.5" />
+                    </g>
+                  )}
+                </>
+              )}
             </g>
           );
         })}
+
+        {draftBox && activeDrag?.mode === 'draw' && (
+          <rect
+            x={draftBox.xmin}
+            y={draftBox.ymin}
+            width={draftBox.xmax - draftBox.xmin}
+            height={draftBox.ymax - draftBox.ymin}
+            fill="rgba(16, 185, 129, 0.15)"
+            stroke="#10b981"
+            strokeWidth="2"
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
       </svg>
     </div>
   );
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { DocumentPage, TextRegion } from '../types';
+import { CONFIDENCE_COLORS, alignLineConfidence, confidenceLevel, reviewQueue, scoreLevel, splitBySpans } from '../services/confidenceService';
+import { cropToBox } from '../services/imageUtils';
+
+interface ReviewPanelProps {
+  pages: DocumentPage[];
+  regions: TextRegion[];
+  /** Region to open first; defaults to the start of the queue. */
+  startId?: string | null;
+  /** Saves the corrected text and marks the region verified. */
+  onVerify: (id: string, text: string) => void;
+  onClose: () => void;
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+/**
+ * Steps through the regions that need proof-reading, showing each one's crop
+ * of the page next to its text so corrections can be made at a glance.
+ */
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ pages, regions, startId, onVerify, onClose }) => {
+  const queue = reviewQueue(regions);
+  const [currentId, setCurrentId] = useState<string | null>(startId ?? queue[0]?.id ?? null);
+  const [draft, setDraft] = useState('');
+  const [crop, setCrop] = useState<string | null>(null);
+
+  // Verified regions leave the queue, so the current one is looked up in all regions.
+  const region = regions.find(r => r.id === currentId) ?? null;
+  const position = region ? queue.findIndex(r => r.id === region.id) : -1;
+
+  useEffect(() => {
+    setDraft(region?.extractedText ?? '');
+    setCrop(null);
+    if (!region) return;
+    let cancelled = false;
+    cropToBox(pages[region.pageIndex].image, region.box)
+      .then(image => { if (!cancelled) setCrop(image); })
+      .catch(err => console.error("Crop failed:", err));
+    return () => { cancelled = true; };
+  }, [currentId]);
+
+  /** Next queued region after the current one in reading order, wrapping around. */
+  const nextId = (skipCurrent: boolean): string | null => {
+    const rest = queue.filter(r => !skipCurrent || r.id !== currentId);
+    if (!region) return rest[0]?.id ?? null;
+    const after = rest.find(r => r.pageIndex > region.pageIndex || (r.pageIndex === region.pageIndex && r.order > region.order));
+    return (after ?? rest[0])?.id ?? null;
+  };
+
+  const handleVerify = () => {
+    if (!region) return;
+    onVerify(region.id, draft);
+    setCurrentId(nextId(true));
+  };
+
+  const handlePrev = () => {
+    if (position > 0) setCurrentId(queue[position - 1].id);
+  };
+
+  const lineScores = region?.lineConfidence && region.extractedText !== undefined
+    ? alignLineConfidence(region.extractedText, region.lineConfidence, region.confidence ?? 1)
+    : null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-3xl max-h-[90vh] rounded-3xl shadow-2xl overflow-hidden border border-slate-200 flex flex-col">
+        <div className="p-8 pb-4 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900">Review</h2>
+            <p className="text-slate-500">
+              {queue.length === 0 ? 'Everything has been checked.' : `${queue.length} region${queue.length === 1 ? '' : 's'} left to check.`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <svg className="w-6 h-6 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!region ? (
+          <div className="px-8 pb-8">
+            <button onClick={onClose} className="w-full py-4 bg-slate-900 text-white font-bold rounded-2xl hover:bg-black">Done</button>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto px-8 pb-8 space-y-4">
+            <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+              <span className="text-slate-400">{pages.length > 1 && `Page ${region.pageIndex + 1} · `}Region {region.order}</span>
+              <span style={{ color: CONFIDENCE_COLORS[confidenceLevel(region)] }}>
+                {region.verified ? 'Verified' : region.confidence !== undefined ? `${percent(region.confidence)} confident` : 'No score'}
+              </span>
+            </div>
+
+            <div className="rounded-2xl bg-slate-900 p-3 flex justify-center">
+              {crop
+                ? <img src={crop} alt="Region on the page" className="max-w-full max-h-[30vh] object-contain bg-white" />
+                : <div className="h-24"></div>}
+            </div>
+
+            {region.uncertain && region.uncertain.length > 0 && region.extractedText && (
+              <div className="p-4 rounded-2xl bg-slate-50 text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">
+                {splitBySpans(region.extractedText, region.uncertain).map((segment, i) => segment.uncertain ? (
+                  <mark key={i} className="bg-amber-100 text-amber-900 rounded-sm">{segment.text}</mark>
+                ) : (
+                  <React.Fragment key={i}>{segment.text}</React.Fragment>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {lineScores && (
+                <div className="shrink-0 pt-3 text-right font-mono text-[10px] leading-[1.5rem] select-none">
+                  {lineScores.map((score, i) => (
+                    <div key={i} style={{ color: CONFIDENCE_COLORS[scoreLevel(score)] }}>{percent(score)}</div>
+                  ))}
+                </div>
+              )}
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={Math.min(12, Math.max(3, draft.split('\n').length))}
+                className="flex-1 p-3 border border-slate-200 rounded-xl outline-none font-mono text-sm leading-[1.5rem] whitespace-pre"
+              />
+            </div>
+            {region.table && (
+              <p className="text-[10px] font-bold text-slate-400 px-1">Table cells are separated by tabs, one row per line.</p>
+            )}
+
+            <div className="grid grid-cols-3 gap-3 pt-2">
+              <button onClick={handlePrev} disabled={position <= 0} className="py-4 bg-slate-100 text-slate-700 font-bold rounded-2xl disabled:opacity-40">Previous</button>
+              <button onClick={() => setCurrentId(nextId(true))} disabled={queue.length <= 1 && position !== -1} className="py-4 bg-slate-100 text-slate-700 font-bold rounded-2xl disabled:opacity-40">Skip</button>
+              <button onClick={handleVerify} className="py-4 bg-emerald-600 text-white font-bold rounded-2xl hover:bg-emerald-700">Verify</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
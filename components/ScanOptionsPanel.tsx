@@ -0,0 +1,92 @@
+import React from 'react';
+import { LineBreakMode, ScanOptions } from '../types';
+import type { OcrProvider } from '../services/ocrProvider';
+import { SCAN_LANGUAGES } from '../services/scanOptions';
+
+interface ScanOptionsPanelProps {
+  options: ScanOptions;
+  onChange: (options: ScanOptions) => void;
+  provider: OcrProvider;
+  onClose: () => void;
+}
+
+const LINE_BREAK_LABELS: Record<LineBreakMode, string> = {
+  preserve: 'Keep line breaks',
+  reflow: 'Reflow paragraphs',
+};
+
+const ScanOptionsPanel: React.FC<ScanOptionsPanelProps> = ({ options, onChange, provider, onClose }) => {
+  const toggleLanguage = (code: string) => {
+    const languages = options.languages.includes(code)
+      ? options.languages.filter(c => c !== code)
+      : [...options.languages, code];
+    onChange({ ...options, languages });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-xl max-h-[90vh] rounded-3xl shadow-2xl overflow-hidden border border-slate-200 flex flex-col">
+        <div className="p-8 pb-4 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900">Scan Settings</h2>
+            <p className="text-slate-500">Hints for this document's layout analysis and extraction.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <svg className="w-6 h-6 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 pb-8 space-y-4">
+          <div className="p-4 bg-slate-50 rounded-2xl space-y-3">
+            <div className="flex justify-between items-baseline">
+              <span className="text-xs font-bold text-slate-700">Expected languages</span>
+              <span className="text-[10px] font-bold text-slate-400">{options.languages.length ? `${options.languages.length} selected` : 'None: detect automatically'}</span>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {SCAN_LANGUAGES.map(language => (
+                <button
+                  key={language.code}
+                  onClick={() => toggleLanguage(language.code)}
+                  className={`text-[10px] font-black px-3 py-1.5 rounded-full transition-all ${options.languages.includes(language.code) ? 'bg-slate-900 text-white' : 'bg-white text-slate-500 border border-slate-200'}`}
+                >{language.label}</button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl">
+            <span>
+              <span className="block text-xs font-bold text-slate-700">Handwriting</span>
+              <span className="block text-[10px] font-bold text-slate-400">Notes, forms filled in by hand, annotations</span>
+            </span>
+            <input type="checkbox" checked={options.handwriting} onChange={(e) => onChange({ ...options, handwriting: e.target.checked })} />
+          </label>
+
+          <div className="p-4 bg-slate-50 rounded-2xl space-y-2">
+            <span className="text-xs font-bold text-slate-700">Line breaks</span>
+            <div className="flex bg-white rounded-full p-0.5 border border-slate-100">
+              {(Object.keys(LINE_BREAK_LABELS) as LineBreakMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onChange({ ...options, lineBreaks: mode })}
+                  className={`flex-1 text-[10px] font-black uppercase py-1.5 rounded-full transition-all ${options.lineBreaks === mode ? 'bg-slate-900 text-white' : 'text-slate-400'}`}
+                >{LINE_BREAK_LABELS[mode]}</button>
+              ))}
+            </div>
+          </div>
+
+          {provider.isOffline && (
+            <p className="text-[10px] font-bold text-slate-400 px-1">
+              The offline engine downloads data for each selected language (or reads it from TESSERACT_ASSET_PATH) and has no handwriting model.
+            </p>
+          )}
+
+          <button onClick={onClose} className="w-full py-4 bg-slate-900 text-white font-bold rounded-2xl hover:bg-black">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScanOptionsPanel;
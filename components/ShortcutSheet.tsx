@@ -0,0 +1,48 @@
+import React from 'react';
+import { SHORTCUTS, ShortcutGroup, formatCombo } from '../services/shortcuts';
+
+interface ShortcutSheetProps {
+  onClose: () => void;
+}
+
+const GROUPS: ShortcutGroup[] = ['Regions', 'Pages', 'View', 'Document'];
+
+const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ onClose }) => (
+  <div onClick={onClose} className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+    <div onClick={(e) => e.stopPropagation()} className="bg-white w-full max-w-2xl max-h-[90vh] rounded-3xl shadow-2xl overflow-hidden border border-slate-200 flex flex-col">
+      <div className="p-8 pb-4 flex justify-between items-start">
+        <div>
+          <h2 className="text-2xl font-black text-slate-900">Keyboard Shortcuts</h2>
+          <p className="text-slate-500">Region keys act on the selected region. Press ? or Esc to close.</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+          <svg className="w-6 h-6 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-8 pb-8 grid gap-6 md:grid-cols-2">
+        {GROUPS.map(group => (
+          <div key={group} className={group === 'Regions' ? 'md:row-span-3' : ''}>
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{group}</h3>
+            <div className="space-y-2">
+              {SHORTCUTS.filter(s => s.group === group).map(shortcut => (
+                <div key={shortcut.action} className="flex items-center justify-between gap-3">
+                  <span className="text-xs font-bold text-slate-700">{shortcut.label}</span>
+                  <span className="flex flex-wrap justify-end gap-1 shrink-0">
+                    {shortcut.keys.map(combo => (
+                      <kbd key={combo} className="text-[10px] font-black text-slate-600 bg-slate-100 border border-slate-200 rounded-md px-1.5 py-0.5">{formatCombo(combo)}</kbd>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default ShortcutSheet;
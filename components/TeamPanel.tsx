@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import { UsageReport, User, WORKSPACE_ROLES, WorkspaceRole, WorkspaceState } from '../types';
+import {
+  acceptInvite, createWorkspace, declineInvite, inviteMember, leaveWorkspace, loadUsage, loadWorkspace, removeMember, updateMember, workspacesAvailable
+} from '../services/workspaceService';
+
+interface TeamPanelProps {
+  user: User;
+  /** Every change comes back with the caller's account, whose credits and seat may have changed. */
+  onAccountChange: (user: User) => void;
+  /** Opens the pricing modal on the team plans. */
+  onTopUp: () => void;
+  onClose: () => void;
+}
+
+const ROLE_HINTS: Record<WorkspaceRole, string> = {
+  admin: 'Manages members and buys credits',
+  member: 'Scans with the shared pool',
+  viewer: "Can't spend credits",
+};
+
+// "" means no limit.
+const parseLimit = (value: string): number | null => value.trim() === '' ? null : Math.max(0, Math.floor(Number(value)) || 0);
+
+const TeamPanel: React.FC<TeamPanelProps> = ({ user, onAccountChange, onTopUp, onClose }) => {
+  const [state, setState] = useState<WorkspaceState | null>(null);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [tab, setTab] = useState<'members' | 'usage'>('members');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [name, setName] = useState('');
+  const [invite, setInvite] = useState({ email: '', role: 'member' as WorkspaceRole, limit: '' });
+
+  const run = async (call: () => Promise<WorkspaceState>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const next = await call();
+      setState(next);
+      onAccountChange(next.user);
+      return true;
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong.');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    if (workspacesAvailable) run(loadWorkspace);
+  }, []);
+
+  useEffect(() => {
+    if (tab !== 'usage' || !user.workspace) return;
+    setReport(null);
+    loadUsage().then(setReport).catch((err: any) => setError(err?.message || 'Usage could not be loaded.'));
+  }, [tab, user.workspace?.id]);
+
+  // The seat comes from the app's copy of the account, which also follows purchases and scans.
+  const seat = user.workspace;
+  const isAdmin = seat?.role === 'admin';
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invite.email.trim()) return;
+    if (await run(() => inviteMember(invite.email.trim(), invite.role, parseLimit(invite.limit)))) {
+      setInvite({ email: '', role: 'member', limit: '' });
+    }
+  };
+
+  const dailyTotals = report ? report.days.map((_, i) => report.members.reduce((sum, m) => sum + m.daily[i], 0)) : [];
+  const peak = Math.max(1, ...dailyTotals);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] rounded-3xl shadow-2xl overflow-hidden border border-slate-200 flex flex-col">
+        <div className="p-8 pb-4 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900">{seat ? seat.name : 'Team Workspace'}</h2>
+            <p className="text-slate-500">{seat ? `You're ${seat.role === 'admin' ? 'an' : 'a'} ${seat.role}. ${ROLE_HINTS[seat.role]}.` : 'Share one credit pool with your team.'}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <svg className="w-6 h-6 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 pb-8 space-y-4">
+          {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+
+          {!workspacesAvailable ? (
+            <p className="text-sm text-slate-500 py-8 text-center">
+              Workspaces are shared between people, so they need the API server. Set API_BASE_URL to use them.
+            </p>
+          ) : !state ? (
+            <div className="py-12 flex justify-center">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : !seat ? (
+            <>
+              {state.invites.map(inv => (
+                <div key={inv.workspaceId} className="flex items-center gap-3 p-4 rounded-2xl border border-blue-100 bg-blue-50/40">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-900 truncate">{inv.workspaceName}</p>
+                    <p className="text-xs text-slate-500">{inv.invitedBy} invited you as {inv.role === 'admin' ? 'an' : 'a'} {inv.role}</p>
+                  </div>
+                  <button disabled={busy} onClick={() => run(() => acceptInvite(inv.workspaceId))} className="text-[10px] font-black text-white bg-blue-600 px-4 py-2 rounded-full uppercase disabled:opacity-30">Join</button>
+                  <button disabled={busy} onClick={() => run(() => declineInvite(inv.workspaceId))} className="text-[10px] font-black text-slate-400 px-2 py-2 uppercase disabled:opacity-30">Decline</button>
+                </div>
+              ))}
+              <form
+                onSubmit={(e) => { e.preventDefault(); if (name.trim()) run(() => createWorkspace(name.trim())); }}
+                className="p-4 rounded-2xl bg-slate-50 space-y-3"
+              >
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">New workspace</p>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Company or team name"
+                  className="w-full p-4 border border-slate-200 rounded-xl outline-none font-bold"
+                />
+                <button disabled={busy || !name.trim()} className="w-full py-4 bg-slate-900 text-white font-bold rounded-2xl hover:bg-black transition-all disabled:opacity-30">Create Workspace</button>
+                <p className="text-[10px] text-slate-400">
+                  Scans are paid from the workspace's pool while you're in it; your own {user.credits} credits wait until you leave.
+                </p>
+              </form>
+            </>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="p-4 rounded-2xl bg-blue-50">
+                  <p className="text-[10px] font-black text-blue-400 uppercase tracking-widest">Shared pool</p>
+                  <p className="text-2xl font-black text-blue-700">{seat.pool} CR</p>
+                  {isAdmin && <button onClick={onTopUp} className="mt-1 text-[10px] font-black text-blue-600 uppercase">Top up</button>}
+                </div>
+                <div className="p-4 rounded-2xl bg-slate-50">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">You this month</p>
+                  <p className="text-2xl font-black text-slate-900">{seat.spentThisMonth}{seat.spendingLimit !== null && <span className="text-slate-400"> / {seat.spendingLimit}</span>} CR</p>
+                  <p className="text-[10px] font-bold text-slate-400">{seat.spendingLimit === null ? 'No limit' : 'Monthly limit'}</p>
+                </div>
+              </div>
+
+              <div className="flex bg-slate-100 rounded-full p-0.5 w-fit">
+                {(['members', 'usage'] as const).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setTab(t)}
+                    className={`text-[10px] font-black uppercase px-4 py-1.5 rounded-full transition-all ${tab === t ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}
+                  >{t}</button>
+                ))}
+              </div>
+
+              {tab === 'members' ? (
+                <div className="space-y-2">
+                  {state.members.map(member => (
+                    <div key={member.email} className="flex items-center gap-3 p-3 rounded-2xl border border-slate-100">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-bold text-slate-900 truncate text-sm">{member.email}{member.userId === user.id && <span className="text-slate-400"> (you)</span>}</p>
+                        <p className="text-[10px] font-bold text-slate-400">
+                          {member.joinedAt === null ? 'Invited' : `${member.spentThisMonth} CR this month`}
+                        </p>
+                      </div>
+                      {isAdmin ? (
+                        <>
+                          <select
+                            value={member.role}
+                            disabled={busy}
+                            onChange={(e) => run(() => updateMember(member.email, { role: e.target.value as WorkspaceRole }))}
+                            title={ROLE_HINTS[member.role]}
+                            className="text-[10px] font-black text-slate-600 uppercase bg-slate-50 border border-slate-200 rounded-full px-3 py-1.5 outline-none"
+                          >
+                            {WORKSPACE_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                          </select>
+                          <input
+                            key={`${member.email}:${member.spendingLimit}`}
+                            type="number"
+                            min={0}
+                            defaultValue={member.spendingLimit ?? ''}
+                            placeholder="No limit"
+                            title="Credits per month"
+                            disabled={busy || member.role === 'viewer'}
+                            onBlur={(e) => {
+                              const limit = parseLimit(e.target.value);
+                              if (limit !== member.spendingLimit) run(() => updateMember(member.email, { spendingLimit: limit }));
+                            }}
+                            className="w-24 text-xs font-bold p-2 border border-slate-200 rounded-xl outline-none disabled:opacity-30"
+                          />
+                          {member.userId !== user.id && (
+                            <button disabled={busy} onClick={() => run(() => removeMember(member.email))} className="text-[10px] font-black text-red-500 px-2 py-2 uppercase disabled:opacity-30">
+                              {member.joinedAt === null ? 'Cancel' : 'Remove'}
+                            </button>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-[10px] font-black text-slate-400 uppercase">{member.role}</span>
+                      )}
+                    </div>
+                  ))}
+
+                  {isAdmin && (
+                    <form onSubmit={handleInvite} className="p-4 rounded-2xl bg-slate-50 space-y-2">
+                      <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">Invite by email</p>
+                      <div className="flex gap-2">
+                        <input
+                          type="email"
+                          value={invite.email}
+                          onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                          placeholder="colleague@company.com"
+                          className="flex-1 min-w-0 p-3 border border-slate-200 rounded-xl outline-none text-sm"
+                        />
+                        <select
+                          value={invite.role}
+                          onChange={(e) => setInvite({ ...invite, role: e.target.value as WorkspaceRole })}
+                          className="text-[10px] font-black text-slate-600 uppercase bg-white border border-slate-200 rounded-xl px-2 outline-none"
+                        >
+                          {WORKSPACE_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                        </select>
+                        <input
+                          type="number"
+                          min={0}
+                          value={invite.limit}
+                          onChange={(e) => setInvite({ ...invite, limit: e.target.value })}
+                          placeholder="No limit"
+                          title="Credits per month"
+                          className="w-24 p-3 border border-slate-200 rounded-xl outline-none text-sm"
+                        />
+                      </div>
+                      <button disabled={busy || !invite.email.trim()} className="w-full py-3 bg-slate-900 text-white font-bold rounded-2xl hover:bg-black transition-all disabled:opacity-30">Send Invite</button>
+                      <p className="text-[10px] text-slate-400">They join the next time they sign in with that email. Limits are in credits per calendar month.</p>
+                    </form>
+                  )}
+
+                  <button
+                    disabled={busy}
+                    onClick={() => run(leaveWorkspace)}
+                    className="w-full py-2 text-[10px] font-black text-slate-400 hover:text-red-500 uppercase tracking-widest disabled:opacity-30"
+                  >Leave Workspace</button>
+                </div>
+              ) : !report ? (
+                <div className="py-12 flex justify-center">
+                  <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Credits per day, last {report.days.length} days</p>
+                    <div className="flex items-end gap-0.5 h-24 p-2 rounded-2xl bg-slate-50">
+                      {dailyTotals.map((total, i) => (
+                        <div
+                          key={report.days[i]}
+                          title={`${report.days[i]}: ${total} CR`}
+                          className="flex-1 bg-blue-500 rounded-t-sm min-h-[2px]"
+                          style={{ height: `${(total / peak) * 100}%`, opacity: total ? 1 : 0.2 }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+
+                  {report.members.length === 0 ? (
+                    <p className="text-sm text-slate-400 text-center py-4">No scans in this period.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left">
+                          <th className="py-2">Member</th>
+                          <th className="py-2 text-right">Pages</th>
+                          <th className="py-2 text-right">Credits</th>
+                          <th className="py-2 pl-4 w-32">Trend</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.members.map(member => {
+                          const memberPeak = Math.max(1, ...member.daily);
+                          return (
+                            <tr key={member.userId} className="border-t border-slate-100">
+                              <td className="py-2 font-bold text-slate-900 truncate max-w-[12rem]">{member.email}</td>
+                              <td className="py-2 text-right tabular-nums">{member.scans}</td>
+                              <td className="py-2 text-right font-black tabular-nums">{member.credits}</td>
+                              <td className="py-2 pl-4">
+                                <div className="flex items-end gap-px h-6">
+                                  {member.daily.map((credits, i) => (
+                                    <div key={i} className="flex-1 bg-slate-400 min-h-[1px]" style={{ height: `${(credits / memberPeak) * 100}%` }} />
+                                  ))}
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                  {!isAdmin && <p className="text-[10px] text-slate-400">Only admins see everyone's usage.</p>}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamPanel;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { BoundingBox, FieldType, FormTemplate, TemplateField } from '../types';
+import { createField, createTemplate, deleteTemplate, saveTemplate } from '../services/templateService';
+
+interface TemplateManagerProps {
+  templates: FormTemplate[];
+  onTemplatesChange: (templates: FormTemplate[]) => void;
+  onClose: () => void;
+  /** Box of the region selected on the canvas, offered as a field anchor. */
+  selectedBox: BoundingBox | null;
+}
+
+const FIELD_TYPES: FieldType[] = ['string', 'date', 'amount'];
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onTemplatesChange, onClose, selectedBox }) => {
+  // Edits happen on a draft; nothing is persisted until "Save".
+  const [draft, setDraft] = useState<FormTemplate | null>(null);
+
+  const updateField = (id: string, patch: Partial<TemplateField>) => {
+    setDraft(d => d && { ...d, fields: d.fields.map(f => f.id === id ? { ...f, ...patch } : f) });
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    const cleaned = { ...draft, name: draft.name.trim(), fields: draft.fields.filter(f => f.name.trim()) };
+    onTemplatesChange(saveTemplate(cleaned));
+    setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] rounded-3xl shadow-2xl overflow-hidden border border-slate-200 flex flex-col">
+        <div className="p-8 pb-4 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-slate-900">{draft ? 'Edit Template' : 'Form Templates'}</h2>
+            <p className="text-slate-500">{draft ? 'Fields are read and typed on every scan.' : 'Reusable field sets for invoices, IDs and labels.'}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors">
+            <svg className="w-6 h-6 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 pb-8">
+          {!draft ? (
+            <div className="space-y-3">
+              {templates.length === 0 && (
+                <p className="text-sm text-slate-400 text-center py-8">No templates yet.</p>
+              )}
+              {templates.map(t => (
+                <div key={t.id} className="flex items-center gap-3 p-4 rounded-2xl border border-slate-100">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-900 truncate">{t.name}</p>
+                    <p className="text-xs text-slate-500">{t.fields.length} fields</p>
+                  </div>
+                  <button onClick={() => setDraft(t)} className="text-[10px] font-black text-blue-600 bg-blue-50 px-4 py-2 rounded-full uppercase">Edit</button>
+                  <button onClick={() => onTemplatesChange(deleteTemplate(t.id))} className="text-[10px] font-black text-red-500 px-2 py-2 uppercase">Delete</button>
+                </div>
+              ))}
+              <button
+                onClick={() => setDraft({ ...createTemplate('New template'), fields: [createField()] })}
+                className="w-full py-4 bg-slate-900 text-white font-bold rounded-2xl hover:bg-black transition-all"
+              >New Template</button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Template name"
+                className="w-full p-4 border border-slate-200 rounded-xl outline-none font-bold"
+              />
+
+              {draft.fields.map(field => (
+                <div key={field.id} className="p-4 rounded-2xl bg-slate-50 space-y-2">
+                  <div className="flex gap-2">
+                    <input
+                      value={field.name}
+                      onChange={(e) => updateField(field.id, { name: e.target.value })}
+                      placeholder="Field name (e.g. Invoice Total)"
+                      className="flex-1 p-3 border border-slate-200 rounded-xl outline-none text-sm bg-white"
+                    />
+                    <select
+                      value={field.type}
+                      onChange={(e) => updateField(field.id, { type: e.target.value as FieldType })}
+                      className="p-3 border border-slate-200 rounded-xl outline-none text-sm bg-white"
+                    >
+                      {FIELD_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                    <button
+                      onClick={() => setDraft({ ...draft, fields: draft.fields.filter(f => f.id !== field.id) })}
+                      className="px-3 text-slate-300 hover:text-red-500"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path d="M6 18L18 6M6 6l12 12"/></svg>
+                    </button>
+                  </div>
+                  <input
+                    value={field.hint || ''}
+                    onChange={(e) => updateField(field.id, { hint: e.target.value || undefined })}
+                    placeholder="Hint (optional)"
+                    className="w-full p-3 border border-slate-200 rounded-xl outline-none text-xs bg-white"
+                  />
+                  <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-wider">
+                    {field.anchor ? (
+                      <>
+                        <span className="text-emerald-600">Anchored [{field.anchor.ymin}, {field.anchor.xmin}, {field.anchor.ymax}, {field.anchor.xmax}]</span>
+                        <button onClick={() => updateField(field.id, { anchor: undefined })} className="text-slate-400 hover:text-red-500">Clear</button>
+                      </>
+                    ) : (
+                      <button
+                        disabled={!selectedBox}
+                        onClick={() => selectedBox && updateField(field.id, { anchor: selectedBox })}
+                        className="text-blue-600 disabled:text-slate-300"
+                      >{selectedBox ? 'Anchor to selected region' : 'Select a region to anchor'}</button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              <button
+                onClick={() => setDraft({ ...draft, fields: [...draft.fields, createField()] })}
+                className="w-full py-3 border-2 border-dashed border-slate-200 text-slate-500 font-bold rounded-2xl hover:border-blue-200"
+              >Add Field</button>
+
+              <div className="grid grid-cols-2 gap-3 pt-2">
+                <button onClick={() => setDraft(null)} className="py-4 bg-slate-100 text-slate-700 font-bold rounded-2xl">Cancel</button>
+                <button onClick={handleSave} className="py-4 bg-slate-900 text-white font-bold rounded-2xl hover:bg-black">Save</button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
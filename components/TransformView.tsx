@@ -0,0 +1,22 @@
+import React from 'react';
+import { TextTransform } from '../types';
+import { transformLabel } from '../services/postProcessService';
+
+interface TransformViewProps {
+  transform: TextTransform;
+  onDiscard: () => void;
+}
+
+/** A post-processed version shown under its original, never in place of it. */
+const TransformView: React.FC<TransformViewProps> = ({ transform, onDiscard }) => (
+  <div className="mt-2 p-3 rounded-xl bg-indigo-50/70 border border-indigo-100 space-y-1">
+    <div className="flex items-center gap-3">
+      <p className="flex-1 text-[9px] font-black text-indigo-600 uppercase tracking-widest">{transformLabel(transform)}</p>
+      <button onClick={() => navigator.clipboard.writeText(transform.text)} className="text-[9px] font-black text-indigo-500 uppercase tracking-widest hover:text-indigo-700">Copy</button>
+      <button onClick={onDiscard} className="text-[9px] font-black text-slate-400 uppercase tracking-widest hover:text-red-500">Discard</button>
+    </div>
+    <p className="text-sm font-medium text-slate-700 leading-relaxed whitespace-pre-wrap">{transform.text || <span className="italic text-slate-400">Empty result</span>}</p>
+  </div>
+);
+
+export default TransformView;
@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from 'react';
+import { zipSync } from 'fflate';
+import { BatchJob, BatchJobStatus, PreprocessSettings, ScanOptions } from '../types';
+import type { OcrProvider } from '../services/ocrProvider';
+import type { ReadingOrderPreset } from '../services/readingOrder';
+import { processBatchFile } from '../services/batchService';
+import { InsufficientCreditsError, describeError, isCancelled } from '../services/errors';
+import { collectTables, downloadBlob, exportDocument } from '../services/exportService';
+
+interface UseBatchQueueOptions {
+  provider: OcrProvider;
+  chargeCredits: (amount: number) => boolean;
+  refundCredits: (amount: number) => void;
+  /** Fired when a job is put back because the balance ran out (the queue pauses itself). */
+  onInsufficientCredits: () => void;
+  /** Fired with the finished job, e.g. to save it to the library. */
+  onJobDone?: (job: BatchJob) => void;
+  /** Applied to every page before detection (no manual corners in batch mode). */
+  preprocess: PreprocessSettings;
+  readingOrder: ReadingOrderPreset;
+  scanOptions: ScanOptions;
+  ignoreCache: boolean;
+}
+
+const RUNNING_STATUSES: BatchJobStatus[] = ['loading', 'detecting', 'extracting'];
+
+export const isJobRunning = (job: BatchJob) => RUNNING_STATUSES.includes(job.status);
+
+/**
+ * BATCH QUEUE
+ * Python Analogy: A small asyncio worker pool (asyncio.Semaphore(concurrency))
+ * over a list of jobs, exposed to React as state + commands.
+ *
+ * The scheduler is an effect: whenever jobs or settings change, it starts as
+ * many queued jobs as there are free slots. Pausing only stops new starts;
+ * jobs already talking to the provider are allowed to finish unless cancelled.
+ */
+export const useBatchQueue = ({ provider, chargeCredits, refundCredits, onInsufficientCredits, onJobDone, preprocess, readingOrder, scanOptions, ignoreCache }: UseBatchQueueOptions) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const [concurrency, setConcurrency] = useState(2);
+  const [extract, setExtract] = useState(true);
+  // Ids of jobs we've launched; state updates lag behind, so this is the source of truth for slots.
+  const inFlight = useRef(new Set<string>());
+  // One controller per running job, so it can be cancelled on its own.
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const patchJob = (id: string, patch: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(j => j.id === id ? { ...j, ...patch } : j));
+  };
+
+  const runJob = async (job: BatchJob) => {
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+    patchJob(job.id, { status: 'loading', progress: 0, error: undefined });
+    try {
+      const result = await processBatchFile(job.file, {
+        provider,
+        extract,
+        preprocess,
+        readingOrder,
+        scanOptions,
+        ignoreCache,
+        signal: controller.signal,
+        onStage: (status, progress) => patchJob(job.id, { status, progress }),
+        chargeCredits,
+        refundCredits
+      });
+      patchJob(job.id, { status: 'done', progress: 1, ...result });
+      onJobDone?.({ ...job, status: 'done', progress: 1, ...result });
+    } catch (err: any) {
+      if (err instanceof InsufficientCreditsError) {
+        // Not the file's fault: park it and wait for a top-up.
+        patchJob(job.id, { status: 'queued', progress: 0, error: err.message });
+        setIsPaused(true);
+        onInsufficientCredits();
+      } else if (isCancelled(err)) {
+        patchJob(job.id, { status: 'failed', error: describeError(err, 'Cancelled.') });
+      } else {
+        console.error(`Batch job failed (${job.file.name}):`, err);
+        patchJob(job.id, { status: 'failed', error: describeError(err, err?.message || 'Processing failed') });
+      }
+    } finally {
+      controllers.current.delete(job.id);
+      inFlight.current.delete(job.id);
+    }
+  };
+
+  useEffect(() => {
+    if (isPaused) return;
+    for (const job of jobs) {
+      if (inFlight.current.size >= concurrency) break;
+      if (job.status !== 'queued' || inFlight.current.has(job.id)) continue;
+      inFlight.current.add(job.id);
+      runJob(job);
+    }
+  }, [jobs, isPaused, concurrency]);
+
+  const addFiles = (files: File[]) => {
+    const supported = files.filter(f => f.type.startsWith('image/') || f.type === 'application/pdf' || f.name.toLowerCase().endsWith('.pdf'));
+    setJobs(prev => [
+      ...prev,
+      ...supported.map(file => ({
+        id: Math.random().toString(36).substr(2, 9),
+        file,
+        status: 'queued' as const,
+        progress: 0,
+        creditsCharged: 0,
+        pages: [],
+        regions: []
+      }))
+    ]);
+  };
+
+  /** Aborts a running job; it ends up failed (and retryable) once the provider call unwinds. */
+  const cancelJob = (id: string) => controllers.current.get(id)?.abort();
+
+  const retryJob = (id: string) => patchJob(id, { status: 'queued', progress: 0, error: undefined });
+
+  const retryFailed = () => {
+    setJobs(prev => prev.map(j => j.status === 'failed' ? { ...j, status: 'queued', progress: 0, error: undefined } : j));
+  };
+
+  const removeJob = (id: string) => {
+    if (inFlight.current.has(id)) return;
+    setJobs(prev => prev.filter(j => j.id !== id));
+  };
+
+  const clearFinished = () => setJobs(prev => prev.filter(j => j.status !== 'done'));
+
+  /** Zips a .txt (reading-order text), a .json (regions + boxes) and, if any, a .csv of tables per finished file. */
+  const downloadResults = async () => {
+    const entries: Record<string, Uint8Array> = {};
+    const usedNames = new Set<string>();
+
+    for (const job of jobs.filter(j => j.status === 'done')) {
+      let base = job.file.name.replace(/\.[^.]+$/, '') || 'document';
+      for (let n = 2; usedNames.has(base); n++) base = `${job.file.name.replace(/\.[^.]+$/, '')}-${n}`;
+      usedNames.add(base);
+
+      const source = { pages: job.pages, regions: job.regions };
+      if (job.regions.some(r => r.extractedText !== undefined)) {
+        entries[`${base}.txt`] = new Uint8Array(await (await exportDocument('txt', source)).arrayBuffer());
+      }
+      entries[`${base}.json`] = new Uint8Array(await (await exportDocument('json', source)).arrayBuffer());
+      if (collectTables(source).length > 0) {
+        entries[`${base}.csv`] = new Uint8Array(await (await exportDocument('csv', source)).arrayBuffer());
+      }
+    }
+
+    downloadBlob(new Blob([zipSync(entries)], { type: 'application/zip' }), 'smart-lens-batch.zip');
+  };
+
+  return {
+    jobs,
+    isPaused,
+    setIsPaused,
+    concurrency,
+    setConcurrency,
+    extract,
+    setExtract,
+    addFiles,
+    cancelJob,
+    retryJob,
+    retryFailed,
+    removeJob,
+    clearFinished,
+    downloadResults
+  };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useReducer } from 'react';
+import { canRedo, canUndo, initialSession, saveResumePoint, sessionReducer } from '../services/sessionState';
+
+/**
+ * SESSION
+ * Python Analogy: The controller that owns the state machine instance and
+ * keeps the resume point (which library entry is open) in sync with it.
+ */
+export const useSession = (ownerId: string | null) => {
+  const [session, dispatch] = useReducer(sessionReducer, initialSession);
+
+  // The document autosaves to the library; remembering which entry is open lets a reload reopen it.
+  useEffect(() => {
+    if (!ownerId) return;
+    saveResumePoint(session.scan ? { ownerId, scanId: session.scan.id, currentPage: session.currentPage } : null);
+  }, [ownerId, session.scan?.id, session.currentPage]);
+
+  return { session, dispatch, canUndo: canUndo(session), canRedo: canRedo(session) };
+};
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutAction, matchShortcut } from '../services/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, (e: KeyboardEvent) => void>>;
+
+/**
+ * SHORTCUTS
+ * Python Analogy: The key-press callback of an event loop: look the key up in
+ * the keymap and call whatever command is bound to it right now.
+ *
+ * Only actions with a handler are taken over; the rest keep the browser's
+ * behaviour, so pass undefined for actions that don't apply in the current
+ * state. Keys typed into text fields are left alone, and Tab, Space and Enter
+ * still operate a focused button or link.
+ */
+export const useShortcuts = (handlers: ShortcutHandlers, enabled: boolean) => {
+  // Handlers change every render; the listener reads the latest without re-binding.
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (target?.closest('button, a') && ['Tab', ' ', 'Enter'].includes(e.key)) return;
+      const action = matchShortcut(e);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler(e);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox } from '../types';
+import { FitMode, Size, ViewState, centerOn, clampView, fitView, viewForBox, zoomAt } from '../services/viewport';
+
+type Point = { x: number; y: number };
+
+// What the pointers were doing when the current gesture started.
+type Gesture =
+  | { mode: 'pan'; origin: Point; start: ViewState }
+  | { mode: 'pinch'; distance: number; mid: Point; start: ViewState };
+
+/** Zoom factor of one +/- step. */
+const ZOOM_STEP = 1.25;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * VIEWPORT
+ * Python Analogy: The navigation toolbar of a matplotlib figure: holds the
+ * current pan/zoom and turns wheel, drag and pinch events into new views.
+ *
+ * Fitted views ('page', 'width') follow the viewport's size and each new
+ * page; any manual zoom or pan drops the fit until the next Fit command.
+ * Panning is a drag on the background, a middle-button or Shift drag
+ * anywhere (so it works while boxes can be drawn), or two fingers.
+ */
+export const useViewport = (pageKey: string | undefined) => {
+  const [element, setElement] = useState<HTMLDivElement | null>(null);
+  const [container, setContainer] = useState<Size>({ width: 0, height: 0 });
+  const [image, setImage] = useState<Size | null>(null);
+  const [view, setView] = useState<ViewState>({ scale: 1, x: 0, y: 0 });
+  const [fit, setFit] = useState<FitMode | null>('page');
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<Gesture | null>(null);
+  // The wheel listener is bound once; it reads the latest sizes from here.
+  const sizes = useRef({ container, image });
+  sizes.current = { container, image };
+
+  const localPoint = (clientX: number, clientY: number): Point => {
+    const rect = element!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  /** Applies a manual view change, kept within reach of the page. */
+  const update = (change: (view: ViewState) => ViewState) => {
+    setFit(null);
+    setView(prev => {
+      const { container, image } = sizes.current;
+      return image ? clampView(change(prev), container, image) : prev;
+    });
+  };
+
+  useEffect(() => {
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setContainer({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(element);
+    // Bound natively: React's wheel listener is passive, so it couldn't stop the page from scrolling.
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      // Trackpad pinches arrive as wheel events with ctrlKey and much smaller deltas.
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015));
+      const rect = element.getBoundingClientRect();
+      update(prev => zoomAt(prev, factor, { x: e.clientX - rect.left, y: e.clientY - rect.top }));
+    };
+    element.addEventListener('wheel', onWheel, { passive: false });
+    return () => {
+      observer.disconnect();
+      element.removeEventListener('wheel', onWheel);
+    };
+  }, [element]);
+
+  // A new page starts fitted, unless a fit is already in effect.
+  useEffect(() => {
+    setFit(prev => prev ?? 'page');
+  }, [pageKey]);
+
+  useEffect(() => {
+    if (fit && image && container.width > 0) setView(fitView(fit, container, image));
+  }, [fit, image, container]);
+
+  const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    setImage(prev => prev && prev.width === naturalWidth && prev.height === naturalHeight ? prev : { width: naturalWidth, height: naturalHeight });
+  };
+
+  const startPan = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    element?.setPointerCapture(e.pointerId);
+    gesture.current = { mode: 'pan', origin: { x: e.clientX, y: e.clientY }, start: view };
+  };
+
+  const pointerHandlers = {
+    // Capture phase, ahead of the overlay, which would otherwise start drawing a box.
+    onPointerDownCapture: (e: React.PointerEvent) => {
+      if (e.pointerType === 'touch') {
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (pointers.current.size === 2) {
+          e.stopPropagation();
+          const [a, b]: Point[] = Array.from(pointers.current.values());
+          gesture.current = { mode: 'pinch', distance: distance(a, b), mid: localPoint((a.x + b.x) / 2, (a.y + b.y) / 2), start: view };
+        }
+        return;
+      }
+      if (e.button === 1 || (e.button === 0 && e.shiftKey)) {
+        e.preventDefault();
+        startPan(e);
+      }
+    },
+    // Bubble phase: only reached when nothing on the page (a box, the drawing layer) took the press.
+    onPointerDown: (e: React.PointerEvent) => {
+      if (e.button === 0 && !gesture.current) startPan(e);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (pointers.current.has(e.pointerId)) pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const current = gesture.current;
+      if (!current) return;
+      if (current.mode === 'pan') {
+        const { origin, start } = current;
+        update(() => ({ ...start, x: start.x + e.clientX - origin.x, y: start.y + e.clientY - origin.y }));
+      } else if (pointers.current.size === 2) {
+        const [a, b]: Point[] = Array.from(pointers.current.values());
+        const mid = localPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+        const zoomed = zoomAt(current.start, distance(a, b) / current.distance, current.mid);
+        update(() => ({ ...zoomed, x: zoomed.x + mid.x - current.mid.x, y: zoomed.y + mid.y - current.mid.y }));
+      }
+    },
+    onPointerUp: (e: React.PointerEvent) => {
+      pointers.current.delete(e.pointerId);
+      if (gesture.current?.mode === 'pan' || pointers.current.size < 2) gesture.current = null;
+    },
+    onPointerCancel: (e: React.PointerEvent) => {
+      pointers.current.delete(e.pointerId);
+      gesture.current = null;
+    }
+  };
+
+  const center = () => ({ x: container.width / 2, y: container.height / 2 });
+
+  return {
+    ref: setElement,
+    view,
+    image,
+    container,
+    fit,
+    onImageLoad,
+    pointerHandlers,
+    zoomIn: () => update(prev => zoomAt(prev, ZOOM_STEP, center())),
+    zoomOut: () => update(prev => zoomAt(prev, 1 / ZOOM_STEP, center())),
+    fitPage: () => setFit('page'),
+    fitWidth: () => setFit('width'),
+    zoomToBox: (box: BoundingBox) => image && update(() => viewForBox(box, container, image)),
+    /** Pans (without zooming) until the box is in view; used when the selection moves by keyboard. */
+    reveal: (box: BoundingBox) => {
+      if (!image) return;
+      const left = view.x + (box.xmin / 1000) * image.width * view.scale;
+      const top = view.y + (box.ymin / 1000) * image.height * view.scale;
+      const right = view.x + (box.xmax / 1000) * image.width * view.scale;
+      const bottom = view.y + (box.ymax / 1000) * image.height * view.scale;
+      if (left >= 0 && top >= 0 && right <= container.width && bottom <= container.height) return;
+      update(prev => centerOn(prev, (box.xmin + box.xmax) / 2000, (box.ymin + box.ymax) / 2000, container, image));
+    },
+    /** Centres the view on a point of the page, given as 0-1 fractions (the minimap). */
+    panTo: (fx: number, fy: number) => image && update(prev => centerOn(prev, fx, fy, container, image))
+  };
+};
+
+export type Viewport = ReturnType<typeof useViewport>;
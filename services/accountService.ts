@@ -0,0 +1,80 @@
+import { PricingPlan, User } from "../types";
+import { apiRequest, isServerMode, publishCredits, setSessionToken } from "./apiClient";
+
+/**
+ * ACCOUNTS
+ * Python Analogy: The "auth" and "billing" client module. Each function talks
+ * to the backend when one is configured, and otherwise falls back to the
+ * browser-only demo (a user object in localStorage and a fake payment delay).
+ */
+const LOCAL_USER_KEY = 'ocr_user';
+const DEMO_SIGNUP_CREDITS = 5;
+const DEMO_PAYMENT_DELAY_MS = 2000;
+
+/** Returns the signed-in user from a previous visit, if the session is still valid. */
+export const restoreSession = async (): Promise<User | null> => {
+  if (!isServerMode) {
+    const saved = localStorage.getItem(LOCAL_USER_KEY);
+    return saved ? JSON.parse(saved) : null;
+  }
+  try {
+    return (await apiRequest<{ user: User }>('/api/me')).user;
+  } catch {
+    setSessionToken(null);
+    return null;
+  }
+};
+
+/** Re-reads the account, e.g. after a workspace's pool or the user's seat changed. Server mode only. */
+export const refreshAccount = async (): Promise<User> =>
+  (await apiRequest<{ user: User }>('/api/me')).user;
+
+/** With a backend, signing in takes a one-time code mailed to the address first. */
+export const loginNeedsCode = isServerMode;
+
+export const requestLoginCode = async (email: string) => {
+  await apiRequest('/api/auth/code', { email });
+};
+
+export const login = async (email: string, code = ''): Promise<User> => {
+  if (!isServerMode) {
+    const user: User = { id: 'usr_' + Date.now(), email, credits: DEMO_SIGNUP_CREDITS, isPro: false };
+    saveLocalUser(user);
+    return user;
+  }
+  const { token, user } = await apiRequest<{ token: string; user: User }>('/api/auth/login', { email, code });
+  setSessionToken(token);
+  return user;
+};
+
+export const logout = async () => {
+  if (!isServerMode) {
+    localStorage.removeItem(LOCAL_USER_KEY);
+    return;
+  }
+  try {
+    await apiRequest('/api/auth/logout', {});
+  } finally {
+    setSessionToken(null);
+  }
+};
+
+/** Demo mode keeps the balance in the browser; with a backend this is a no-op. */
+export const saveLocalUser = (user: User) => {
+  if (!isServerMode) localStorage.setItem(LOCAL_USER_KEY, JSON.stringify(user));
+};
+
+/**
+ * Buys a plan. With a backend, the server charges the payment provider and
+ * the new balance arrives through 'onCreditsChanged'. Returns the credits the
+ * caller still has to add itself (demo mode only), otherwise 0.
+ */
+export const purchasePlan = async (plan: PricingPlan): Promise<number> => {
+  if (!isServerMode) {
+    await new Promise(resolve => setTimeout(resolve, DEMO_PAYMENT_DELAY_MS));
+    return plan.credits;
+  }
+  const { credits } = await apiRequest<{ credits: number }>('/api/purchases', { planId: plan.id });
+  publishCredits(credits);
+  return 0;
+};
@@ -0,0 +1,108 @@
+import { InsufficientCreditsError, RequestError, isRequestErrorKind } from "./errors";
+import { createJsonArrayReader } from "./jsonStream";
+
+/**
+ * API CLIENT
+ * Python Analogy: A thin 'requests.Session' wrapper that adds the auth header
+ * and turns error responses into exceptions.
+ *
+ * When API_BASE_URL is empty the app runs without a backend (the old
+ * browser-only demo mode) and nothing in this module is used.
+ */
+const API_BASE_URL = (process.env.API_BASE_URL || '').replace(/\/$/, '');
+const TOKEN_KEY = 'ocr_session';
+
+export const isServerMode = API_BASE_URL !== '';
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const getSessionToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const setSessionToken = (token: string | null) => {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+};
+
+// Python: a list of callbacks, like a minimal blinker signal.
+const creditListeners = new Set<(credits: number) => void>();
+
+/** The server owns the balance; every response that changes it is broadcast here. */
+export const onCreditsChanged = (listener: (credits: number) => void) => {
+  creditListeners.add(listener);
+  return () => { creditListeners.delete(listener); };
+};
+
+export const publishCredits = (credits: number) => {
+  creditListeners.forEach(listener => listener(credits));
+};
+
+// Python: the except-clauses mapping an error payload back to our exception classes.
+const errorFromPayload = (status: number, payload: any): Error => {
+  if (payload.code === 'insufficient_credits') return new InsufficientCreditsError(payload.required ?? 1);
+  if (isRequestErrorKind(payload.code)) return new RequestError(payload.code, payload.error || `Request failed (${status})`);
+  return new ApiError(status, payload.error || `Request failed (${status})`, payload.code);
+};
+
+const send = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  const token = getSessionToken();
+  try {
+    return await fetch(`${API_BASE_URL}${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal
+    });
+  } catch (error: any) {
+    if (signal?.aborted) throw new RequestError('cancelled', 'Request cancelled');
+    throw new RequestError('network', error?.message || 'Network request failed');
+  }
+};
+
+/**
+ * Aborting 'signal' hangs up on the server, which stops the work (and refunds it).
+ * OCR failures the server could classify come back as the same RequestError kinds.
+ */
+export const apiRequest = async <T>(path: string, body?: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await send(path, body, signal);
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) throw errorFromPayload(response.status, payload);
+  return payload as T;
+};
+
+/**
+ * For routes that stream a JSON array: 'onElement' gets each element as soon
+ * as it has arrived. A failure after the stream started arrives as a last
+ * '{error, code}' element and is thrown like any other error response.
+ */
+export const apiStream = async <T>(path: string, body: unknown, signal: AbortSignal | undefined, onElement: (element: T) => void): Promise<void> => {
+  const response = await send(path, body, signal);
+  if (!response.ok || !response.body) {
+    throw errorFromPayload(response.status, await response.json().catch(() => ({})));
+  }
+
+  const readElements = createJsonArrayReader();
+  const decoder = new TextDecoder();
+  const reader = response.body.getReader();
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error: any) {
+      if (signal?.aborted) throw new RequestError('cancelled', 'Request cancelled');
+      throw new RequestError('network', error?.message || 'Connection lost');
+    }
+    if (chunk.done) return;
+    for (const element of readElements(decoder.decode(chunk.value, { stream: true }))) {
+      if (element?.error) throw errorFromPayload(502, element);
+      onElement(element as T);
+    }
+  }
+};
@@ -0,0 +1,141 @@
+import { DocumentPage, PreprocessSettings, RegionResultMap, ScanOptions, TextRegion } from "../types";
+import { applyRegionResults, loadDocumentPages, regionsForPage } from "./documentService";
+import type { OcrProvider } from "./ocrProvider";
+import { InsufficientCreditsError } from "./errors";
+import { throwIfCancelled } from "./requestPolicy";
+import { preprocessPages } from "./preprocessService";
+import { ReadingOrderPreset, applyReadingOrder } from "./readingOrder";
+import { cacheRegions, cacheResult, getCachedRegions, getCachedResults, hashImage } from "./resultCache";
+
+/**
+ * BATCH WORKER
+ * Python Analogy: The body of a Celery task. It processes exactly one file end
+ * to end; scheduling, retries and concurrency live in the useBatchQueue hook.
+ */
+export interface BatchFileOptions {
+  provider: OcrProvider;
+  /** When false, the job stops after layout analysis (free, no credits). */
+  extract: boolean;
+  preprocess: PreprocessSettings;
+  /** Regions are re-sorted with this preset right after detection. */
+  readingOrder: ReadingOrderPreset;
+  /** Language and handwriting hints, the same for every file in the queue. */
+  scanOptions: ScanOptions;
+  /** Skip cached layouts and text (fresh results are still cached). */
+  ignoreCache: boolean;
+  /** Aborts the job: provider calls in flight are abandoned and no further page is started. */
+  signal?: AbortSignal;
+  onStage: (stage: 'detecting' | 'extracting', progress: number) => void;
+  /**
+   * Called after layout analysis (which is free) with the number of pages that
+   * still have regions to send, before any billable call.
+   * Returns false when the balance can't cover the job.
+   */
+  chargeCredits: (amount: number) => boolean;
+  /** Gives back the credits of pages that returned no text before the job failed. */
+  refundCredits: (amount: number) => void;
+}
+
+/**
+ * Same billing rule as the single-document flow: one credit per page sent for
+ * extraction; pages answered entirely from the cache are free.
+ * Server-billed providers are charged by the backend, so nothing is taken here.
+ */
+export const batchCost = (pageCount: number, options: Pick<BatchFileOptions, 'provider' | 'extract'>) =>
+  options.extract && !options.provider.isOffline && !options.provider.billedByServer ? pageCount : 0;
+
+// The page as sent to the engine, and hashed for the result cache.
+const pageImage = (page: DocumentPage) => page.image.split(',')[1];
+
+const detectPages = async (pages: DocumentPage[], hashes: string[], options: BatchFileOptions): Promise<TextRegion[]> => {
+  const { provider, extract, readingOrder, scanOptions, ignoreCache, signal, onStage } = options;
+
+  // Detection and extraction each get half of the progress bar when both run.
+  const detectShare = extract ? 0.5 : 1;
+  const detected: TextRegion[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    throwIfCancelled(signal);
+    onStage('detecting', (i / pages.length) * detectShare);
+    const cached = ignoreCache ? null : getCachedRegions(provider, hashes[i], i, scanOptions);
+    if (cached) {
+      detected.push(...cached);
+      continue;
+    }
+    const found = await provider.detectRegions(pageImage(pages[i]), i, scanOptions, signal);
+    cacheRegions(provider, hashes[i], scanOptions, found);
+    detected.push(...found);
+  }
+  return applyReadingOrder(detected, readingOrder);
+};
+
+// 'onPageBilled' fires once per page the engine sent any text for, i.e. each page that costs a credit.
+const extractPages = async (
+  pages: DocumentPage[],
+  hashes: string[],
+  regions: TextRegion[],
+  options: BatchFileOptions,
+  onPageBilled: () => void
+): Promise<RegionResultMap> => {
+  const { provider, scanOptions, signal, onStage } = options;
+
+  const results: RegionResultMap = {};
+  for (let i = 0; i < pages.length; i++) {
+    throwIfCancelled(signal);
+    onStage('extracting', 0.5 + (i / pages.length) * 0.5);
+    const onPage = regionsForPage(regions, i);
+    if (onPage.length === 0) continue;
+    // The geometric order is used as-is; there's no human in the loop here.
+    // Each region is cached as it arrives, so a retry after a failure only sends what's missing.
+    let billed = false;
+    const bill = () => {
+      if (!billed) onPageBilled();
+      billed = true;
+    };
+    const found = await provider.extractTextFromRegions(pageImage(pages[i]), onPage, scanOptions, signal, (id, result) => {
+      const region = onPage.find(r => r.id === id);
+      if (region) cacheResult(provider, hashes[i], region, scanOptions, result);
+      bill();
+    });
+    Object.assign(results, found);
+    bill();
+  }
+  return results;
+};
+
+export const processBatchFile = async (
+  file: File,
+  options: BatchFileOptions
+): Promise<{ pages: DocumentPage[]; regions: TextRegion[]; creditsCharged: number }> => {
+  const { provider, scanOptions, ignoreCache, chargeCredits, refundCredits } = options;
+
+  const loaded = await loadDocumentPages([file]);
+  if (loaded.length === 0) throw new Error("Unsupported file type");
+  throwIfCancelled(options.signal);
+  const pages = await preprocessPages(loaded, options.preprocess);
+  const hashes = await Promise.all(pages.map(page => hashImage(pageImage(page))));
+
+  const regions = await detectPages(pages, hashes, options);
+  if (!options.extract) return { pages, regions, creditsCharged: 0 };
+
+  // Regions read before (same image, engine and settings) are filled in from the cache.
+  const cached: RegionResultMap = ignoreCache ? {} : Object.assign({}, ...pages.map((_, i) =>
+    getCachedResults(provider, hashes[i], regionsForPage(regions, i), scanOptions)));
+  const toExtract = regions.filter(r => !cached[r.id]);
+
+  // Reserved up front so parallel jobs can't overspend, but only pages that returned text
+  // are kept: that text is cached, so a retry after a failure doesn't pay for it again.
+  const cost = batchCost(new Set(toExtract.map(r => r.pageIndex)).size, options);
+  if (cost > 0 && !chargeCredits(cost)) throw new InsufficientCreditsError(cost);
+
+  // What the scan cost, whoever debited it (the backend bills the same one credit per page).
+  let pagesBilled = 0;
+  try {
+    const results = await extractPages(pages, hashes, toExtract, options, () => {
+      if (!provider.isOffline) pagesBilled++;
+    });
+    return { pages, regions: applyRegionResults(regions, { ...cached, ...results }), creditsCharged: pagesBilled };
+  } catch (error) {
+    if (cost > pagesBilled) refundCredits(cost - pagesBilled);
+    throw error;
+  }
+};
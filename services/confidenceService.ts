@@ -0,0 +1,103 @@
+import { TextRegion, UncertainSpan } from "../types";
+import { updateRegionText } from "./regionEditing";
+
+/**
+ * CONFIDENCE & REVIEW
+ * Python Analogy: Pure helpers (like a small 'review' module) that turn the
+ * engines' raw scores into UI levels and drive the proof-reading queue.
+ *
+ * Engines report confidence differently (Tesseract per word/line, Gemini as
+ * a self-assessment), so everything is normalized to 0-1 plus character spans
+ * before it reaches a TextRegion.
+ */
+export const LOW_CONFIDENCE = 0.8;
+const HIGH_CONFIDENCE = 0.95;
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low' | 'unknown';
+
+/** Shared by the canvas overlay and the lists, so a color means the same thing everywhere. */
+export const CONFIDENCE_COLORS: Record<ConfidenceLevel, string> = {
+  high: '#22c55e',
+  medium: '#f59e0b',
+  low: '#ef4444',
+  unknown: '#3b82f6'
+};
+
+export const scoreLevel = (score: number): ConfidenceLevel =>
+  score >= HIGH_CONFIDENCE ? 'high' : score >= LOW_CONFIDENCE ? 'medium' : 'low';
+
+export const confidenceLevel = (region: TextRegion): ConfidenceLevel => {
+  if (region.verified) return 'high';
+  if (region.confidence === undefined) return 'unknown';
+  // Flagged characters cap a region at 'medium' however high its overall score.
+  const level = scoreLevel(region.confidence);
+  return level === 'high' && region.uncertain?.length ? 'medium' : level;
+};
+
+/** Extracted, not yet proof-read, and either scored low or carrying flagged characters. */
+export const needsReview = (region: TextRegion): boolean =>
+  region.isActive &&
+  region.extractedText !== undefined &&
+  !region.verified &&
+  ((region.confidence ?? 1) < LOW_CONFIDENCE || (region.uncertain?.length ?? 0) > 0);
+
+/**
+ * Regions to proof-read, in document reading order.
+ * (Sorted here rather than via documentService, which pulls in pdf.js and
+ * would break the providers' use of this module on the server.)
+ */
+export const reviewQueue = (regions: TextRegion[]): TextRegion[] =>
+  regions.filter(needsReview).sort((a, b) => a.pageIndex - b.pageIndex || a.order - b.order);
+
+/**
+ * Finds where each flagged fragment sits in the text. Fragments are searched
+ * in order from the previous match (so repeated words map to the right one),
+ * falling back to the first occurrence. Overlaps are merged.
+ */
+export const locateSpans = (text: string, fragments: string[]): UncertainSpan[] => {
+  const spans: UncertainSpan[] = [];
+  let cursor = 0;
+  for (const fragment of fragments) {
+    if (!fragment) continue;
+    let start = text.indexOf(fragment, cursor);
+    if (start === -1) start = text.indexOf(fragment);
+    if (start === -1) continue;
+    spans.push({ start, end: start + fragment.length });
+    cursor = start + fragment.length;
+  }
+
+  spans.sort((a, b) => a.start - b.start);
+  const merged: UncertainSpan[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) last.end = Math.max(last.end, span.end);
+    else merged.push({ ...span });
+  }
+  return merged;
+};
+
+/**
+ * Spreads per-line scores over the text's lines. Blank lines are certain;
+ * if the engine returned fewer scores than lines, the rest get 'fallback'.
+ */
+export const alignLineConfidence = (text: string, scores: number[], fallback: number): number[] => {
+  let next = 0;
+  return text.split('\n').map(line => line.trim() ? (scores[next++] ?? fallback) : 1);
+};
+
+/** Cuts text into plain and uncertain segments for highlighting. */
+export const splitBySpans = (text: string, spans: UncertainSpan[] = []): { text: string; uncertain: boolean }[] => {
+  const segments: { text: string; uncertain: boolean }[] = [];
+  let cursor = 0;
+  for (const { start, end } of spans) {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), uncertain: false });
+    if (end > start) segments.push({ text: text.slice(start, end), uncertain: true });
+    cursor = Math.max(cursor, end);
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), uncertain: false });
+  return segments;
+};
+
+/** Stores a proof-read text and marks the region verified. */
+export const verifyRegion = (regions: TextRegion[], id: string, text: string): TextRegion[] =>
+  updateRegionText(regions, id, text).map(r => r.id === id ? { ...r, confidence: 1, verified: true } : r);
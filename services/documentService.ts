@@ -0,0 +1,123 @@
+import { DocumentPage, RegionResultMap, TextRegion } from "../types";
+
+/**
+ * DOCUMENT LOADER
+ * Python Analogy: Like 'pdf2image.convert_from_bytes' + PIL, turning whatever
+ * the user dropped in into a flat list of page images.
+ *
+ * Everything happens client-side; PDFs are rasterized with pdf.js so the OCR
+ * providers only ever have to deal with images.
+ */
+// 2x gives ~144 DPI for a standard PDF page: sharp enough for OCR, small enough to upload.
+const PDF_RENDER_SCALE = 2;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// pdf.js is large and needs a browser, so it is only loaded once a PDF is opened.
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([import("pdfjs-dist"), import("pdfjs-dist/build/pdf.worker.min.mjs?url")]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+const rasterizePdf = async (file: File): Promise<DocumentPage[]> => {
+  const { getDocument } = await loadPdfJs();
+  const pdf = await getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: DocumentPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+
+      await page.render({ canvas, viewport }).promise;
+      pages.push({
+        id: newId(),
+        image: canvas.toDataURL('image/png'),
+        sourceName: `${file.name} · p${pageNumber}`
+      });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
+
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+/**
+ * Expands the selected files into pages, preserving selection order.
+ * Unsupported files are skipped rather than failing the whole upload.
+ */
+export const loadDocumentPages = async (files: File[]): Promise<DocumentPage[]> => {
+  const pages: DocumentPage[] = [];
+
+  for (const file of files) {
+    if (isPdf(file)) {
+      pages.push(...await rasterizePdf(file));
+    } else if (file.type.startsWith('image/')) {
+      pages.push({ id: newId(), image: await readAsDataUrl(file), sourceName: file.name });
+    }
+  }
+
+  return pages;
+};
+
+const pageHeader = (pageNumber: number) => `--- Page ${pageNumber} ---`;
+
+/**
+ * Rebuilds the document text from the per-region results already stored on
+ * the regions, following the current order and active flags. Because nothing
+ * is re-scanned, users can reorder or exclude regions after extraction for free.
+ *
+ * Pages are marked with a header; single-page documents get no markers.
+ */
+export const buildDocumentText = (regions: TextRegion[], pageCount: number): string => {
+  const pageTexts: { pageIndex: number; text: string }[] = [];
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const text = regionsForPage(regions, pageIndex)
+      .filter(r => r.isActive && r.extractedText)
+      .map(r => r.extractedText)
+      .join('\n\n');
+    if (text.trim().length > 0) pageTexts.push({ pageIndex, text });
+  }
+
+  if (pageCount <= 1) return pageTexts.map(p => p.text).join('\n\n');
+
+  return pageTexts
+    .map(p => `${pageHeader(p.pageIndex + 1)}\n\n${p.text}`)
+    .join('\n\n');
+};
+
+/** Stores provider results on their regions; regions not in the map are untouched. */
+export const applyRegionResults = (regions: TextRegion[], results: RegionResultMap): TextRegion[] =>
+  regions.map(r => {
+    if (!(r.id in results)) return r;
+    const { text, table, confidence, lineConfidence, uncertain, language, codeLanguage, cached } = results[r.id];
+    // A fresh scan replaces any earlier proof-reading.
+    return { ...r, extractedText: text, table, confidence, lineConfidence, uncertain, language, codeLanguage, cached, verified: false, transform: undefined };
+  });
+
+/** Active regions that have not been through OCR yet (and would cost a scan). */
+export const pendingRegions = (regions: TextRegion[]): TextRegion[] =>
+  regions.filter(r => r.isActive && r.extractedText === undefined);
+
+/** Regions of a single page, in reading order. */
+export const regionsForPage = (regions: TextRegion[], pageIndex: number): TextRegion[] =>
+  regions
+    .filter(r => r.pageIndex === pageIndex)
+    .sort((a, b) => a.order - b.order);
@@ -0,0 +1,129 @@
+import { Point, Quad } from "../types";
+
+/**
+ * DOCUMENT EDGE DETECTION
+ * Python Analogy: The classic "scan a receipt with OpenCV" recipe (threshold,
+ * largest contour, four extreme corners), cut down to what runs at several
+ * frames per second on a phone without any library.
+ *
+ * Assumes a sheet of paper that is brighter than what it lies on, which is the
+ * usual case (white page on a desk). Works on a small copy of the frame; the
+ * returned corners are in the 0-1000 grid, so they apply to the full-size capture.
+ */
+const ANALYSIS_SIZE = 320;
+
+/** A detected page must cover at least this share of the frame... */
+const MIN_AREA_RATIO = 0.15;
+/** ...and not all of it (then it's just the table or a wall). */
+const MAX_AREA_RATIO = 0.97;
+
+const otsu = (grey: Uint8Array) => {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < grey.length; i++) histogram[grey[i]]++;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+  let sumB = 0, weightB = 0, best = 127, bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    weightB += histogram[t];
+    if (weightB === 0) continue;
+    const weightF = grey.length - weightB;
+    if (weightF === 0) break;
+    sumB += t * histogram[t];
+    const variance = weightB * weightF * (sumB / weightB - (sumAll - sumB) / weightF) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+/** Labels the biggest 4-connected bright blob; returns its pixel indices. */
+const largestComponent = (mask: Uint8Array, width: number, height: number): Int32Array | null => {
+  const seen = new Uint8Array(mask.length);
+  const queue = new Int32Array(mask.length);
+  let best: Int32Array | null = null;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    let head = 0, tail = 0;
+    queue[tail++] = start;
+    seen[start] = 1;
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width, y = (i - x) / width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, y > 0 ? i - width : -1, y < height - 1 ? i + width : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !seen[n]) {
+          seen[n] = 1;
+          queue[tail++] = n;
+        }
+      }
+    }
+    if (!best || tail > best.length) best = queue.slice(0, tail);
+  }
+  return best;
+};
+
+const quadArea = (quad: Point[]) => {
+  let area = 0;
+  for (let i = 0; i < quad.length; i++) {
+    const a = quad[i], b = quad[(i + 1) % quad.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+};
+
+/**
+ * Finds the page in a video frame (or any image source), or null when there
+ * is no convincing page-shaped bright area.
+ */
+export const detectDocumentQuad = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): Quad | null => {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  // A light blur keeps text on the page from punching holes in the mask.
+  ctx.filter = 'blur(2px)';
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const grey = new Uint8Array(width * height);
+  for (let i = 0; i < grey.length; i++) grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  const threshold = otsu(grey);
+  const mask = new Uint8Array(grey.length);
+  for (let i = 0; i < grey.length; i++) mask[i] = grey[i] > threshold ? 1 : 0;
+
+  const blob = largestComponent(mask, width, height);
+  if (!blob || blob.length < width * height * MIN_AREA_RATIO) return null;
+
+  // Extreme points along the diagonals are the corners of a roughly upright quad.
+  let tl = 0, tr = 0, br = 0, bl = 0;
+  let minSum = Infinity, maxSum = -Infinity, maxDiff = -Infinity, minDiff = Infinity;
+  for (let k = 0; k < blob.length; k++) {
+    const i = blob[k];
+    const x = i % width, y = (i - x) / width;
+    if (x + y < minSum) { minSum = x + y; tl = i; }
+    if (x + y > maxSum) { maxSum = x + y; br = i; }
+    if (x - y > maxDiff) { maxDiff = x - y; tr = i; }
+    if (x - y < minDiff) { minDiff = x - y; bl = i; }
+  }
+
+  const toGrid = (i: number): Point => {
+    const x = i % width, y = (i - x) / width;
+    return { x: Math.round((x + 0.5) / width * 1000), y: Math.round((y + 0.5) / height * 1000) };
+  };
+  const quad: Quad = [toGrid(tl), toGrid(tr), toGrid(br), toGrid(bl)];
+
+  const areaRatio = quadArea(quad) / (1000 * 1000);
+  if (areaRatio < MIN_AREA_RATIO || areaRatio > MAX_AREA_RATIO) return null;
+  return quad;
+};
+
+/** Largest corner movement between two detections, in grid units. */
+export const quadDistance = (a: Quad, b: Quad) =>
+  Math.max(...a.map((p, i) => Math.hypot(p.x - b[i].x, p.y - b[i].y)));
@@ -0,0 +1,11 @@
+/**
+ * ENGINE VERSIONS
+ * Python Analogy: A constants module, so the browser-side and the proxied
+ * Gemini providers share one value without either importing the other (and
+ * server mode never bundles the Gemini SDK just to read a string).
+ *
+ * Cached results carry their provider's version (see resultCache).
+ */
+
+/** Bump when a Gemini model or prompt in geminiService changes. */
+export const GEMINI_VERSION = 'gemini-3/1';
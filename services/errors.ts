@@ -0,0 +1,51 @@
+/**
+ * SHARED ERRORS
+ * Python Analogy: A module of custom Exception subclasses that callers can
+ * catch selectively (except InsufficientCreditsError: ...).
+ */
+export class InsufficientCreditsError extends Error {
+  constructor(public required: number) {
+    super(`Needs ${required} credit${required === 1 ? '' : 's'}`);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+/** What went wrong with a call to an engine or the backend, in terms the UI can act on. */
+export type RequestErrorKind =
+  | 'quota' | 'safety' | 'invalid_image' | 'auth' | 'network'
+  | 'timeout' | 'server' | 'bad_response' | 'cancelled' | 'unknown';
+
+export class RequestError extends Error {
+  constructor(public kind: RequestErrorKind, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+// What the user can do about each kind; 'unknown' falls back to the caller's own message.
+const ADVICE: Record<RequestErrorKind, string> = {
+  quota: "Gemini's rate limit or quota was reached. Wait a minute and try again, or switch to the offline engine.",
+  safety: 'Gemini declined to read this page on safety grounds. Try the offline engine for it.',
+  invalid_image: 'The page image could not be read. Re-upload it as a JPEG or PNG, or crop it in page preparation.',
+  auth: 'The Gemini API key was rejected. Check the key (or GEMINI_API_KEY on the server).',
+  network: "Can't reach the service. Check your connection and try again.",
+  timeout: 'The request took too long and was stopped. Try again, or scan fewer regions at a time.',
+  server: 'The OCR service is having trouble right now. Try again in a few minutes.',
+  bad_response: 'The model returned an unreadable answer. Try again.',
+  cancelled: 'Cancelled.',
+  unknown: '',
+};
+
+/** The same request may well succeed a moment later. */
+const RETRYABLE: RequestErrorKind[] = ['quota', 'network', 'timeout', 'server', 'bad_response'];
+
+export const isRequestErrorKind = (value: unknown): value is RequestErrorKind =>
+  typeof value === 'string' && value in ADVICE;
+
+export const isRetryable = (error: unknown) => error instanceof RequestError && RETRYABLE.includes(error.kind);
+
+export const isCancelled = (error: unknown) => error instanceof RequestError && error.kind === 'cancelled';
+
+/** An actionable message for any thrown value; 'fallback' covers errors we can't explain. */
+export const describeError = (error: unknown, fallback: string): string =>
+  (error instanceof RequestError && ADVICE[error.kind]) || fallback;
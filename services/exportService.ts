@@ -0,0 +1,337 @@
+import { zipSync, strToU8 } from "fflate";
+import { jsPDF } from "jspdf";
+import { DocumentPage, TextRegion } from "../types";
+import { buildDocumentText, regionsForPage } from "./documentService";
+import { loadImageSize } from "./imageUtils";
+import { NamedTable, tablesToCsv, tablesToXlsx } from "./spreadsheetService";
+import { findLanguage, isRightToLeft } from "./scanOptions";
+import { toFencedCode, toMathMarkdown } from "./notationService";
+
+/**
+ * EXPORT SUBSYSTEM
+ * Python Analogy: A dict of writer functions, one per output format, each
+ * turning the same document model into bytes (like 'python-docx', 'json.dump'...).
+ *
+ * Every writer works from the per-region results stored on the regions, so
+ * exports always reflect the current order and active flags. Formats that can
+ * carry a language (DOCX, hOCR, JSON) tag each region with its own, so mixed
+ * pages keep right-to-left text and spell-checking correct. Math regions hold
+ * LaTeX and code regions keep their indentation; Markdown embeds them as $$
+ * blocks and fenced code, DOCX sets both in a monospace font.
+ */
+export type ExportFormat = 'txt' | 'md' | 'docx' | 'json' | 'hocr' | 'pdf' | 'csv' | 'xlsx';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** Only meaningful when the document has extracted 'table' regions. */
+  tablesOnly?: boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { id: 'txt', label: 'Plain Text', extension: 'txt', mimeType: 'text/plain' },
+  { id: 'md', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'docx', label: 'Word (DOCX)', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  { id: 'json', label: 'JSON (Regions)', extension: 'json', mimeType: 'application/json' },
+  { id: 'hocr', label: 'hOCR', extension: 'hocr', mimeType: 'text/html' },
+  { id: 'pdf', label: 'Searchable PDF', extension: 'pdf', mimeType: 'application/pdf' },
+  { id: 'csv', label: 'Tables (CSV)', extension: 'csv', mimeType: 'text/csv', tablesOnly: true },
+  { id: 'xlsx', label: 'Tables (Excel)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', tablesOnly: true },
+];
+
+export interface ExportSource {
+  pages: DocumentPage[];
+  regions: TextRegion[];
+}
+
+/** Regions that made it into the output, page by page, in reading order. */
+const exportedRegions = (source: ExportSource, pageIndex: number): TextRegion[] =>
+  regionsForPage(source.regions, pageIndex).filter(r => r.isActive && r.extractedText !== undefined);
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const textLines = (text: string) => text.split(/\r?\n/);
+
+/** Every extracted table in reading order, named by page and position ("P1-T2"). */
+export const collectTables = (source: ExportSource): NamedTable[] =>
+  source.pages.flatMap((_, pageIndex) =>
+    exportedRegions(source, pageIndex)
+      .filter(r => r.table && r.table.length > 0)
+      .map((r, i) => ({ name: `P${pageIndex + 1}-T${i + 1}`, rows: r.table! }))
+  );
+
+// --- Text formats ---
+
+const markdownCell = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const markdownTable = (rows: string[][]) => {
+  const width = Math.max(...rows.map(row => row.length));
+  // GFM needs every row to have the same number of cells.
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const line = (row: string[]) => `| ${pad(row).map(markdownCell).join(' | ')} |`;
+  return [line(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(line)].join('\n');
+};
+
+const markdownBlock = (r: TextRegion) => {
+  if (r.table && r.table.length > 0) return markdownTable(r.table);
+  if (r.kind === 'heading') return `### ${textLines(r.extractedText!).join(' ')}`;
+  if (r.kind === 'math') return toMathMarkdown(r.extractedText!);
+  if (r.kind === 'code') return toFencedCode(r.extractedText!, r.codeLanguage);
+  // Two trailing spaces force a Markdown hard break, keeping the OCR line structure.
+  return textLines(r.extractedText!).join('  \n');
+};
+
+const toMarkdown = (source: ExportSource): string => {
+  const multiPage = source.pages.length > 1;
+  const sections = source.pages.map((_, pageIndex) => {
+    const blocks = exportedRegions(source, pageIndex).map(markdownBlock);
+    if (blocks.length === 0) return '';
+    return multiPage ? [`## Page ${pageIndex + 1}`, ...blocks].join('\n\n') : blocks.join('\n\n');
+  });
+  return sections.filter(Boolean).join('\n\n') + '\n';
+};
+
+const toJson = (source: ExportSource): string =>
+  JSON.stringify({
+    pages: source.pages.map((page, pageIndex) => ({
+      index: pageIndex,
+      sourceName: page.sourceName,
+      regions: regionsForPage(source.regions, pageIndex).map(r => ({
+        id: r.id,
+        order: r.order,
+        description: r.description,
+        isActive: r.isActive,
+        kind: r.kind,
+        box: r.box,
+        text: r.extractedText ?? null,
+        table: r.table ?? null,
+        language: r.language ?? null,
+        codeLanguage: r.codeLanguage ?? null
+      }))
+    }))
+  }, null, 2);
+
+// --- DOCX (a zip of WordprocessingML parts) ---
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+const DOCX_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+/** Word keeps separate language slots for Latin, East Asian and right-to-left ("bidi") scripts. */
+const docxLanguage = (language?: string) => {
+  if (!language) return '';
+  const script = findLanguage(language)?.script;
+  if (isRightToLeft(language)) return `<w:rtl/><w:lang w:bidi="${language}"/>`;
+  if (script === 'Han' || script === 'Kana' || script === 'Hangul') return `<w:lang w:eastAsia="${language}"/>`;
+  return `<w:lang w:val="${language}"/>`;
+};
+
+const DOCX_MONOSPACE = '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>';
+
+const docxParagraph = (text: string, language?: string, monospace = false) => {
+  const runs = textLines(text)
+    .map((line, i) => `${i > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('');
+  const paragraphProps = isRightToLeft(language) ? '<w:pPr><w:bidi/></w:pPr>' : '';
+  const runProps = `${monospace ? DOCX_MONOSPACE : ''}${docxLanguage(language)}`;
+  return `<w:p>${paragraphProps}<w:r>${runProps ? `<w:rPr>${runProps}</w:rPr>` : ''}${runs}</w:r></w:p>`;
+};
+
+const docxTable = (rows: string[][], language?: string) => {
+  const cell = (text: string) => `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${docxParagraph(text, language)}</w:tc>`;
+  const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+    .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`)
+    .join('');
+  return `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${borders}</w:tblBorders></w:tblPr>${
+    rows.map(row => `<w:tr>${row.map(cell).join('')}</w:tr>`).join('')
+  }</w:tbl><w:p/>`;
+};
+
+const docxBlock = (r: TextRegion) => {
+  if (r.table && r.table.length > 0) return docxTable(r.table, r.language);
+  // Word has no LaTeX input, so formulas are kept as their source, like code.
+  return docxParagraph(r.extractedText!, r.language, r.kind === 'code' || r.kind === 'math');
+};
+
+const DOCX_PAGE_BREAK = '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+const toDocx = (source: ExportSource): Uint8Array => {
+  const body = source.pages
+    .map((_, pageIndex) => exportedRegions(source, pageIndex).map(docxBlock).join(''))
+    .filter(Boolean)
+    .join(DOCX_PAGE_BREAK);
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(DOCX_CONTENT_TYPES),
+    '_rels/.rels': strToU8(DOCX_RELS),
+    'word/document.xml': strToU8(documentXml)
+  });
+};
+
+// --- Layout-aware formats (need real pixel sizes) ---
+
+type PixelBox = { x0: number; y0: number; x1: number; y1: number };
+
+const toPixels = (r: TextRegion, size: { width: number; height: number }): PixelBox => ({
+  x0: Math.round((r.box.xmin / 1000) * size.width),
+  y0: Math.round((r.box.ymin / 1000) * size.height),
+  x1: Math.round((r.box.xmax / 1000) * size.width),
+  y1: Math.round((r.box.ymax / 1000) * size.height)
+});
+
+/**
+ * We only know each region's box, not each line's, so lines are laid out as
+ * equal horizontal bands of the region. Good enough for search and selection.
+ */
+const lineBands = (box: PixelBox, lineCount: number): PixelBox[] => {
+  const height = (box.y1 - box.y0) / Math.max(1, lineCount);
+  return Array.from({ length: lineCount }, (_, i) => ({
+    x0: box.x0,
+    y0: Math.round(box.y0 + i * height),
+    x1: box.x1,
+    y1: Math.round(box.y0 + (i + 1) * height)
+  }));
+};
+
+const bboxTitle = (b: PixelBox) => `bbox ${b.x0} ${b.y0} ${b.x1} ${b.y1}`;
+
+const toHocr = async (source: ExportSource): Promise<string> => {
+  const pageBlocks: string[] = [];
+
+  for (let pageIndex = 0; pageIndex < source.pages.length; pageIndex++) {
+    const size = await loadImageSize(source.pages[pageIndex].image);
+    const areas = exportedRegions(source, pageIndex).map(r => {
+      const box = toPixels(r, size);
+      const lines = textLines(r.extractedText!);
+      const lineSpans = lineBands(box, lines.length).map((band, i) =>
+        `<span class="ocr_line" id="line_${r.id}_${i + 1}" title="${bboxTitle(band)}">${escapeXml(lines[i])}</span>`
+      ).join('\n');
+      return `<div class="ocr_carea" id="block_${r.id}" title="${bboxTitle(box)}">
+<p class="ocr_par" id="par_${r.id}"${r.language ? ` lang="${escapeXml(r.language)}"` : ''}${isRightToLeft(r.language) ? ' dir="rtl"' : ''} title="${bboxTitle(box)}">
+${lineSpans}
+</p>
+</div>`;
+    });
+
+    pageBlocks.push(`<div class="ocr_page" id="page_${pageIndex + 1}" title="image &quot;${escapeXml(source.pages[pageIndex].sourceName)}&quot;; bbox 0 0 ${size.width} ${size.height}; ppageno ${pageIndex}">
+${areas.join('\n')}
+</div>`);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">
+<head>
+<title></title>
+<meta http-equiv="Content-Type" content="text/html; charset=utf-8" />
+<meta name="ocr-system" content="smart-lens-ocr" />
+<meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line" />
+</head>
+<body>
+${pageBlocks.join('\n')}
+</body>
+</html>
+`;
+};
+
+/**
+ * Searchable PDF: each page is the original image with an invisible text layer
+ * (PDF render mode 3) placed over the region boxes, one line per band.
+ * Uses the built-in Helvetica, so non-Latin scripts won't be selectable.
+ */
+const toSearchablePdf = async (source: ExportSource): Promise<Blob> => {
+  let doc: jsPDF | null = null;
+
+  for (let pageIndex = 0; pageIndex < source.pages.length; pageIndex++) {
+    const page = source.pages[pageIndex];
+    const size = await loadImageSize(page.image);
+    // One image pixel = one PDF point, so region pixel boxes map 1:1 onto the page.
+    const format: [number, number] = [size.width, size.height];
+    const orientation = size.width > size.height ? 'landscape' : 'portrait';
+
+    if (!doc) doc = new jsPDF({ unit: 'pt', format, orientation });
+    else doc.addPage(format, orientation);
+
+    doc.addImage(page.image, 0, 0, size.width, size.height);
+
+    for (const region of exportedRegions(source, pageIndex)) {
+      const box = toPixels(region, size);
+      const lines = textLines(region.extractedText!);
+      lineBands(box, lines.length).forEach((band, i) => {
+        if (!lines[i].trim()) return;
+        const fontSize = Math.max(1, (band.y1 - band.y0) * 0.8);
+        doc!.setFontSize(fontSize);
+        // Stretch each line to its box width so selection highlights match the image.
+        const naturalWidth = doc!.getTextWidth(lines[i]);
+        doc!.text(lines[i], band.x0, band.y1 - (band.y1 - band.y0) * 0.2, {
+          renderingMode: 'invisible',
+          horizontalScale: naturalWidth > 0 ? (band.x1 - band.x0) / naturalWidth : 1
+        });
+      });
+    }
+  }
+
+  return (doc ?? new jsPDF()).output('blob');
+};
+
+/** Renders the document in the chosen format, ready to hand to 'downloadBlob'. */
+export const exportDocument = async (format: ExportFormat, source: ExportSource): Promise<Blob> => {
+  const info = EXPORT_FORMATS.find(f => f.id === format)!;
+
+  switch (format) {
+    case 'txt':
+      return new Blob([buildDocumentText(source.regions, source.pages.length)], { type: info.mimeType });
+    case 'md':
+      return new Blob([toMarkdown(source)], { type: info.mimeType });
+    case 'docx':
+      return new Blob([toDocx(source)], { type: info.mimeType });
+    case 'json':
+      return new Blob([toJson(source)], { type: info.mimeType });
+    case 'hocr':
+      return new Blob([await toHocr(source)], { type: info.mimeType });
+    case 'pdf':
+      return toSearchablePdf(source);
+    case 'csv':
+      return new Blob([tablesToCsv(collectTables(source))], { type: info.mimeType });
+    case 'xlsx':
+      return new Blob([tablesToXlsx(collectTables(source))], { type: info.mimeType });
+  }
+};
+
+/** File name for an export, based on the first page's source file. */
+export const exportFileName = (format: ExportFormat, source: ExportSource): string => {
+  const info = EXPORT_FORMATS.find(f => f.id === format)!;
+  const firstName = source.pages[0]?.sourceName.split(' · ')[0] || 'extraction';
+  const base = firstName.replace(/\.[^.]+$/, '') || 'extraction';
+  return `${base}.${info.extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a tick to start the download before revoking.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
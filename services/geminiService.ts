@@ -1,6 +1,18 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { BoundingBox, TextRegion } from "../types";
+import { BlockedReason, FinishReason, GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { BoundingBox, FieldValue, FormTemplate, REGION_KINDS, RegionKind, RegionResult, RegionResultMap, ScanOptions, TextRegion } from "../types";
+import { tableToText } from "./spreadsheetService";
+import { coerceFieldValue } from "./templateService";
+import { mimeTypeFromBase64 } from "./imageUtils";
+import { alignLineConfidence, locateSpans } from "./confidenceService";
+import { DEFAULT_SCAN_OPTIONS, describeLanguages, guessLanguage } from "./scanOptions";
+import { detectCodeLanguage, normalizeCodeLanguage, stripMathDelimiters, trimCode } from "./notationService";
+import { RequestError } from "./errors";
+import { withRetry } from "./requestPolicy";
+import { createJsonArrayReader } from "./jsonStream";
+import { GEMINI_VERSION } from "./engineVersions";
+import type { OcrProvider } from "./ocrProvider";
+import type { ModelTransformAction } from "./postProcessService";
 
 /**
  * SERVICE LAYER
@@ -8,27 +20,98 @@ import { BoundingBox, TextRegion } from "../types";
  * 
  * We initialize the client inside the functions to ensure we always use
  * the most recent API key selected by the user in the AI Studio environment.
+ *
+ * Every call goes through 'withRetry' (timeouts, backoff, cancellation), and
+ * failures surface as typed RequestErrors rather than raw SDK exceptions.
  */
 const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+// Per attempt. Extraction runs the pro model with a thinking budget, so it gets the longest.
+const DETECT_TIMEOUT_MS = 60_000;
+const EXTRACT_TIMEOUT_MS = 180_000;
+const FIELDS_TIMEOUT_MS = 60_000;
+const TRANSFORM_TIMEOUT_MS = 90_000;
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII, FinishReason.IMAGE_SAFETY
+];
+
+const requireImage = (base64Image: string) => {
+  if (!base64Image) throw new RequestError('invalid_image', 'No image data');
+  return base64Image;
+};
+
+/** Throws when Gemini refused the prompt or stopped answering on safety grounds (also per streamed chunk). */
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if ((blockReason && blockReason !== BlockedReason.BLOCKED_REASON_UNSPECIFIED) || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new RequestError('safety', `Blocked by Gemini (${blockReason ?? finishReason})`);
+  }
+};
+
+/**
+ * The model's JSON array, or a typed error when it refused the request or
+ * returned something unparseable (e.g. cut off at the token limit).
+ */
+const parseJsonArray = (response: GenerateContentResponse): any[] => {
+  throwIfBlocked(response);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  try {
+    const parsed = JSON.parse(response.text || "[]");
+    if (Array.isArray(parsed)) return parsed;
+  } catch {
+    // Falls through to the error below.
+  }
+  throw new RequestError('bad_response', `Gemini returned malformed JSON (finish reason: ${finishReason ?? 'none'})`);
+};
+
+/** Clamps a detected box onto the 0-1000 grid; null for non-numeric, inverted or empty boxes. */
+const toGridBox = (raw: any): BoundingBox | null => {
+  const coords = [raw?.ymin, raw?.xmin, raw?.ymax, raw?.xmax];
+  if (!coords.every(v => typeof v === 'number' && Number.isFinite(v))) return null;
+  const [ymin, xmin, ymax, xmax] = coords.map(v => Math.min(1000, Math.max(0, Math.round(v))));
+  return ymax > ymin && xmax > xmin ? { ymin, xmin, ymax, xmax } : null;
+};
+
+/** The scan's language hint as a prompt line, or nothing when the language is left to the model. */
+const languageHint = (options: ScanOptions) => {
+  const languages = describeLanguages(options);
+  return languages ? `The document is expected to be in: ${languages}.` : '';
+};
+
 /**
  * Phase 1: Layout Analysis
  * Uses 'gemini-3-flash-preview' for speed and cost-efficiency.
  * It's perfect for "Basic Text Tasks" like finding boxes.
  */
-export const detectRegions = async (base64Image: string): Promise<TextRegion[]> => {
+export const detectRegions = async (
+  base64Image: string,
+  pageIndex = 0,
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS,
+  signal?: AbortSignal
+): Promise<TextRegion[]> => {
   const ai = getClient();
   
   const prompt = `Identify all major blocks of text in this image. 
+  ${languageHint(options)}
+  ${options.handwriting ? `The page is handwritten or annotated by hand. Include handwritten blocks,
+  margin notes and annotations as their own regions, even where the writing is faint or slanted.` : ''}
   
   Grouping Rule: Do not separate individual paragraphs if they are clearly one after another. 
   Group adjacent paragraphs into a single logical region. Only create separate regions when 
   there are clear, wide separations.
   
+  Classify every region as one of: ${REGION_KINDS.join(', ')}.
+  Tables (invoices, statements, any grid of rows and columns) must always be their own
+  region covering the whole table, never grouped with the paragraphs around them.
+  Displayed equations and formulas are 'math', source code, terminal sessions and config files are 'code';
+  both get their own region, apart from the prose around them. Inline formulas stay in their paragraph.
+  
   Coordinates must be in normalized range (0 to 1000).`;
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await withRetry(abortSignal => ai.models.generateContent({
       model: 'gemini-3-flash-preview',
       contents: [
         {
@@ -36,14 +119,15 @@ export const detectRegions = async (base64Image: string): Promise<TextRegion[]>
             { text: prompt },
             {
               inlineData: {
-                mimeType: 'image/png',
-                data: base64Image
+                mimeType: mimeTypeFromBase64(base64Image),
+                data: requireImage(base64Image)
               }
             }
           ]
         }
       ],
       config: {
+        abortSignal,
         responseMimeType: "application/json",
         // 'responseSchema' is like a Pydantic model for the AI's output.
         // It guarantees the AI returns valid JSON matching this structure.
@@ -53,48 +137,141 @@ export const detectRegions = async (base64Image: string): Promise<TextRegion[]>
             type: Type.OBJECT,
             properties: {
               description: { type: Type.STRING },
+              kind: { type: Type.STRING, enum: REGION_KINDS },
               ymin: { type: Type.NUMBER },
               xmin: { type: Type.NUMBER },
               ymax: { type: Type.NUMBER },
               xmax: { type: Type.NUMBER }
             },
-            required: ["description", "ymin", "xmin", "ymax", "xmax"]
+            required: ["description", "kind", "ymin", "xmin", "ymax", "xmax"]
           }
         }
       }
-    });
+    }), { timeoutMs: DETECT_TIMEOUT_MS, signal });
 
-    const jsonStr = response.text || "[]";
-    const rawRegions = JSON.parse(jsonStr);
-
-    // Map raw AI output to our internal TextRegion model
-    return rawRegions.map((r: any, index: number) => ({
-      id: Math.random().toString(36).substr(2, 9),
-      description: r.description,
-      box: {
-        ymin: r.ymin,
-        xmin: r.xmin,
-        ymax: r.ymax,
-        xmax: r.xmax
-      },
-      order: index + 1,
-      isActive: true
-    }));
+    // Map raw AI output to our internal TextRegion model; boxes we can't use are dropped.
+    return parseJsonArray(response)
+      .map((r: any) => ({ r, box: toGridBox(r) }))
+      .filter((entry): entry is { r: any; box: BoundingBox } => entry.box !== null)
+      .map(({ r, box }, index) => ({
+        id: Math.random().toString(36).substr(2, 9),
+        description: typeof r.description === 'string' ? r.description : '',
+        kind: REGION_KINDS.includes(r.kind) ? r.kind as RegionKind : 'paragraph',
+        box,
+        order: index + 1,
+        isActive: true,
+        pageIndex
+      }));
   } catch (error: any) {
     console.error("Error detecting regions:", error);
     throw error;
   }
 };
 
+interface RawRegionResult {
+  id: string;
+  text: string;
+  confidence?: number;
+  lineConfidence?: number[];
+  uncertain?: string[];
+  rows?: { cells: string[] }[];
+  language?: string;
+  codeLanguage?: string;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** The model's self-assessment, clamped to 0-1 and turned into character spans. */
+const scoreRawResult = (raw: RawRegionResult, text: string): Pick<RegionResult, 'confidence' | 'lineConfidence' | 'uncertain'> => {
+  const confidence = clamp01(raw.confidence ?? 1);
+  return {
+    confidence,
+    lineConfidence: alignLineConfidence(text, (raw.lineConfidence ?? []).map(clamp01), confidence),
+    uncertain: locateSpans(text, raw.uncertain ?? [])
+  };
+};
+
+/** The extraction prompt for a set of regions (all of a page's, or the ones a retry still needs). */
+const extractionPrompt = (activeRegions: TextRegion[], options: ScanOptions) => {
+  const regionsDescription = activeRegions.map((r) => 
+    `Region id "${r.id}" (${r.kind}): coordinates [${r.box.ymin}, ${r.box.xmin}, ${r.box.ymax}, ${r.box.xmax}]`
+  ).join('\n');
+
+  return `Perform OCR on the provided image for each of the regions below.
+  Return exactly one entry per region, using its id, containing only the text inside that region.
+  Never merge the text of different regions into a single entry.
+  For regions marked (table), also fill 'rows': one entry per table row (header row first),
+  each with its cells left to right. Keep empty cells as empty strings so columns stay aligned.
+  For regions marked (math), write 'text' as LaTeX (amsmath), without $ or \\[ delimiters,
+  separating equations with one blank line.
+  For regions marked (code), copy the code character for character, keeping its indentation as spaces
+  and its line breaks, and set 'codeLanguage' to the programming language in lowercase (e.g. "python", "sql").
+
+  Rate how sure you are of each entry honestly, from 0 (guess) to 1 (certain):
+  'confidence' for the whole region, 'lineConfidence' with one score per non-empty line of 'text',
+  and list in 'uncertain' the exact words or characters, copied from 'text', that you could not read clearly
+  (blurred, faded, handwritten, ambiguous like 0/O or 1/l). Leave 'uncertain' empty when everything is clear.
+
+  Transcribe every region in its original language and script; never translate or transliterate.
+  Set 'language' to the ISO 639-1 code of the region's main language (e.g. "en", "ar", "zh").
+  ${languageHint(options)}
+  ${options.handwriting ? `The text is handwritten. Transcribe it exactly as written, keeping the writer's spelling,
+  abbreviations and punctuation; do not correct or modernize it.` : ''}
+  ${options.lineBreaks === 'reflow'
+    ? `Reflow paragraphs: join the lines of a paragraph with spaces, rejoin words hyphenated across a line end,
+  and separate paragraphs with one blank line. Keep table rows and list items on their own lines,
+  and never reflow math or code regions.`
+    : 'Keep the line breaks exactly as they appear on the page.'}
+  
+  Regions to process:
+  ${regionsDescription}`;
+};
+
+/** Turns one raw entry from the model into a RegionResult, shaped by the region's kind. */
+const toRegionResult = (region: TextRegion, raw: RawRegionResult, options: ScanOptions): RegionResult => {
+  // Anything that isn't a plausible ISO 639 code is replaced by a guess from the script.
+  const languageOf = (text: string) => {
+    const code = raw.language?.trim().toLowerCase();
+    return code && /^[a-z]{2,3}$/.test(code) ? code : guessLanguage(text, options.languages);
+  };
+  if (region.kind === 'table' && raw.rows?.length) {
+    const table = raw.rows.map(row => row.cells);
+    const text = tableToText(table);
+    return { text, table, language: languageOf(text), ...scoreRawResult(raw, text) };
+  }
+  // LaTeX and code are not written in a natural language, so they carry no 'language'.
+  if (region.kind === 'math') {
+    const text = stripMathDelimiters(raw.text ?? "");
+    return { text, ...scoreRawResult(raw, text) };
+  }
+  if (region.kind === 'code') {
+    const text = trimCode(raw.text ?? "");
+    return { text, codeLanguage: normalizeCodeLanguage(raw.codeLanguage) ?? detectCodeLanguage(text), ...scoreRawResult(raw, text) };
+  }
+  const text = raw.text ?? "";
+  return { text, language: languageOf(text), ...scoreRawResult(raw, text) };
+};
+
 /**
  * Phase 2: High-Precision OCR
  * Uses 'gemini-3-pro-preview' for "Complex Text Tasks".
  * It handles the actual text extraction with better reasoning for reordering.
+ *
+ * Results come back keyed by region id (enforced by a response schema), so the
+ * model can't silently merge neighbouring regions into one blob of text.
+ *
+ * The answer is streamed: each region is handed to 'onResult' as soon as its
+ * entry is complete, and a retry after a dropped stream only asks for the
+ * regions that haven't arrived. Whatever arrived before a final failure has
+ * already been reported, so callers can keep it.
  */
 export const extractTextFromRegions = async (
   base64Image: string, 
-  regions: TextRegion[]
-): Promise<string> => {
+  regions: TextRegion[],
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS,
+  signal?: AbortSignal,
+  onResult?: (regionId: string, result: RegionResult) => void
+): Promise<RegionResultMap> => {
   const ai = getClient();
   
   // Python: [r for r in regions if r.isActive].sort(key=lambda x: x.order)
@@ -102,40 +279,227 @@ export const extractTextFromRegions = async (
     .filter(r => r.isActive)
     .sort((a, b) => a.order - b.order);
 
-  if (activeRegions.length === 0) return "";
+  if (activeRegions.length === 0) return {};
 
-  const regionsDescription = activeRegions.map((r) => 
-    `Region ${r.order}: coordinates [${r.box.ymin}, ${r.box.xmin}, ${r.box.ymax}, ${r.box.xmax}]`
-  ).join('\n');
+  const results: RegionResultMap = {};
+  const report = (region: TextRegion, result: RegionResult) => {
+    results[region.id] = result;
+    onResult?.(region.id, result);
+  };
 
-  const prompt = `Perform OCR on the provided image following the sequence of regions below.
-  Return only the extracted text, separated by double newlines.
-  
-  Regions to process:
-  ${regionsDescription}`;
+  try {
+    await withRetry(async abortSignal => {
+      const remaining = activeRegions.filter(r => !(r.id in results));
+      const stream = await ai.models.generateContentStream({
+        model: 'gemini-3-pro-preview',
+        contents: [
+          {
+            parts: [
+              { text: extractionPrompt(remaining, options) },
+              {
+                inlineData: { mimeType: mimeTypeFromBase64(base64Image), data: requireImage(base64Image) }
+              }
+            ]
+          }
+        ],
+        config: {
+          abortSignal,
+          // 'thinkingBudget' allows the model more reasoning time for complex OCR tasks.
+          thinkingConfig: { thinkingBudget: 4000 },
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                text: { type: Type.STRING },
+                confidence: { type: Type.NUMBER },
+                lineConfidence: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+                uncertain: { type: Type.ARRAY, items: { type: Type.STRING } },
+                language: { type: Type.STRING },
+                codeLanguage: { type: Type.STRING },
+                rows: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: { cells: { type: Type.ARRAY, items: { type: Type.STRING } } },
+                    required: ["cells"]
+                  }
+                }
+              },
+              required: ["id", "text", "confidence"]
+            }
+          }
+        }
+      });
+
+      const readElements = createJsonArrayReader();
+      for await (const chunk of stream) {
+        throwIfBlocked(chunk);
+        // Unknown ids the model may invent are dropped, as are repeats.
+        for (const raw of readElements(chunk.text ?? "") as RawRegionResult[]) {
+          const region = remaining.find(r => r.id === raw?.id);
+          if (region && !(region.id in results)) report(region, toRegionResult(region, raw, options));
+        }
+      }
+    }, { timeoutMs: EXTRACT_TIMEOUT_MS, signal });
+
+    // Python: {r.id: by_id.get(r.id, "") for r in active_regions}
+    // Regions the model skipped come back empty, like unreadable ones.
+    activeRegions.filter(r => !(r.id in results)).forEach(region => report(region, { text: "" }));
+    return results;
+  } catch (error: any) {
+    console.error("Error extracting text:", error);
+    throw error;
+  }
+};
+
+/**
+ * Phase 3 (optional): Form Fields
+ * Uses 'gemini-3-flash-preview'; reading a handful of labelled values is a
+ * basic task. The model returns the raw text, we do the typing ourselves so
+ * dates and amounts are parsed the same way for every provider.
+ */
+export const extractFields = async (
+  base64Image: string,
+  template: FormTemplate,
+  pageIndex = 0,
+  signal?: AbortSignal
+): Promise<FieldValue[]> => {
+  if (template.fields.length === 0) return [];
+  const ai = getClient();
+
+  const fieldsDescription = template.fields.map(f => {
+    const anchor = f.anchor ? ` Usually located at [${f.anchor.ymin}, ${f.anchor.xmin}, ${f.anchor.ymax}, ${f.anchor.xmax}].` : '';
+    const hint = f.hint ? ` Hint: ${f.hint}.` : '';
+    return `- id "${f.id}": "${f.name}" (${f.type}).${anchor}${hint}`;
+  }).join('\n');
+
+  const prompt = `This image is a "${template.name}" form. Find the value of each field below.
+  Copy each value exactly as printed (raw). If a field is not present, return an empty string.
+  Give a confidence between 0 and 1 for each value.
+  Coordinates are normalized to 0-1000 as [ymin, xmin, ymax, xmax].
+
+  Fields:
+  ${fieldsDescription}`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
+    const response = await withRetry(abortSignal => ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
       contents: [
         {
           parts: [
             { text: prompt },
-            {
-              inlineData: { mimeType: 'image/png', data: base64Image }
-            }
+            { inlineData: { mimeType: mimeTypeFromBase64(base64Image), data: requireImage(base64Image) } }
           ]
         }
       ],
       config: {
-        // 'thinkingBudget' allows the model more reasoning time for complex OCR tasks.
-        thinkingConfig: { thinkingBudget: 4000 } 
+        abortSignal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              raw: { type: Type.STRING },
+              confidence: { type: Type.NUMBER }
+            },
+            required: ["id", "raw", "confidence"]
+          }
+        }
       }
+    }), { timeoutMs: FIELDS_TIMEOUT_MS, signal });
+
+    const rawFields: { id: string; raw: string; confidence: number }[] = parseJsonArray(response);
+    const byId = new Map(rawFields.map(f => [f.id, f]));
+
+    return template.fields.map(field => {
+      const raw = byId.get(field.id)?.raw ?? "";
+      const value = coerceFieldValue(field.type, raw);
+      return {
+        fieldId: field.id,
+        name: field.name,
+        type: field.type,
+        value,
+        raw,
+        // A value we couldn't type is not one we're confident in, whatever the model says.
+        confidence: value === null ? 0 : Math.min(1, Math.max(0, byId.get(field.id)?.confidence ?? 0)),
+        pageIndex
+      };
     });
+  } catch (error: any) {
+    console.error("Error extracting fields:", error);
+    throw error;
+  }
+};
+
+/**
+ * Phase 4 (optional): Post-processing
+ * Uses 'gemini-3-flash-preview'; the text is already read, so translating or
+ * condensing it is a basic task that needs no image.
+ */
+export const transformText = async (
+  texts: Record<string, string>,
+  action: ModelTransformAction,
+  targetLanguage = 'English',
+  signal?: AbortSignal
+): Promise<Record<string, string>> => {
+  const entries = Object.entries(texts).filter(([, text]) => text.trim());
+  if (entries.length === 0) return {};
+  const ai = getClient();
+
+  const instruction = action === 'translate'
+    ? `Translate each text into ${targetLanguage}. Keep line breaks, tab characters (they separate table cells),
+  numbers, names and codes as they are. Do not add notes or explanations.`
+    : `Summarize each text in the language it is written in, in a few sentences (at most a fifth of its length).
+  Keep key figures, dates, amounts and names exactly as written.`;
+
+  const prompt = `${instruction}
+  Return exactly one entry per text, using its id.
+
+  Texts (JSON):
+  ${JSON.stringify(entries.map(([id, text]) => ({ id, text })))}`;
+
+  try {
+    const response = await withRetry(abortSignal => ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: [{ parts: [{ text: prompt }] }],
+      config: {
+        abortSignal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              text: { type: Type.STRING }
+            },
+            required: ["id", "text"]
+          }
+        }
+      }
+    }), { timeoutMs: TRANSFORM_TIMEOUT_MS, signal });
 
-    return response.text || "";
+    const rawResults: { id: string; text: string }[] = parseJsonArray(response);
+    const byId = new Map(rawResults.map(r => [r.id, r.text]));
+    return Object.fromEntries(entries.map(([id]) => [id, byId.get(id) ?? ""]));
   } catch (error: any) {
-    console.error("Error extracting text:", error);
+    console.error("Error transforming text:", error);
     throw error;
   }
 };
+
+export const geminiProvider: OcrProvider = {
+  id: 'gemini',
+  label: 'Gemini Cloud',
+  isOffline: false,
+  version: GEMINI_VERSION,
+  detectRegions,
+  extractTextFromRegions,
+  extractFields,
+  transformText,
+};
@@ -0,0 +1,82 @@
+import { DocumentPage, FieldValue, ScanRecord, ScanOptions, ScanSummary, TextRegion, TextTransform } from "../types";
+import { buildDocumentText } from "./documentService";
+import { loadImage } from "./imageUtils";
+
+/**
+ * SCAN HISTORY
+ * Python Analogy: The "model" helpers of the library: building a record from
+ * the editor's state, plus search and tag parsing. Persistence itself is in
+ * historyStorage.
+ */
+const THUMBNAIL_WIDTH = 240;
+
+/** The library metadata the editor carries along while a scan is open. */
+export type ScanMeta = Pick<ScanSummary, 'id' | 'name' | 'tags' | 'thumbnail' | 'creditsSpent' | 'createdAt'>;
+
+/** Downscaled JPEG of a page, small enough to list hundreds of scans. */
+export const createThumbnail = async (image: string): Promise<string> => {
+  const img = await loadImage(image);
+  const scale = Math.min(1, THUMBNAIL_WIDTH / img.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+/** "invoice.pdf" -> "invoice"; several files -> "invoice +2". */
+export const scanNameFromPages = (pages: DocumentPage[]): string => {
+  const sources = Array.from(new Set(pages.map(p => p.sourceName)));
+  const first = (sources[0] || 'Untitled scan').replace(/\.[^.]+$/, '');
+  return sources.length > 1 ? `${first} +${sources.length - 1}` : first;
+};
+
+export const startScan = async (pages: DocumentPage[], creditsSpent = 0): Promise<ScanMeta> => {
+  const now = Date.now();
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: scanNameFromPages(pages),
+    tags: [],
+    thumbnail: pages[0] ? await createThumbnail(pages[0].image) : '',
+    creditsSpent,
+    createdAt: now
+  };
+};
+
+export const buildScanRecord = (
+  meta: ScanMeta,
+  ownerId: string,
+  state: { pages: DocumentPage[]; regions: TextRegion[]; fieldValues: FieldValue[] | null; documentTransform?: TextTransform | null; scanOptions?: ScanOptions }
+): ScanRecord => ({
+  ...meta,
+  ownerId,
+  text: buildDocumentText(state.regions, state.pages.length),
+  pageCount: state.pages.length,
+  regionCount: state.regions.filter(r => r.isActive).length,
+  updatedAt: Date.now(),
+  pages: state.pages,
+  regions: state.regions,
+  fieldValues: state.fieldValues,
+  documentTransform: state.documentTransform ?? null,
+  scanOptions: state.scanOptions
+});
+
+/** "Tax, 2024 ,,receipts" -> ["tax", "2024", "receipts"] */
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+/**
+ * Case-insensitive match on name, tags and extracted text. Every word of the
+ * query must appear somewhere; "#tag" only matches tags.
+ */
+export const searchScans = (scans: ScanSummary[], query: string): ScanSummary[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return scans;
+
+  return scans.filter(scan => {
+    const haystack = `${scan.name}\n${scan.text}`.toLowerCase();
+    return terms.every(term => term.startsWith('#')
+      ? scan.tags.includes(term.slice(1))
+      : haystack.includes(term) || scan.tags.some(tag => tag.includes(term)));
+  });
+};
@@ -0,0 +1,113 @@
+import { DocumentPage, FieldValue, ScanRecord, ScanSummary, TextRegion } from "../types";
+
+/**
+ * HISTORY STORAGE
+ * Python Analogy: A repository class behind an abstract interface, so the
+ * library can move from the browser (IndexedDB) to a server without the UI
+ * noticing, like swapping a SQLite session for a Postgres one.
+ *
+ * Summaries and page images live in separate object stores: listing and
+ * searching the library never has to load every scanned image.
+ */
+export interface HistoryStorage {
+  /** Newest first. */
+  list: (ownerId: string) => Promise<ScanSummary[]>;
+  get: (id: string) => Promise<ScanRecord | undefined>;
+  /** Inserts or replaces the whole record. */
+  save: (record: ScanRecord) => Promise<void>;
+  /** Changes library metadata only (name, tags); the scan itself is untouched. */
+  update: (id: string, patch: Partial<Pick<ScanSummary, 'name' | 'tags'>>) => Promise<ScanSummary | undefined>;
+  remove: (id: string) => Promise<void>;
+}
+
+interface ScanDocument {
+  id: string;
+  pages: DocumentPage[];
+  regions: TextRegion[];
+  fieldValues: FieldValue[] | null;
+}
+
+const DB_NAME = 'smart-lens';
+const DB_VERSION = 1;
+const SUMMARIES = 'scanSummaries';
+const DOCUMENTS = 'scanDocuments';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SUMMARIES, { keyPath: 'id' }).createIndex('ownerId', 'ownerId');
+      db.createObjectStore(DOCUMENTS, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+// Python: the async equivalent of "with conn:" around a single IDBRequest.
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const indexedDbStorage: HistoryStorage = {
+  list: async (ownerId) => {
+    const db = await openDb();
+    const index = db.transaction(SUMMARIES).objectStore(SUMMARIES).index('ownerId');
+    const summaries: ScanSummary[] = await promisify(index.getAll(ownerId));
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  get: async (id) => {
+    const db = await openDb();
+    const tx = db.transaction([SUMMARIES, DOCUMENTS]);
+    const [summary, document]: [ScanSummary | undefined, ScanDocument | undefined] = await Promise.all([
+      promisify(tx.objectStore(SUMMARIES).get(id)),
+      promisify(tx.objectStore(DOCUMENTS).get(id))
+    ]);
+    return summary && document ? { ...summary, ...document } : undefined;
+  },
+
+  save: async (record) => {
+    const { pages, regions, fieldValues, ...summary } = record;
+    const db = await openDb();
+    // One transaction, so a summary never exists without its pages.
+    const tx = db.transaction([SUMMARIES, DOCUMENTS], 'readwrite');
+    tx.objectStore(SUMMARIES).put(summary);
+    tx.objectStore(DOCUMENTS).put({ id: record.id, pages, regions, fieldValues });
+    await transactionDone(tx);
+  },
+
+  update: async (id, patch) => {
+    const db = await openDb();
+    const tx = db.transaction(SUMMARIES, 'readwrite');
+    const store = tx.objectStore(SUMMARIES);
+    const summary: ScanSummary | undefined = await promisify(store.get(id));
+    if (!summary) return undefined;
+    const updated = { ...summary, ...patch, updatedAt: Date.now() };
+    store.put(updated);
+    await transactionDone(tx);
+    return updated;
+  },
+
+  remove: async (id) => {
+    const db = await openDb();
+    const tx = db.transaction([SUMMARIES, DOCUMENTS], 'readwrite');
+    tx.objectStore(SUMMARIES).delete(id);
+    tx.objectStore(DOCUMENTS).delete(id);
+    await transactionDone(tx);
+  },
+};
+
+/** The active backend for the library. Replace with a server-backed adapter to share scans. */
+export const historyStorage: HistoryStorage = indexedDbStorage;
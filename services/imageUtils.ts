@@ -0,0 +1,47 @@
+/**
+ * IMAGE HELPERS
+ * Python Analogy: The handful of PIL.Image calls (open, .size) every other
+ * module needs, implemented with the browser's own decoder.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode image"));
+    img.src = src;
+  });
+
+export const loadImageSize = async (src: string): Promise<{ width: number; height: number }> => {
+  const img = await loadImage(src);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+// Base64 of each format's magic bytes (PNG \x89PNG, JPEG \xFF\xD8\xFF, RIFF, GIF8).
+const BASE64_SIGNATURES: [string, string][] = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['UklGR', 'image/webp'],
+  ['R0lGOD', 'image/gif'],
+];
+
+/** Sniffs the real type of a bare base64 image, since the data URL prefix is dropped before the OCR call. */
+export const mimeTypeFromBase64 = (base64: string): string =>
+  BASE64_SIGNATURES.find(([signature]) => base64.startsWith(signature))?.[1] ?? 'image/png';
+
+/** Cuts a 0-1000 normalized box out of an image, with a little margin for context. */
+export const cropToBox = async (
+  src: string,
+  box: { ymin: number; xmin: number; ymax: number; xmax: number },
+  margin = 10
+): Promise<string> => {
+  const img = await loadImage(src);
+  const x = Math.max(0, box.xmin - margin) / 1000 * img.naturalWidth;
+  const y = Math.max(0, box.ymin - margin) / 1000 * img.naturalHeight;
+  const width = (Math.min(1000, box.xmax + margin) / 1000 * img.naturalWidth) - x;
+  const height = (Math.min(1000, box.ymax + margin) / 1000 * img.naturalHeight) - y;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  canvas.getContext('2d')!.drawImage(img, x, y, width, height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
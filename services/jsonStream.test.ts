@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createJsonArrayReader } from './jsonStream';
+
+const elements = [
+  { id: 'r1', text: 'plain' },
+  { id: 'r2', text: 'brackets ] } [ { and, commas' },
+  { id: 'r3', text: 'quote \" backslash \\ and \\"escaped\\" ]' },
+  { id: 'r4', rows: [{ cells: ['a', 'b'] }, { cells: [']', ','] }], confidence: 0.5 },
+  ['nested', ['array']],
+];
+const body = JSON.stringify(elements, null, 2);
+
+test('elements split at every possible chunk boundary come out whole', () => {
+  for (let cut = 1; cut < body.length; cut++) {
+    const read = createJsonArrayReader();
+    assert.deepEqual([...read(body.slice(0, cut)), ...read(body.slice(cut))], elements, `cut at ${cut}`);
+  }
+});
+
+test('fed one character at a time, each element arrives with the chunk that closes it', () => {
+  const read = createJsonArrayReader();
+  const seen: { element: unknown; at: number }[] = [];
+  [...body].forEach((ch, at) => read(ch).forEach(element => seen.push({ element, at })));
+  assert.deepEqual(seen.map(s => s.element), elements);
+  seen.forEach(({ at }) => assert.match(body[at], /[}\]]/));
+});
+
+test('nothing is returned for an element that is still open', () => {
+  const read = createJsonArrayReader();
+  assert.deepEqual(read('[{"id":"r1","text":"half ]'), []);
+  assert.deepEqual(read('done"}'), [{ id: 'r1', text: 'half ]done' }]);
+  assert.deepEqual(read(']'), []);
+});
+
+test('a malformed element is reported as a bad response', () => {
+  const read = createJsonArrayReader();
+  assert.throws(() => read('[{"id": r1}]'), { kind: 'bad_response' });
+});
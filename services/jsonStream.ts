@@ -0,0 +1,52 @@
+import { RequestError } from "./errors";
+
+/**
+ * STREAMING JSON
+ * Python Analogy: 'ijson.items(stream, "item")' - yields each element of a
+ * top-level JSON array as soon as it is complete, while the rest is still
+ * arriving, instead of waiting for the closing bracket.
+ *
+ * Only object and array elements are supported, which is all our response
+ * schemas produce. Feed it chunks in order; each call returns the elements
+ * completed by that chunk.
+ */
+export const createJsonArrayReader = () => {
+  let buffer = '';
+  let scanned = 0;
+  // 1 while inside the top-level array, 2+ inside one of its elements.
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+
+  return (chunk: string): any[] => {
+    buffer += chunk;
+    const elements: any[] = [];
+    for (; scanned < buffer.length; scanned++) {
+      const ch = buffer[scanned];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        if (depth === 1) elementStart = scanned;
+        depth++;
+      } else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === 1 && elementStart >= 0) {
+          try {
+            elements.push(JSON.parse(buffer.slice(elementStart, scanned + 1)));
+          } catch {
+            throw new RequestError('bad_response', 'Malformed element in streamed JSON');
+          }
+          elementStart = -1;
+        }
+      }
+    }
+    return elements;
+  };
+};
@@ -0,0 +1,290 @@
+import { createWorker, Worker } from "tesseract.js";
+import type { Line, Page } from "tesseract.js";
+import { BoundingBox, FieldValue, FormTemplate, RegionKind, RegionResult, RegionResultMap, ScanOptions, TextRegion } from "../types";
+import type { OcrProvider } from "./ocrProvider";
+import { loadImageSize, mimeTypeFromBase64 } from "./imageUtils";
+import { tableToText } from "./spreadsheetService";
+import { coerceFieldValue } from "./templateService";
+import { alignLineConfidence, locateSpans } from "./confidenceService";
+import { DEFAULT_SCAN_OPTIONS, guessLanguage, tesseractLanguages } from "./scanOptions";
+import { dehyphenate } from "./postProcessService";
+import { detectCodeLanguage, trimCode } from "./notationService";
+import { throwIfCancelled } from "./requestPolicy";
+
+/**
+ * OFFLINE SERVICE LAYER
+ * Python Analogy: The same module contract as geminiService, but backed by
+ * 'pytesseract' running locally instead of a cloud SDK.
+ *
+ * Tesseract runs as WASM inside a Web Worker, so no image data ever leaves the
+ * browser. For fully air-gapped machines, host the worker, core and traineddata
+ * files yourself and point TESSERACT_ASSET_PATH at that folder (with the
+ * traineddata of every language you pick in the scan options).
+ *
+ * Tesseract has no handwriting model; the handwriting hint is ignored here.
+ */
+const ASSET_PATH = process.env.TESSERACT_ASSET_PATH;
+const DEFAULT_LANGUAGES = 'eng';
+
+// The worker is expensive to boot (WASM + language data), so we keep one alive
+// and only reload language data when the scan asks for different languages.
+let workerPromise: Promise<Worker> | null = null;
+let workerLanguages = DEFAULT_LANGUAGES;
+
+/** Without 'languages', whatever is loaded is fine (e.g. for form fields). */
+const getWorker = async (languages?: string): Promise<Worker> => {
+  if (workerPromise && languages && languages !== workerLanguages) {
+    const worker = await workerPromise;
+    workerPromise = worker.reinitialize(languages).then(() => worker);
+    workerLanguages = languages;
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  if (!workerPromise) {
+    workerLanguages = languages ?? DEFAULT_LANGUAGES;
+    const options = ASSET_PATH
+      ? {
+          workerPath: `${ASSET_PATH}/worker.min.js`,
+          corePath: ASSET_PATH,
+          langPath: ASSET_PATH,
+        }
+      : {};
+    workerPromise = createWorker(workerLanguages, undefined, options).then(async (worker) => {
+      // Keeps column gaps as runs of spaces, which is how we find table cells.
+      await worker.setParameters({ preserve_interword_spaces: '1' });
+      return worker;
+    }).catch((error) => {
+      // Allow a retry on the next call instead of caching the failure forever.
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+const toDataUrl = (base64Image: string) => `data:${mimeTypeFromBase64(base64Image)};base64,${base64Image}`;
+
+// Tesseract's own page-layout classes, mapped onto our region kinds.
+const BLOCK_KINDS: Record<string, RegionKind> = {
+  HEADING_TEXT: 'heading',
+  TABLE: 'table',
+  CAPTION_TEXT: 'caption',
+  EQUATION: 'math',
+};
+
+/**
+ * Phase 1: Layout Analysis
+ * Tesseract's own page segmentation gives us text blocks in pixel space;
+ * we convert them to the same 0-1000 normalized grid Gemini returns.
+ */
+export const detectRegions = async (
+  base64Image: string,
+  pageIndex = 0,
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS,
+  signal?: AbortSignal
+): Promise<TextRegion[]> => {
+  const src = toDataUrl(base64Image);
+
+  try {
+    const [worker, size] = await Promise.all([getWorker(tesseractLanguages(options)), loadImageSize(src)]);
+    throwIfCancelled(signal);
+    const { data } = await worker.recognize(src, {}, { blocks: true });
+
+    return (data.blocks || [])
+      .filter(block => block.text.trim().length > 0)
+      .map((block, index) => ({
+        id: Math.random().toString(36).substr(2, 9),
+        description: block.text.trim().split(/\s+/).slice(0, 6).join(' '),
+        kind: BLOCK_KINDS[block.blocktype] ?? 'paragraph',
+        box: {
+          ymin: Math.round((block.bbox.y0 / size.height) * 1000),
+          xmin: Math.round((block.bbox.x0 / size.width) * 1000),
+          ymax: Math.round((block.bbox.y1 / size.height) * 1000),
+          xmax: Math.round((block.bbox.x1 / size.width) * 1000)
+        },
+        order: index + 1,
+        isActive: true,
+        pageIndex
+      }));
+  } catch (error: any) {
+    console.error("Error detecting regions locally:", error);
+    throw error;
+  }
+};
+
+const toPixelRectangle = (box: BoundingBox, size: { width: number; height: number }) => ({
+  left: Math.round((box.xmin / 1000) * size.width),
+  top: Math.round((box.ymin / 1000) * size.height),
+  width: Math.round(((box.xmax - box.xmin) / 1000) * size.width),
+  height: Math.round(((box.ymax - box.ymin) / 1000) * size.height)
+});
+
+// Words Tesseract scores below this (0-100) are flagged for review.
+const UNCERTAIN_WORD_CONFIDENCE = 60;
+
+/**
+ * Tesseract's 0-100 page, line and word scores mapped onto our 0-1 scale and character spans.
+ * Per-line scores are left out when the text was reflowed, since its lines no longer match the page's.
+ */
+const scoreRecognition = (data: Page, text: string, keepsLines = true): Pick<RegionResult, 'confidence' | 'lineConfidence' | 'uncertain'> => {
+  const confidence = data.confidence / 100;
+  return {
+    confidence,
+    lineConfidence: keepsLines ? alignLineConfidence(text, data.lines.map(line => line.confidence / 100), confidence) : undefined,
+    uncertain: locateSpans(text, data.words.filter(w => w.confidence < UNCERTAIN_WORD_CONFIDENCE).map(w => w.text))
+  };
+};
+
+/**
+ * Tesseract drops leading whitespace, so code indentation is rebuilt from where
+ * each line starts, in character widths from the leftmost line.
+ */
+const indentCode = (lines: Line[]): string => {
+  const widths = lines
+    .flatMap(line => line.words)
+    .filter(word => word.text.length > 0)
+    .map(word => (word.bbox.x1 - word.bbox.x0) / word.text.length)
+    .sort((a, b) => a - b);
+  const charWidth = widths[Math.floor(widths.length / 2)];
+  if (!charWidth) return lines.map(line => line.text.trim()).join('\n');
+  const left = Math.min(...lines.map(line => line.bbox.x0));
+  return lines
+    .map(line => ' '.repeat(Math.round((line.bbox.x0 - left) / charWidth)) + line.text.trim())
+    .join('\n');
+};
+
+/**
+ * Phase 2: Region OCR
+ * Each active region is recognized on its own (cropped via 'rectangle'),
+ * in the user's chosen order, so the output sequence is fully deterministic.
+ */
+export const extractTextFromRegions = async (
+  base64Image: string,
+  regions: TextRegion[],
+  options: ScanOptions = DEFAULT_SCAN_OPTIONS,
+  signal?: AbortSignal,
+  onResult?: (regionId: string, result: RegionResult) => void
+): Promise<RegionResultMap> => {
+  const activeRegions = [...regions]
+    .filter(r => r.isActive)
+    .sort((a, b) => a.order - b.order);
+
+  if (activeRegions.length === 0) return {};
+
+  const src = toDataUrl(base64Image);
+
+  try {
+    const [worker, size] = await Promise.all([getWorker(tesseractLanguages(options)), loadImageSize(src)]);
+    const results: RegionResultMap = {};
+    const reflow = options.lineBreaks === 'reflow';
+
+    // Sequential on purpose: a single Tesseract worker processes one job at a time.
+    // A running job can't be interrupted, so cancelling takes effect between regions.
+    for (const region of activeRegions) {
+      throwIfCancelled(signal);
+      const { data } = await worker.recognize(src, { rectangle: toPixelRectangle(region.box, size) });
+      let result: RegionResult;
+      if (region.kind === 'table') {
+        // Python: [re.split(r"\s{2,}", line.strip()) for line in text.splitlines() if line.strip()]
+        const table = data.text
+          .split('\n')
+          .filter(line => line.trim().length > 0)
+          .map(line => line.trim().split(/\s{2,}/));
+        result = { text: tableToText(table), table };
+      } else if (region.kind === 'code') {
+        const text = trimCode(indentCode(data.lines));
+        result = { text, codeLanguage: detectCodeLanguage(text) };
+      } else if (region.kind === 'math') {
+        // Tesseract has no notion of LaTeX; the symbols it reads are kept for hand correction.
+        result = { text: data.text.trim() };
+      } else {
+        const text = data.text.trim().replace(/ {2,}/g, ' ');
+        result = { text: reflow ? dehyphenate(text) : text };
+      }
+      const verbatim = region.kind === 'code' || region.kind === 'math';
+      results[region.id] = {
+        ...result,
+        ...scoreRecognition(data, result.text, !reflow || !!result.table || verbatim),
+        language: verbatim ? undefined : guessLanguage(result.text, options.languages.length ? options.languages : ['en'])
+      };
+      onResult?.(region.id, results[region.id]);
+    }
+
+    return results;
+  } catch (error: any) {
+    console.error("Error extracting text locally:", error);
+    throw error;
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Phase 3 (optional): Form Fields
+ * Anchored fields are read straight from their box. Unanchored ones fall back
+ * to a label search: a line containing the field name, value after the label.
+ */
+export const extractFields = async (
+  base64Image: string,
+  template: FormTemplate,
+  pageIndex = 0,
+  signal?: AbortSignal
+): Promise<FieldValue[]> => {
+  if (template.fields.length === 0) return [];
+  const src = toDataUrl(base64Image);
+
+  try {
+    const [worker, size] = await Promise.all([getWorker(), loadImageSize(src)]);
+    const needsPage = template.fields.some(f => !f.anchor);
+    const page = needsPage ? (await worker.recognize(src, {}, { blocks: true })).data : null;
+    const values: FieldValue[] = [];
+
+    for (const field of template.fields) {
+      throwIfCancelled(signal);
+      let raw = "";
+      let confidence = 0;
+
+      if (field.anchor) {
+        const { data } = await worker.recognize(src, { rectangle: toPixelRectangle(field.anchor, size) });
+        raw = data.text.trim().replace(/\s+/g, ' ');
+        confidence = data.confidence / 100;
+      } else if (page) {
+        const label = new RegExp(`${escapeRegExp(field.name)}\\s*[:#-]?\\s*(.+)`, 'i');
+        for (const line of page.lines) {
+          const match = line.text.match(label);
+          if (match) {
+            raw = match[1].trim().replace(/\s+/g, ' ');
+            confidence = line.confidence / 100;
+            break;
+          }
+        }
+      }
+
+      const value = coerceFieldValue(field.type, raw);
+      values.push({
+        fieldId: field.id,
+        name: field.name,
+        type: field.type,
+        value,
+        raw,
+        confidence: value === null ? 0 : confidence,
+        pageIndex
+      });
+    }
+
+    return values;
+  } catch (error: any) {
+    console.error("Error extracting fields locally:", error);
+    throw error;
+  }
+};
+
+export const localProvider: OcrProvider = {
+  id: 'local',
+  label: 'Local Engine (Offline)',
+  isOffline: true,
+  // Bump when the recognition or post-processing steps above change.
+  version: 'tesseract-5/1',
+  detectRegions,
+  extractTextFromRegions,
+  extractFields,
+};
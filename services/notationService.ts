@@ -0,0 +1,82 @@
+/**
+ * MATH AND CODE NOTATION
+ * Python Analogy: Helpers like 'textwrap' and 'pygments.lexers.guess_lexer',
+ * shared by the engines and the exporters so 'math' regions always hold bare
+ * LaTeX and 'code' regions always hold code plus a known language name.
+ *
+ * Equations are separated by blank lines; every other line break belongs to
+ * the equation it is in (e.g. the rows of an 'aligned' block).
+ */
+export const CODE_LANGUAGES = [
+  'python', 'javascript', 'typescript', 'java', 'c', 'cpp', 'csharp', 'go', 'rust', 'ruby',
+  'php', 'swift', 'kotlin', 'sql', 'bash', 'html', 'css', 'json', 'yaml',
+];
+
+// Names models and people use for the same language, mapped onto CODE_LANGUAGES.
+const CODE_LANGUAGE_ALIASES: Record<string, string> = {
+  py: 'python', js: 'javascript', jsx: 'javascript', ts: 'typescript', tsx: 'typescript',
+  'c++': 'cpp', 'c#': 'csharp', cs: 'csharp', golang: 'go', rs: 'rust', rb: 'ruby',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash', kt: 'kotlin', yml: 'yaml',
+};
+
+// First match wins, so the more specific languages come before the ones they resemble.
+const CODE_SIGNATURES: [string, RegExp][] = [
+  ['json', /^\s*[{[]\s*"[^"]*"\s*:/],
+  ['html', /^\s*<(!doctype|html|head|body|div|p|span|a|ul|table)\b/i],
+  ['php', /<\?php|\$\w+\s*=.*;\s*$/m],
+  ['python', /^\s*(def \w+\(.*\)|class \w+.*|if .+|for .+ in .+|while .+|elif .+|else|try|except.*)\s*:\s*$|^\s*(from [\w.]+ )?import \w+\s*$/m],
+  ['rust', /\bfn \w+\(|\blet mut\b|\bimpl\b.*\{|println!\(/],
+  ['go', /^\s*package \w+\s*$|\bfunc (\(\w+ \*?\w+\) )?\w+\(|:= /m],
+  ['kotlin', /\bfun \w+\(|\bval \w+\s*[:=]/],
+  ['swift', /\bfunc \w+\(.*\)\s*(->|\{)|\bguard let\b|\bvar \w+:\s*\w+/],
+  ['typescript', /\b(interface|type) \w+\s*[={]|:\s*(string|number|boolean)\b|\bimport .* from ['"]/],
+  ['javascript', /\b(const|let|var) \w+\s*=|=>|\bfunction\s*\w*\(|console\.log\(|require\(/],
+  ['csharp', /\busing System\b|\bnamespace \w+|\bpublic (static )?(void|string|int) \w+\(.*\)\s*$/m],
+  ['java', /\bpublic (static )?(class|void)\b|System\.out\.print/],
+  ['cpp', /#include\s*<\w+>|\bstd::|\bcout\s*<</],
+  ['c', /#include\s*<\w+\.h>|\bprintf\(|\bint main\(/],
+  ['sql', /^\s*(SELECT|INSERT INTO|UPDATE|DELETE FROM|CREATE TABLE)\b/im],
+  ['css', /^\s*[.#]?[\w-]+(\s*[,>]?\s*[.#]?[\w-]+)*\s*\{\s*$|^\s*[\w-]+:\s*[^;]+;\s*$/m],
+  ['ruby', /^\s*(def \w+|end|puts .+|require '\w+')\s*$/m],
+  ['yaml', /^[\w-]+:\s*(\S.*)?$\n^\s+[\w-]+:/m],
+  ['bash', /^\s*(\$ |#!\/bin\/(ba)?sh|sudo |cd |ls |echo |export \w+=|npm |pip |git )/m],
+];
+
+/** A known language name for whatever a model or a person called it; undefined if unknown. */
+export const normalizeCodeLanguage = (raw: string | undefined): string | undefined => {
+  const name = raw?.trim().toLowerCase();
+  if (!name) return undefined;
+  const language = CODE_LANGUAGE_ALIASES[name] ?? name;
+  return CODE_LANGUAGES.includes(language) ? language : undefined;
+};
+
+/** Best guess at the programming language of a snippet, from telltale syntax. */
+export const detectCodeLanguage = (code: string): string | undefined =>
+  CODE_SIGNATURES.find(([, pattern]) => pattern.test(code))?.[0];
+
+/** Drops the $$, \[ \] or \( \) a model may wrap around LaTeX; we add our own on export. */
+export const stripMathDelimiters = (latex: string): string => {
+  const trimmed = latex.trim();
+  const match = trimmed.match(/^\$\$([\s\S]*)\$\$$/) ?? trimmed.match(/^\\\[([\s\S]*)\\\]$/)
+    ?? trimmed.match(/^\\\(([\s\S]*)\\\)$/) ?? trimmed.match(/^\$([^$]*)\$$/);
+  return match ? match[1].trim() : trimmed;
+};
+
+/** One LaTeX string per equation. */
+export const splitEquations = (latex: string): string[] =>
+  latex.split(/\n\s*\n/).map(eq => eq.trim()).filter(Boolean);
+
+/** Removes blank lines around code and trailing spaces, but never the indentation. */
+export const trimCode = (code: string): string =>
+  code.split('\n').map(line => line.replace(/\s+$/, '')).join('\n').replace(/^\n+|\n+$/g, '');
+
+/** Markdown display math, one $$ block per equation. */
+export const toMathMarkdown = (latex: string): string =>
+  splitEquations(latex).map(eq => `$$\n${eq}\n$$`).join('\n\n');
+
+/** Markdown fenced block; the fence is longer than any run of backticks inside the code. */
+export const toFencedCode = (code: string, language?: string): string => {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language ?? ''}\n${code}\n${fence}`;
+};
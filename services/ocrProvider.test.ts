@@ -0,0 +1,81 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RegionResult, TextRegion } from '../types';
+import { DEFAULT_SCAN_OPTIONS } from './scanOptions';
+import { applyRegionResults, buildDocumentText } from './documentService';
+import { applyReadingOrder } from './readingOrder';
+import { cacheResult, getCachedResults, hashImage } from './resultCache';
+import { createScriptedProvider, installMemoryStorage, makeRegion } from './testing';
+
+// A two-column page under a full-width title; the script lists the regions out of order.
+const PAGE = 'cGFnZS0x';
+const script = {
+  [PAGE]: {
+    regions: [
+      makeRegion('right', { ymin: 200, xmin: 550, ymax: 900, xmax: 950 }),
+      makeRegion('title', { ymin: 50, xmin: 50, ymax: 120, xmax: 950 }, { kind: 'heading' }),
+      makeRegion('left', { ymin: 200, xmin: 50, ymax: 900, xmax: 450 }),
+    ],
+    text: { title: 'Annual Report', left: 'Left column.', right: 'Right column.' },
+    fields: { Total: '$1,234.50' }
+  }
+};
+
+beforeEach(() => {
+  installMemoryStorage();
+});
+
+test('a page goes through detection, reading order and extraction without any network', async () => {
+  const { provider } = createScriptedProvider(script);
+
+  const regions = applyReadingOrder(await provider.detectRegions(PAGE, 0), 'columns');
+  assert.deepEqual(regions.map(r => r.id), ['title', 'left', 'right']);
+
+  const arrived: string[] = [];
+  const results = await provider.extractTextFromRegions(PAGE, regions, DEFAULT_SCAN_OPTIONS, undefined, id => arrived.push(id));
+  assert.deepEqual(arrived, ['title', 'left', 'right']);
+  assert.equal(buildDocumentText(applyRegionResults(regions, results), 1), 'Annual Report\n\nLeft column.\n\nRight column.');
+});
+
+test('cancelling half-way keeps the regions that already arrived', async () => {
+  const { provider } = createScriptedProvider(script);
+  const regions = applyReadingOrder(await provider.detectRegions(PAGE, 0), 'columns');
+  const controller = new AbortController();
+
+  const kept: Record<string, RegionResult> = {};
+  await assert.rejects(
+    provider.extractTextFromRegions(PAGE, regions, DEFAULT_SCAN_OPTIONS, controller.signal, (id, result) => {
+      kept[id] = result;
+      controller.abort();
+    }),
+    { kind: 'cancelled' }
+  );
+  assert.deepEqual(Object.keys(kept), ['title']);
+});
+
+test('inactive regions are not read, and a second scan of the same page comes from the cache', async () => {
+  const { provider, calls } = createScriptedProvider(script);
+  const hash = await hashImage(PAGE);
+  const regions: TextRegion[] = applyReadingOrder(await provider.detectRegions(PAGE, 0), 'columns')
+    .map(r => r.id === 'right' ? { ...r, isActive: false } : r);
+
+  const results = await provider.extractTextFromRegions(PAGE, regions, DEFAULT_SCAN_OPTIONS, undefined, (id, result) =>
+    cacheResult(provider, hash, regions.find(r => r.id === id)!, DEFAULT_SCAN_OPTIONS, result));
+  assert.deepEqual(Object.keys(results).sort(), ['left', 'title']);
+  assert.equal(calls.extract, 1);
+
+  const cached = getCachedResults(provider, hash, regions.filter(r => r.isActive), DEFAULT_SCAN_OPTIONS);
+  assert.deepEqual(Object.keys(cached).sort(), ['left', 'title']);
+  assert.equal(cached.title.text, 'Annual Report');
+});
+
+test('template fields come back typed', async () => {
+  const { provider } = createScriptedProvider(script);
+  const template = { id: 'tpl', name: 'Invoice', updatedAt: 0, fields: [
+    { id: 'total', name: 'Total', type: 'amount' as const },
+    { id: 'due', name: 'Due date', type: 'date' as const },
+  ] };
+
+  const fields = await provider.extractFields(PAGE, template, 0);
+  assert.deepEqual(fields.map(f => [f.fieldId, f.value]), [['total', 1234.5], ['due', null]]);
+});
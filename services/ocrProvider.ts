@@ -0,0 +1,77 @@
+import { FieldValue, FormTemplate, RegionResult, RegionResultMap, ScanOptions, TextRegion } from "../types";
+import { geminiProvider } from "./geminiService";
+import { localProvider } from "./localOcrService";
+import { serverGeminiProvider } from "./serverOcrService";
+import { isServerMode } from "./apiClient";
+import type { ModelTransformAction } from "./postProcessService";
+
+/**
+ * PROVIDER CONTRACT
+ * Python Analogy: An abstract base class (abc.ABC) that every OCR backend subclasses.
+ *
+ * The UI only ever talks to this interface, so the engine behind
+ * "Analyze" and "Execute" can be swapped at runtime (cloud vs. offline).
+ * Every call takes an optional AbortSignal (the Cancel button) and fails with
+ * a RequestError (see errors.ts) that says what went wrong.
+ */
+export interface OcrProvider {
+  id: OcrProviderId;
+  label: string;
+  /** True when the provider never leaves the machine (safe for air-gapped use). */
+  isOffline: boolean;
+  /** True when the backend debits credits itself, so the client must not charge again. */
+  billedByServer?: boolean;
+  /** Model and prompt revision. Bump it when either changes, so cached results are not reused. */
+  version: string;
+  /**
+   * Regions come back stamped with 'pageIndex' so multi-page documents stay grouped.
+   * 'options' carries the scan's language and handwriting hints (defaults when omitted).
+   */
+  detectRegions: (base64Image: string, pageIndex?: number, options?: ScanOptions, signal?: AbortSignal) => Promise<TextRegion[]>;
+  /**
+   * Returns one entry per active region; regions the engine could not read get "".
+   * 'table' regions also get their rows/cells in 'table', and each entry its 'language' when known.
+   * 'onResult' receives each region as soon as the engine has it, so text can be
+   * shown (and kept) before the whole page is done.
+   */
+  extractTextFromRegions: (
+    base64Image: string,
+    regions: TextRegion[],
+    options?: ScanOptions,
+    signal?: AbortSignal,
+    onResult?: (regionId: string, result: RegionResult) => void
+  ) => Promise<RegionResultMap>;
+  /** Reads a template's key-value fields from one page, typed and with a 0-1 confidence. */
+  extractFields: (base64Image: string, template: FormTemplate, pageIndex?: number, signal?: AbortSignal) => Promise<FieldValue[]>;
+  /**
+   * Translates or summarizes texts keyed by id, returning the same keys.
+   * Only providers backed by a language model implement it.
+   */
+  transformText?: (texts: Record<string, string>, action: ModelTransformAction, targetLanguage?: string, signal?: AbortSignal) => Promise<Record<string, string>>;
+}
+
+export type OcrProviderId = 'gemini' | 'local';
+
+const STORAGE_KEY = 'ocr_provider';
+const DEFAULT_PROVIDER: OcrProviderId = 'gemini';
+
+// Python: PROVIDERS: dict[str, OcrProvider] = {...}
+// With a backend configured, Gemini calls go through it and the browser never holds the key.
+const PROVIDERS: Record<OcrProviderId, OcrProvider> = {
+  gemini: isServerMode ? serverGeminiProvider : geminiProvider,
+  local: localProvider,
+};
+
+export const listProviders = (): OcrProvider[] => Object.values(PROVIDERS);
+
+export const getProvider = (id: OcrProviderId): OcrProvider => PROVIDERS[id] ?? PROVIDERS[DEFAULT_PROVIDER];
+
+/** Reads the last engine the user picked, falling back to Gemini. */
+export const loadProviderPreference = (): OcrProviderId => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved && saved in PROVIDERS ? (saved as OcrProviderId) : DEFAULT_PROVIDER;
+};
+
+export const saveProviderPreference = (id: OcrProviderId) => {
+  localStorage.setItem(STORAGE_KEY, id);
+};
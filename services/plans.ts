@@ -0,0 +1,22 @@
+import { PricingPlan } from "../types";
+
+/**
+ * CREDIT PLANS
+ * Shared by the pricing modal and the backend, so the server never has to
+ * trust a price or credit amount sent by the browser.
+ */
+export const PLANS: PricingPlan[] = [
+  { id: 'starter', name: 'Starter', price: '$4.99', credits: 10 },
+  { id: 'pro', name: 'Professional', price: '$14.99', credits: 50, popular: true },
+  { id: 'unlimited', name: 'Elite', price: '$29.99', credits: 500 },
+  // Team plans top up a workspace's shared pool.
+  { id: 'team', name: 'Team', price: '$99.00', credits: 2000, team: true },
+  { id: 'team_plus', name: 'Team Plus', price: '$249.00', credits: 6000, popular: true, team: true },
+  { id: 'business', name: 'Business', price: '$599.00', credits: 20000, team: true },
+];
+
+export const findPlan = (id: string): PricingPlan | undefined => PLANS.find(p => p.id === id);
+
+/** "$14.99" -> 1499 */
+export const planPriceCents = (plan: PricingPlan): number =>
+  Math.round(parseFloat(plan.price.replace(/[^\d.]/g, '')) * 100);
@@ -0,0 +1,126 @@
+import { TextTransform, TransformAction } from "../types";
+import type { OcrProvider } from "./ocrProvider";
+
+/**
+ * POST-PROCESSING
+ * Python Analogy: A small pipeline of text filters (re.sub clean-ups) plus two
+ * steps that call a language model, all behind one 'run_transform()' entry point.
+ *
+ * Clean-ups run locally and are free. Translation and summaries go through the
+ * selected provider's 'transformText' and cost credits per run, like a scanned page.
+ * Results are returned as TextTransforms; callers store them next to the original.
+ */
+export const TRANSFORM_COST = 1;
+
+export type ModelTransformAction = Extract<TransformAction, 'translate' | 'summarize'>;
+
+export const TRANSFORM_ACTIONS: { id: TransformAction; label: string }[] = [
+  { id: 'translate', label: 'Translate' },
+  { id: 'summarize', label: 'Summarize' },
+  { id: 'dehyphenate', label: 'Fix line breaks' },
+  { id: 'whitespace', label: 'Normalize spacing' },
+  { id: 'redact', label: 'Redact personal data' },
+];
+
+export const TARGET_LANGUAGES = [
+  'English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch',
+  'Polish', 'Russian', 'Arabic', 'Hindi', 'Chinese', 'Japanese', 'Korean',
+];
+
+const LANGUAGE_STORAGE_KEY = 'ocr_target_language';
+
+export const isModelAction = (action: string): action is ModelTransformAction =>
+  action === 'translate' || action === 'summarize';
+
+export const transformCost = (action: TransformAction): number => isModelAction(action) ? TRANSFORM_COST : 0;
+
+export const transformLabel = (transform: TextTransform): string => {
+  if (transform.action === 'translate') return `Translated to ${transform.targetLanguage}`;
+  return TRANSFORM_ACTIONS.find(a => a.id === transform.action)?.label ?? transform.action;
+};
+
+export const loadTargetLanguage = (): string => localStorage.getItem(LANGUAGE_STORAGE_KEY) || 'English';
+
+export const saveTargetLanguage = (language: string) => {
+  localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+};
+
+/**
+ * Undoes the layout of the printed page: words hyphenated across a line end are
+ * rejoined, and lines broken mid-sentence are joined with a space.
+ * Blank lines (paragraph breaks) and tab-separated table rows are kept.
+ */
+export const dehyphenate = (text: string): string =>
+  text
+    .replace(/(\p{L})-\n(?=\p{Ll})/gu, '$1')
+    .replace(/([^\n\t])\n(?=[\p{Ll}(])/gu, '$1 ');
+
+/** Collapses runs of spaces, trims line ends and squeezes 3+ newlines into a paragraph break. Tabs survive, for tables. */
+export const normalizeWhitespace = (text: string): string =>
+  text
+    .replace(/[^\S\t\n]+/g, ' ')
+    .replace(/ ?\t ?/g, '\t')
+    .split('\n').map(line => line.trim()).join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Python: sum of doubled-digit rule; weeds out order numbers that merely look like cards.
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+};
+
+const countDigits = (value: string) => value.replace(/\D/g, '').length;
+
+/**
+ * Masks common personal data with a [LABEL] placeholder. Pattern-based, so it
+ * catches formats (emails, IBANs, cards, US SSNs, phone numbers), not names.
+ */
+export const redactPii = (text: string): string =>
+  text
+    .replace(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, '[EMAIL]')
+    .replace(/\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g, '[IBAN]')
+    .replace(/\b\d(?:[ -]?\d){12,18}\b/g, match => passesLuhn(match.replace(/\D/g, '')) ? '[CARD]' : match)
+    .replace(/\b\d{3}-\d{2}-\d{4}\b/g, '[SSN]')
+    // Dates like 2024-01-15 have too few digits to be taken for a phone number.
+    .replace(/(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,4}){1,4}/g, match =>
+      countDigits(match) >= 9 && countDigits(match) <= 15 ? '[PHONE]' : match);
+
+const applyLocalTransform = (action: TransformAction, text: string): string => {
+  switch (action) {
+    case 'dehyphenate': return dehyphenate(text);
+    case 'whitespace': return normalizeWhitespace(text);
+    case 'redact': return redactPii(text);
+    default: throw new Error(`'${action}' needs a language model`);
+  }
+};
+
+/**
+ * Runs one action over several texts (keyed by region id, or a single key for
+ * the whole document) and returns a transform for every key.
+ */
+export const runTransform = async (
+  provider: OcrProvider,
+  action: TransformAction,
+  texts: Record<string, string>,
+  targetLanguage?: string
+): Promise<Record<string, TextTransform>> => {
+  const wrap = (results: Record<string, string>) => Object.fromEntries(Object.keys(texts).map(id => [
+    id,
+    { action, ...(action === 'translate' ? { targetLanguage } : {}), text: results[id] ?? '' }
+  ]));
+
+  if (!isModelAction(action)) {
+    return wrap(Object.fromEntries(Object.entries(texts).map(([id, text]) => [id, applyLocalTransform(action, text)])));
+  }
+  if (!provider.transformText) throw new Error(`${provider.label} cannot ${action} text`);
+  return wrap(await provider.transformText(texts, action, targetLanguage));
+};
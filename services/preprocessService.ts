@@ -0,0 +1,441 @@
+import { DocumentPage, PageAdjustments, PreprocessSettings, Quad } from "../types";
+import { loadImage } from "./imageUtils";
+
+/**
+ * IMAGE PREPROCESSING
+ * Python Analogy: A small OpenCV pipeline (cv2.warpPerspective, a
+ * projection-profile deskew, cv2.adaptiveThreshold, cv2.resize) written
+ * against the canvas API, so it runs in the browser before anything is uploaded.
+ *
+ * Order matters: orient -> crop/straighten -> downscale -> deskew -> enhance.
+ * Geometry runs first so the (expensive) pixel loops only ever see the
+ * downscaled page.
+ */
+const SETTINGS_KEY = 'ocr_preprocess';
+
+export const DEFAULT_PREPROCESS: PreprocessSettings = {
+  review: true,
+  deskew: true,
+  enhance: 'none',
+  maxDimension: 2000
+};
+
+export const DEFAULT_ADJUSTMENTS: PageAdjustments = { rotation: 0, corners: null };
+
+export const MAX_DIMENSION_OPTIONS = [1200, 1600, 2000, 3000];
+
+/** Skew beyond this is almost certainly a layout, not a crooked scan. */
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+
+// 64 KB (the largest possible APP1 segment) of base64.
+const EXIF_SCAN_BASE64_CHARS = 87400;
+
+/** What the preview shows next to the "after" image. */
+export interface PreprocessReport {
+  width: number;
+  height: number;
+  originalBytes: number;
+  bytes: number;
+  /** Degrees the page was rotated back by the deskew step (0 when untouched). */
+  skewAngle: number;
+  /** EXIF orientation tag of the original (1 = upright). */
+  exifOrientation: number;
+}
+
+export const loadPreprocessSettings = (): PreprocessSettings => {
+  try {
+    return { ...DEFAULT_PREPROCESS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_PREPROCESS;
+  }
+};
+
+export const savePreprocessSettings = (settings: PreprocessSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** Size of the decoded payload behind a data URL. */
+export const dataUrlBytes = (dataUrl: string) => Math.round((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+/**
+ * Reads the EXIF orientation tag (1-8) of a JPEG data URL; 1 for anything else.
+ * Only used for reporting: browsers already apply it when decoding.
+ */
+export const readExifOrientation = (dataUrl: string): number => {
+  if (!dataUrl.startsWith('data:image/jpeg')) return 1;
+  const start = dataUrl.indexOf(',') + 1;
+  try {
+    // The APP1/EXIF segment sits at the very start of the file, so ~64 KB is enough.
+    const bytes = Uint8Array.from(atob(dataUrl.slice(start, start + EXIF_SCAN_BASE64_CHARS)), c => c.charCodeAt(0));
+    const view = new DataView(bytes.buffer);
+    let offset = 2;
+    while (offset + 10 < view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xFF00) !== 0xFF00) break;
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const entries = view.getUint16(ifd, little);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little);
+        }
+        return 1;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed EXIF: DataView throws a RangeError.
+  }
+  return 1;
+};
+
+// --- Canvas helpers ---
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const context2d = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = 'high';
+  return ctx;
+};
+
+const fitScale = (width: number, height: number, maxDimension: number) =>
+  Math.min(1, maxDimension / Math.max(width, height));
+
+/**
+ * Decodes the image upright and applies the manual quarter turns.
+ * The browser honours the EXIF orientation when decoding into an <img>;
+ * drawing it onto a canvas is what bakes that rotation into the pixels,
+ * since the OCR engines (and the region overlay math) ignore EXIF.
+ */
+export const orientImage = async (image: string, rotation: PageAdjustments['rotation'], maxDimension = Infinity) => {
+  const img = await loadImage(image);
+  const scale = fitScale(img.naturalWidth, img.naturalHeight, maxDimension);
+  const width = img.naturalWidth * scale;
+  const height = img.naturalHeight * scale;
+  const sideways = rotation === 90 || rotation === 270;
+
+  const canvas = createCanvas(sideways ? height : width, sideways ? width : height);
+  const ctx = context2d(canvas);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(rotation * Math.PI / 180);
+  ctx.drawImage(img, -width / 2, -height / 2, width, height);
+  return canvas;
+};
+
+// --- Crop & perspective ---
+
+const CORNER_TOLERANCE = 2;
+
+/** True when the corners describe an upright rectangle, i.e. a plain crop. */
+export const isRectangle = ([tl, tr, br, bl]: Quad) =>
+  Math.abs(tl.y - tr.y) <= CORNER_TOLERANCE && Math.abs(bl.y - br.y) <= CORNER_TOLERANCE &&
+  Math.abs(tl.x - bl.x) <= CORNER_TOLERANCE && Math.abs(tr.x - br.x) <= CORNER_TOLERANCE;
+
+export const fullPageQuad = (): Quad => [
+  { x: 0, y: 0 }, { x: 1000, y: 0 }, { x: 1000, y: 1000 }, { x: 0, y: 1000 }
+];
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const crop = (source: HTMLCanvasElement, [tl, , br]: Quad, maxDimension: number) => {
+  const x = tl.x / 1000 * source.width;
+  const y = tl.y / 1000 * source.height;
+  const width = (br.x - tl.x) / 1000 * source.width;
+  const height = (br.y - tl.y) / 1000 * source.height;
+  const scale = fitScale(width, height, maxDimension);
+  const canvas = createCanvas(width * scale, height * scale);
+  context2d(canvas).drawImage(source, x, y, width, height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Maps the unit square onto the quad (Heckbert's square-to-quad projection).
+ * Returns null for degenerate (collinear) corners.
+ */
+const squareToQuad = (quad: { x: number; y: number }[]) => {
+  const [p0, p1, p2, p3] = quad;
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  if (Math.abs(det) < 1e-9) return null;
+
+  const g = (dx3 * dy2 - dx2 * dy3) / det;
+  const h = (dx1 * dy3 - dx3 * dy1) / det;
+  const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x, c = p0.x;
+  const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y, f = p0.y;
+
+  return (u: number, v: number) => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+/** Straightens a photographed page: the quad becomes a flat rectangle (bilinear sampling). */
+const warpPerspective = (source: HTMLCanvasElement, quad: Quad, maxDimension: number) => {
+  const corners = quad.map(p => ({ x: p.x / 1000 * source.width, y: p.y / 1000 * source.height }));
+  const project = squareToQuad(corners);
+  if (!project) return null;
+
+  const [tl, tr, br, bl] = corners;
+  const naturalWidth = (distance(tl, tr) + distance(bl, br)) / 2;
+  const naturalHeight = (distance(tl, bl) + distance(tr, br)) / 2;
+  const scale = fitScale(naturalWidth, naturalHeight, maxDimension);
+  const canvas = createCanvas(naturalWidth * scale, naturalHeight * scale);
+  const { width, height } = canvas;
+
+  const src = context2d(source).getImageData(0, 0, source.width, source.height).data;
+  const ctx = context2d(canvas);
+  const out = ctx.createImageData(width, height);
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let oy = 0; oy < height; oy++) {
+    for (let ox = 0; ox < width; ox++) {
+      const { x, y } = project((ox + 0.5) / width, (oy + 0.5) / height);
+      const sx = Math.min(maxX, Math.max(0, x - 0.5));
+      const sy = Math.min(maxY, Math.max(0, y - 0.5));
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0, fy = sy - y0;
+      const i00 = (y0 * source.width + x0) * 4, i10 = (y0 * source.width + x1) * 4;
+      const i01 = (y1 * source.width + x0) * 4, i11 = (y1 * source.width + x1) * 4;
+      const o = (oy * width + ox) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = src[i00 + ch] * (1 - fx) + src[i10 + ch] * fx;
+        const bottom = src[i01 + ch] * (1 - fx) + src[i11 + ch] * fx;
+        out.data[o + ch] = top * (1 - fy) + bottom * fy;
+      }
+      out.data[o + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+const downscale = (source: HTMLCanvasElement, maxDimension: number) => {
+  const scale = fitScale(source.width, source.height, maxDimension);
+  if (scale === 1) return source;
+  const canvas = createCanvas(source.width * scale, source.height * scale);
+  context2d(canvas).drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// --- Deskew ---
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+/** Otsu's method: the grey level that best separates ink from paper. */
+const otsuThreshold = (histogram: number[], total: number) => {
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+  let sumBackground = 0, weightBackground = 0, best = 127, bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanB = sumBackground / weightBackground;
+    const meanF = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanB - meanF) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+/**
+ * Projection-profile skew estimate: at the right angle, text lines line up
+ * with the rows, so the row histogram of dark pixels is at its most "peaky".
+ * Runs on a ~600px copy; precision is limited to SKEW_STEP_DEGREES.
+ */
+const estimateSkew = (source: HTMLCanvasElement): number => {
+  const sample = downscale(source, 600);
+  const { width, height } = sample;
+  const data = context2d(sample).getImageData(0, 0, width, height).data;
+
+  const histogram = new Array(256).fill(0);
+  const grey = new Uint8Array(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = luminance(data, i * 4);
+    histogram[grey[i]]++;
+  }
+  const threshold = otsuThreshold(histogram, grey.length);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (grey[y * width + x] < threshold) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  // A blank or solid page has no lines to align.
+  if (xs.length < 50 || xs.length > grey.length * 0.5) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const rad = angle * Math.PI / 180;
+    const sin = Math.sin(rad), cos = Math.cos(rad);
+    const rows = new Float64Array(diagonal * 2);
+    for (let i = 0; i < xs.length; i++) rows[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+    let score = 0;
+    for (let r = 0; r < rows.length; r++) score += rows[r] * rows[r];
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+};
+
+/** Rotates back by 'angle' degrees onto a larger white canvas, so no corner is clipped. */
+const rotateBy = (source: HTMLCanvasElement, angle: number) => {
+  const rad = angle * Math.PI / 180;
+  const sin = Math.abs(Math.sin(rad)), cos = Math.abs(Math.cos(rad));
+  const canvas = createCanvas(source.width * cos + source.height * sin, source.width * sin + source.height * cos);
+  const ctx = context2d(canvas);
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(-rad);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+};
+
+// --- Enhancement ---
+
+/** Auto-levels: stretches the 1st-99th luminance percentiles to full black-white. */
+const stretchContrast = (canvas: HTMLCanvasElement) => {
+  const ctx = context2d(canvas);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const histogram = new Array(256).fill(0);
+  const total = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+
+  let low = 0, high = 255, seen = 0;
+  for (; low < 255 && (seen += histogram[low]) < total * 0.01; low++);
+  seen = 0;
+  for (; high > 0 && (seen += histogram[high]) < total * 0.01; high--);
+  if (high - low < 10) return canvas;
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let ch = 0; ch < 3; ch++) data[i + ch] = (data[i + ch] - low) * scale;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+/**
+ * Adaptive (Bradley) threshold using an integral image: each pixel is compared
+ * with its neighbourhood mean, which copes with shadows and uneven lighting
+ * that defeat a single global threshold on phone photos.
+ */
+const binarize = (canvas: HTMLCanvasElement) => {
+  const ctx = context2d(canvas);
+  const { width, height } = canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += luminance(data, (y * width + x) * 4);
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(8, Math.round(Math.max(width, height) / 32));
+  const BIAS = 0.85;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half), y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half), x1 = Math.min(width, x + half + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const i = (y * width + x) * 4;
+      const value = luminance(data, i) * area < sum * BIAS ? 0 : 255;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+/**
+ * Runs the full pipeline on one page. The result keeps the page id and
+ * source name, so it can replace the original in the document.
+ */
+export const preprocessPage = async (
+  page: DocumentPage,
+  settings: PreprocessSettings,
+  adjustments: PageAdjustments = DEFAULT_ADJUSTMENTS
+): Promise<{ page: DocumentPage; report: PreprocessReport }> => {
+  const { corners, rotation } = adjustments;
+  let canvas: HTMLCanvasElement;
+
+  if (corners && !isRectangle(corners)) {
+    // Warping reads the full-resolution pixels, so orient without downscaling first.
+    const oriented = await orientImage(page.image, rotation);
+    canvas = warpPerspective(oriented, corners, settings.maxDimension) ?? downscale(oriented, settings.maxDimension);
+  } else if (corners) {
+    canvas = crop(await orientImage(page.image, rotation), corners, settings.maxDimension);
+  } else {
+    canvas = await orientImage(page.image, rotation, settings.maxDimension);
+  }
+
+  let skewAngle = 0;
+  if (settings.deskew) {
+    skewAngle = estimateSkew(canvas);
+    if (skewAngle !== 0) canvas = rotateBy(canvas, skewAngle);
+  }
+
+  if (settings.enhance === 'contrast') canvas = stretchContrast(canvas);
+  if (settings.enhance === 'binarize') canvas = binarize(canvas);
+
+  // Black-and-white pages compress far better losslessly; everything else goes out as JPEG.
+  const image = settings.enhance === 'binarize' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.9);
+
+  return {
+    page: { ...page, image },
+    report: {
+      width: canvas.width,
+      height: canvas.height,
+      originalBytes: dataUrlBytes(page.image),
+      bytes: dataUrlBytes(image),
+      skewAngle,
+      exifOrientation: readExifOrientation(page.image)
+    }
+  };
+};
+
+/** Runs every page through the pipeline; used when the preview is skipped. */
+export const preprocessPages = async (
+  pages: DocumentPage[],
+  settings: PreprocessSettings,
+  adjustments: Record<string, PageAdjustments> = {}
+): Promise<DocumentPage[]> => {
+  const processed: DocumentPage[] = [];
+  for (const page of pages) processed.push((await preprocessPage(page, settings, adjustments[page.id])).page);
+  return processed;
+};
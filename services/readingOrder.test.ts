@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TextRegion } from '../types';
+import { applyReadingOrder } from './readingOrder';
+import { makeRegion } from './testing';
+
+const ids = (regions: TextRegion[]) => regions.map(r => r.id);
+
+// Two columns of two paragraphs each, listed in no particular order.
+const twoColumns = [
+  makeRegion('right-bottom', { ymin: 500, xmin: 550, ymax: 900, xmax: 950 }),
+  makeRegion('left-top', { ymin: 100, xmin: 50, ymax: 450, xmax: 450 }),
+  makeRegion('right-top', { ymin: 100, xmin: 550, ymax: 450, xmax: 950 }),
+  makeRegion('left-bottom', { ymin: 500, xmin: 50, ymax: 900, xmax: 450 }),
+];
+
+test('two columns are read down the left one, then down the right one', () => {
+  const ordered = applyReadingOrder(twoColumns, 'columns');
+  assert.deepEqual(ids(ordered), ['left-top', 'left-bottom', 'right-top', 'right-bottom']);
+  assert.deepEqual(ordered.map(r => r.order), [1, 2, 3, 4]);
+});
+
+test('right-to-left and row presets change the order of the same columns', () => {
+  assert.deepEqual(ids(applyReadingOrder(twoColumns, 'rtl')), ['right-top', 'right-bottom', 'left-top', 'left-bottom']);
+  assert.deepEqual(ids(applyReadingOrder(twoColumns, 'rows')), ['left-top', 'right-top', 'left-bottom', 'right-bottom']);
+});
+
+test('a full-width header comes first, and the columns under it are not sliced into rows', () => {
+  const regions = [...twoColumns, makeRegion('header', { ymin: 20, xmin: 50, ymax: 80, xmax: 950 })];
+  assert.deepEqual(ids(applyReadingOrder(regions, 'columns')), ['header', 'left-top', 'left-bottom', 'right-top', 'right-bottom']);
+});
+
+test('a footer spanning both columns comes last', () => {
+  const regions = [makeRegion('footer', { ymin: 950, xmin: 50, ymax: 990, xmax: 950 }), ...twoColumns];
+  assert.deepEqual(ids(applyReadingOrder(regions, 'columns')).at(-1), 'footer');
+});
+
+test('overlapping boxes fall back to top to bottom, then left to right', () => {
+  const regions = [
+    makeRegion('lower', { ymin: 300, xmin: 100, ymax: 600, xmax: 700 }),
+    makeRegion('upper-right', { ymin: 100, xmin: 400, ymax: 500, xmax: 900 }),
+    makeRegion('upper-left', { ymin: 100, xmin: 50, ymax: 500, xmax: 600 }),
+  ];
+  assert.deepEqual(ids(applyReadingOrder(regions, 'columns')), ['upper-left', 'upper-right', 'lower']);
+});
+
+test('slightly overlapping neighbours still count as separate columns', () => {
+  const regions = [
+    makeRegion('right', { ymin: 100, xmin: 495, ymax: 900, xmax: 950 }),
+    makeRegion('left', { ymin: 100, xmin: 50, ymax: 900, xmax: 500 }),
+  ];
+  assert.deepEqual(ids(applyReadingOrder(regions, 'columns')), ['left', 'right']);
+});
+
+test('a single region gets order 1', () => {
+  const ordered = applyReadingOrder([makeRegion('only', { ymin: 0, xmin: 0, ymax: 1000, xmax: 1000 }, { order: 7 })], 'columns');
+  assert.deepEqual(ordered.map(r => [r.id, r.order]), [['only', 1]]);
+});
+
+test('pages are numbered separately, and a page index limits the change to that page', () => {
+  const regions = [
+    ...twoColumns.map(r => ({ ...r, id: `p1-${r.id}`, pageIndex: 1, order: 9 })),
+    ...twoColumns,
+  ];
+  const all = applyReadingOrder(regions, 'columns');
+  assert.deepEqual(all.filter(r => r.pageIndex === 1).map(r => r.order), [1, 2, 3, 4]);
+
+  const onlyFirst = applyReadingOrder(regions, 'columns', 0);
+  assert.ok(onlyFirst.filter(r => r.pageIndex === 1).every(r => r.order === 9));
+});
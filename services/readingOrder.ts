@@ -0,0 +1,121 @@
+import { BoundingBox, TextRegion } from "../types";
+
+/**
+ * READING ORDER
+ * Python Analogy: A deterministic sort key computed from geometry alone, like
+ * sorting PDF text blocks with a recursive XY-cut instead of trusting the
+ * order a model happened to list them in.
+ *
+ * XY-cut: project the boxes onto one axis, cut at every empty gap, order the
+ * pieces, and recurse into each piece with the same rule. The preset decides
+ * which axis is cut first (columns or rows) and which way columns run.
+ */
+export type ReadingOrderPreset = 'columns' | 'rtl' | 'vertical' | 'rows';
+
+export const READING_ORDER_PRESETS: { id: ReadingOrderPreset; label: string }[] = [
+  { id: 'columns', label: 'Columns, left to right' },
+  { id: 'rtl', label: 'Columns, right to left (Arabic, Hebrew)' },
+  { id: 'vertical', label: 'Vertical text (Chinese, Japanese)' },
+  { id: 'rows', label: 'Row by row' },
+];
+
+const STORAGE_KEY = 'ocr_reading_order';
+const DEFAULT_PRESET: ReadingOrderPreset = 'columns';
+
+/** Boxes from a detector rarely line up exactly; overlaps this small (grid units) still count as a gap. */
+const OVERLAP_TOLERANCE = 8;
+
+type Axis = 'x' | 'y';
+
+interface PresetRule {
+  /** Axis cut first: 'x' splits into columns, 'y' into horizontal bands. */
+  primary: Axis;
+  /** Columns are read right to left. */
+  rightToLeft: boolean;
+}
+
+const RULES: Record<ReadingOrderPreset, PresetRule> = {
+  columns: { primary: 'x', rightToLeft: false },
+  rtl: { primary: 'x', rightToLeft: true },
+  // Vertical pages are laid out in bands read top to bottom, each band's columns right to left.
+  vertical: { primary: 'y', rightToLeft: true },
+  rows: { primary: 'y', rightToLeft: false },
+};
+
+const span = (box: BoundingBox, axis: Axis): [number, number] =>
+  axis === 'x' ? [box.xmin, box.xmax] : [box.ymin, box.ymax];
+
+/** Splits boxes at every gap along the axis, in ascending position. One group means no gap. */
+const splitAtGaps = (regions: TextRegion[], axis: Axis): TextRegion[][] => {
+  const sorted = [...regions].sort((a, b) => span(a.box, axis)[0] - span(b.box, axis)[0]);
+  const groups: TextRegion[][] = [];
+  let end = -Infinity;
+  for (const region of sorted) {
+    const [start, stop] = span(region.box, axis);
+    if (groups.length === 0 || start > end - OVERLAP_TOLERANCE) {
+      groups.push([region]);
+      end = stop;
+    } else {
+      groups[groups.length - 1].push(region);
+      end = Math.max(end, stop);
+    }
+  }
+  return groups;
+};
+
+const otherAxis = (axis: Axis): Axis => axis === 'x' ? 'y' : 'x';
+
+const orderGroups = (groups: TextRegion[][], axis: Axis, rule: PresetRule) =>
+  axis === 'x' && rule.rightToLeft ? [...groups].reverse() : groups;
+
+const xyCut = (regions: TextRegion[], rule: PresetRule): TextRegion[] => {
+  if (regions.length <= 1) return regions;
+
+  const primaryGroups = splitAtGaps(regions, rule.primary);
+  if (primaryGroups.length > 1) {
+    return orderGroups(primaryGroups, rule.primary, rule).flatMap(group => xyCut(group, rule));
+  }
+
+  // No gap on the preferred axis: something spans it (a title over two columns, say).
+  // Cut the other way, then glue neighbouring pieces back together while they still
+  // share a primary gap, so the columns under the title are not sliced into rows.
+  const secondary = otherAxis(rule.primary);
+  const pieces = splitAtGaps(regions, secondary);
+  if (pieces.length > 1) {
+    const merged: TextRegion[][] = [];
+    for (const piece of orderGroups(pieces, secondary, rule)) {
+      const last = merged[merged.length - 1];
+      if (last && splitAtGaps([...last, ...piece], rule.primary).length > 1) merged[merged.length - 1] = [...last, ...piece];
+      else merged.push(piece);
+    }
+    return merged.flatMap(group => xyCut(group, rule));
+  }
+
+  // Overlapping boxes can't be cut at all; fall back to top-to-bottom, then across.
+  return [...regions].sort((a, b) =>
+    a.box.ymin - b.box.ymin || (rule.rightToLeft ? b.box.xmax - a.box.xmax : a.box.xmin - b.box.xmin));
+};
+
+/** Re-numbers regions on every page (or just 'pageIndex') from their boxes. */
+export const applyReadingOrder = (regions: TextRegion[], preset: ReadingOrderPreset, pageIndex?: number): TextRegion[] => {
+  const rule = RULES[preset] ?? RULES[DEFAULT_PRESET];
+  const pageIndexes = Array.from(new Set(regions.map(r => r.pageIndex)))
+    .filter(p => pageIndex === undefined || p === pageIndex);
+
+  const reordered = new Map<string, number>();
+  for (const p of pageIndexes) {
+    xyCut(regions.filter(r => r.pageIndex === p), rule).forEach((r, i) => reordered.set(r.id, i + 1));
+  }
+  return regions
+    .map(r => reordered.has(r.id) ? { ...r, order: reordered.get(r.id)! } : r)
+    .sort((a, b) => a.pageIndex - b.pageIndex || a.order - b.order);
+};
+
+export const loadReadingOrderPreset = (): ReadingOrderPreset => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved && saved in RULES ? (saved as ReadingOrderPreset) : DEFAULT_PRESET;
+};
+
+export const saveReadingOrderPreset = (preset: ReadingOrderPreset) => {
+  localStorage.setItem(STORAGE_KEY, preset);
+};
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TextRegion } from '../types';
+import {
+  addRegion, createManualRegion, deleteRegion, mergeWithNext, moveRegionTo, moveRegionToPosition, orderBySequence,
+  splitRegion, updateRegionBox
+} from './regionEditing';
+import { makeRegion } from './testing';
+
+// Page 0 holds a, b, c, d top to bottom; page 1 holds x, which no page-0 edit may touch.
+const page = (): TextRegion[] => [
+  makeRegion('a', { ymin: 0, xmin: 0, ymax: 100, xmax: 1000 }, { order: 1 }),
+  makeRegion('b', { ymin: 200, xmin: 0, ymax: 300, xmax: 1000 }, { order: 2 }),
+  makeRegion('c', { ymin: 400, xmin: 0, ymax: 500, xmax: 1000 }, { order: 3, extractedText: 'old', confidence: 0.9 }),
+  makeRegion('d', { ymin: 600, xmin: 0, ymax: 700, xmax: 1000 }, { order: 4 }),
+  makeRegion('x', { ymin: 0, xmin: 0, ymax: 100, xmax: 100 }, { order: 1, pageIndex: 1 }),
+];
+
+/** 'id:order' per region on page 0, in list order, which must also be reading order. */
+const sequence = (regions: TextRegion[]) =>
+  regions.filter(r => r.pageIndex === 0).map(r => `${r.id}:${r.order}`);
+
+const untouchedOtherPage = (regions: TextRegion[]) =>
+  assert.deepEqual(regions.filter(r => r.pageIndex === 1).map(r => [r.id, r.order]), [['x', 1]]);
+
+test('split puts both halves in the original slot and renumbers the rest', () => {
+  const split = splitRegion(page(), 'b', 'horizontal');
+  const [top, bottom] = split.filter(r => r.description.startsWith('b ('));
+  assert.deepEqual(sequence(split), ['a:1', `${top.id}:2`, `${bottom.id}:3`, 'c:4', 'd:5']);
+  assert.deepEqual([top.box, bottom.box], [
+    { ymin: 200, xmin: 0, ymax: 250, xmax: 1000 },
+    { ymin: 250, xmin: 0, ymax: 300, xmax: 1000 },
+  ]);
+  untouchedOtherPage(split);
+});
+
+test('a vertical split gives a left and a right half, and too small a region is not split', () => {
+  const split = splitRegion(page(), 'a', 'vertical');
+  assert.deepEqual(split.filter(r => r.description.startsWith('a (')).map(r => [r.box.xmin, r.box.xmax]), [[0, 500], [500, 1000]]);
+
+  const tiny = [makeRegion('t', { ymin: 0, xmin: 0, ymax: 15, xmax: 500 }, { order: 1 })];
+  assert.equal(splitRegion(tiny, 't', 'horizontal'), tiny);
+});
+
+test('merge joins a region with the next one into their union and drops the stale text', () => {
+  const merged = mergeWithNext(page(), 'b');
+  assert.deepEqual(sequence(merged), ['a:1', 'b:2', 'd:3']);
+  const b = merged.find(r => r.id === 'b')!;
+  assert.deepEqual(b.box, { ymin: 200, xmin: 0, ymax: 500, xmax: 1000 });
+  assert.equal(b.extractedText, undefined);
+  assert.equal(b.confidence, undefined);
+  untouchedOtherPage(merged);
+});
+
+test('the last region on a page has nothing to merge with', () => {
+  const regions = page();
+  assert.equal(mergeWithNext(regions, 'd'), regions);
+});
+
+test('moving onto another region takes its slot in either direction', () => {
+  assert.deepEqual(sequence(moveRegionTo(page(), 'a', 'c')), ['b:1', 'c:2', 'a:3', 'd:4']);
+  assert.deepEqual(sequence(moveRegionTo(page(), 'd', 'b')), ['a:1', 'd:2', 'b:3', 'c:4']);
+  const regions = page();
+  assert.equal(moveRegionTo(regions, 'a', 'x'), regions, 'regions never move across pages');
+});
+
+test('moving to a position is 1-based and clamped to the page', () => {
+  assert.deepEqual(sequence(moveRegionToPosition(page(), 'a', 3)), ['b:1', 'c:2', 'a:3', 'd:4']);
+  assert.deepEqual(sequence(moveRegionToPosition(page(), 'c', 1)), ['c:1', 'a:2', 'b:3', 'd:4']);
+  assert.deepEqual(sequence(moveRegionToPosition(page(), 'b', 99)), ['a:1', 'c:2', 'd:3', 'b:4']);
+  assert.deepEqual(sequence(moveRegionToPosition(page(), 'b', -5)), ['b:1', 'a:2', 'c:3', 'd:4']);
+});
+
+test('clicked regions go first in click order, the rest keep their order', () => {
+  const ordered = orderBySequence(page(), 0, ['d', 'b']);
+  assert.deepEqual(sequence(ordered), ['d:1', 'b:2', 'a:3', 'c:4']);
+  untouchedOtherPage(ordered);
+});
+
+test('adding and deleting keep the numbering gapless', () => {
+  const manual = createManualRegion({ ymin: 900, xmin: 800, ymax: 800, xmax: 100 }, 0);
+  assert.deepEqual(manual.box, { ymin: 800, xmin: 100, ymax: 900, xmax: 800 });
+  const added = addRegion(page(), manual);
+  assert.deepEqual(sequence(added), ['a:1', 'b:2', 'c:3', 'd:4', `${manual.id}:5`]);
+
+  assert.deepEqual(sequence(deleteRegion(added, 'b')), ['a:1', 'c:2', 'd:3', `${manual.id}:4`]);
+});
+
+test('moving a box drops its text so it gets scanned again', () => {
+  const moved = updateRegionBox(page(), 'c', { ymin: 450, xmin: 0, ymax: 550, xmax: 1000 }).find(r => r.id === 'c')!;
+  assert.equal(moved.extractedText, undefined);
+  assert.equal(moved.order, 3);
+});
@@ -0,0 +1,194 @@
+import { BoundingBox, RegionKind, TextRegion } from "../types";
+
+/**
+ * REGION EDITING
+ * Python Analogy: A module of pure functions (no classes, no I/O) that take the
+ * current list of regions and return a new one, like functional list transforms.
+ *
+ * All boxes live in the same 0-1000 normalized space the OCR providers use.
+ * Any geometry change drops 'extractedText' (and 'table'), since the old text no longer
+ * matches the box and the region has to be scanned again.
+ */
+const GRID_MAX = 1000;
+
+// Everything a scan fills in; cleared together so no stale score outlives its text.
+const CLEARED_EXTRACTION: Partial<TextRegion> = {
+  extractedText: undefined,
+  table: undefined,
+  confidence: undefined,
+  lineConfidence: undefined,
+  uncertain: undefined,
+  verified: undefined,
+  transform: undefined,
+  language: undefined,
+  codeLanguage: undefined,
+  cached: undefined
+};
+
+/** Smallest box (in normalized units) we accept from a drag or a split. */
+export const MIN_REGION_SIZE = 10;
+
+const clamp = (value: number) => Math.min(GRID_MAX, Math.max(0, Math.round(value)));
+
+/** Orders the corners (a drag can go in any direction) and keeps them on the grid. */
+export const normalizeBox = (box: BoundingBox): BoundingBox => ({
+  ymin: clamp(Math.min(box.ymin, box.ymax)),
+  xmin: clamp(Math.min(box.xmin, box.xmax)),
+  ymax: clamp(Math.max(box.ymin, box.ymax)),
+  xmax: clamp(Math.max(box.xmin, box.xmax))
+});
+
+export const isUsableBox = (box: BoundingBox) =>
+  box.xmax - box.xmin >= MIN_REGION_SIZE && box.ymax - box.ymin >= MIN_REGION_SIZE;
+
+const newRegion = (box: BoundingBox, pageIndex: number, description: string): TextRegion => ({
+  id: Math.random().toString(36).substr(2, 9),
+  description,
+  kind: 'paragraph',
+  box,
+  order: 0,
+  isActive: true,
+  pageIndex
+});
+
+/** Re-assigns 1..n on one page, keeping the current relative order. */
+const renumberPage = (regions: TextRegion[], pageIndex: number): TextRegion[] => {
+  const onPage = regions
+    .filter(r => r.pageIndex === pageIndex)
+    .sort((a, b) => a.order - b.order)
+    .map((r, i) => ({ ...r, order: i + 1 }));
+
+  return [...regions.filter(r => r.pageIndex !== pageIndex), ...onPage]
+    .sort((a, b) => a.pageIndex - b.pageIndex || a.order - b.order);
+};
+
+/** Builds a hand-drawn region; pass it to 'addRegion' to put it in the sequence. */
+export const createManualRegion = (box: BoundingBox, pageIndex: number): TextRegion =>
+  newRegion(normalizeBox(box), pageIndex, 'Manual region');
+
+/** Appends a region at the end of its page's sequence. */
+export const addRegion = (regions: TextRegion[], region: TextRegion): TextRegion[] =>
+  renumberPage([...regions, { ...region, order: Number.MAX_SAFE_INTEGER }], region.pageIndex);
+
+/** Moves a region to the slot of another one on the same page (drag and drop in the queue). */
+export const moveRegionTo = (regions: TextRegion[], id: string, targetId: string): TextRegion[] => {
+  const source = regions.find(r => r.id === id);
+  const target = regions.find(r => r.id === targetId);
+  if (!source || !target || source === target || source.pageIndex !== target.pageIndex) return regions;
+  // Half steps land the region just before or after the target, depending on the direction of the move.
+  const order = source.order < target.order ? target.order + 0.5 : target.order - 0.5;
+  return renumberPage(regions.map(r => r.id === id ? { ...r, order } : r), source.pageIndex);
+};
+
+/** Gives a region the 'position'-th place (1-based, clamped to the page) in its page's reading order. */
+export const moveRegionToPosition = (regions: TextRegion[], id: string, position: number): TextRegion[] => {
+  const source = regions.find(r => r.id === id);
+  if (!source) return regions;
+  const count = regions.filter(r => r.pageIndex === source.pageIndex).length;
+  const target = Math.min(Math.max(1, Math.round(position)), count);
+  if (target === source.order) return regions;
+  const order = target > source.order ? target + 0.5 : target - 0.5;
+  return renumberPage(regions.map(r => r.id === id ? { ...r, order } : r), source.pageIndex);
+};
+
+/**
+ * Puts the regions clicked so far ('sequence') first on their page, in click
+ * order; the rest follow in their current relative order.
+ */
+export const orderBySequence = (regions: TextRegion[], pageIndex: number, sequence: string[]): TextRegion[] =>
+  renumberPage(regions.map(r => {
+    const position = sequence.indexOf(r.id);
+    if (r.pageIndex !== pageIndex) return r;
+    return { ...r, order: position >= 0 ? position - sequence.length : r.order };
+  }), pageIndex);
+
+export const updateRegionBox = (regions: TextRegion[], id: string, box: BoundingBox): TextRegion[] =>
+  regions.map(r => r.id === id ? { ...r, ...CLEARED_EXTRACTION, box: normalizeBox(box) } : r);
+
+/**
+ * Replaces a region's text with a hand-edited version. Tables are re-parsed from
+ * their tab-separated form so the grid follows the text. Flagged character spans
+ * and per-line scores point into the old text, so they are dropped.
+ */
+export const updateRegionText = (regions: TextRegion[], id: string, text: string): TextRegion[] =>
+  regions.map(r => r.id === id ? {
+    ...r,
+    extractedText: text,
+    table: r.table ? text.split('\n').filter(line => line.trim()).map(line => line.split('\t')) : undefined,
+    lineConfidence: undefined,
+    uncertain: undefined,
+    // A translation or summary of the old text would silently disagree with the new one.
+    transform: undefined
+  } : r);
+
+/** Changing the kind changes how a region is read (e.g. as a table), so it must be re-scanned. */
+export const setRegionKind = (regions: TextRegion[], id: string, kind: RegionKind): TextRegion[] =>
+  regions.map(r => r.id === id && r.kind !== kind ? { ...r, ...CLEARED_EXTRACTION, kind } : r);
+
+/** Corrects the detected language of a 'code' region; the text itself stays as it is. */
+export const setCodeLanguage = (regions: TextRegion[], id: string, codeLanguage: string | undefined): TextRegion[] =>
+  regions.map(r => r.id === id ? { ...r, codeLanguage } : r);
+
+export const deleteRegion = (regions: TextRegion[], id: string): TextRegion[] => {
+  const target = regions.find(r => r.id === id);
+  if (!target) return regions;
+  return renumberPage(regions.filter(r => r.id !== id), target.pageIndex);
+};
+
+/**
+ * Cuts a region in half. 'horizontal' gives a top and bottom part (for merged
+ * paragraphs), 'vertical' a left and right part (for merged columns).
+ * Both halves take the original's slot in the sequence.
+ */
+export const splitRegion = (
+  regions: TextRegion[],
+  id: string,
+  direction: 'horizontal' | 'vertical'
+): TextRegion[] => {
+  const target = regions.find(r => r.id === id);
+  if (!target) return regions;
+
+  const { ymin, xmin, ymax, xmax } = target.box;
+  const [first, second]: BoundingBox[] = direction === 'horizontal'
+    ? [{ ymin, xmin, ymax: (ymin + ymax) / 2, xmax }, { ymin: (ymin + ymax) / 2, xmin, ymax, xmax }]
+    : [{ ymin, xmin, ymax, xmax: (xmin + xmax) / 2 }, { ymin, xmin: (xmin + xmax) / 2, ymax, xmax }];
+
+  if (!isUsableBox(normalizeBox(first)) || !isUsableBox(normalizeBox(second))) return regions;
+
+  const halves = [first, second].map((box, i) => ({
+    ...newRegion(normalizeBox(box), target.pageIndex, `${target.description} (${i + 1}/2)`),
+    isActive: target.isActive,
+    kind: target.kind,
+    // Fractional orders slot both halves where the original was before renumbering.
+    order: target.order + i * 0.5
+  }));
+
+  return renumberPage([...regions.filter(r => r.id !== id), ...halves], target.pageIndex);
+};
+
+/** Merges a region with the next one in its page's sequence into their bounding union. */
+export const mergeWithNext = (regions: TextRegion[], id: string): TextRegion[] => {
+  const target = regions.find(r => r.id === id);
+  if (!target) return regions;
+
+  const next = regions
+    .filter(r => r.pageIndex === target.pageIndex && r.order > target.order)
+    .sort((a, b) => a.order - b.order)[0];
+  if (!next) return regions;
+
+  const merged: TextRegion = {
+    ...target,
+    ...CLEARED_EXTRACTION,
+    box: {
+      ymin: Math.min(target.box.ymin, next.box.ymin),
+      xmin: Math.min(target.box.xmin, next.box.xmin),
+      ymax: Math.max(target.box.ymax, next.box.ymax),
+      xmax: Math.max(target.box.xmax, next.box.xmax)
+    }
+  };
+
+  return renumberPage(
+    regions.filter(r => r.id !== next.id).map(r => r.id === id ? merged : r),
+    target.pageIndex
+  );
+};
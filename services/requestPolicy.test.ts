@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestError } from './errors';
+import { classifyError, withRetry } from './requestPolicy';
+
+// The shortest backoff (half of one second) keeps the retry tests quick.
+beforeEach(() => {
+  mock.method(Math, 'random', () => 0);
+  mock.method(console, 'warn', () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const failing = (error: unknown) => mock.fn(async (_signal: AbortSignal): Promise<string> => { throw error; });
+
+test('raw SDK and fetch errors are sorted into kinds', () => {
+  assert.equal(classifyError(Object.assign(new Error('Too many'), { status: 429 })).kind, 'quota');
+  assert.equal(classifyError(new Error('{"error":{"code": 503}}')).kind, 'server');
+  assert.equal(classifyError(new Error('API key not valid')).kind, 'auth');
+  assert.equal(classifyError(Object.assign(new Error('Unsupported MIME type'), { status: 400 })).kind, 'invalid_image');
+  assert.equal(classifyError(new TypeError('fetch failed')).kind, 'network');
+  assert.equal(classifyError(new Error('odd')).kind, 'unknown');
+  const controller = new AbortController();
+  controller.abort();
+  assert.equal(classifyError(new Error('The operation was aborted'), controller.signal).kind, 'cancelled');
+});
+
+test('a transient failure is retried until the call succeeds', async () => {
+  let calls = 0;
+  const result = await withRetry(async () => {
+    calls++;
+    if (calls === 1) throw new RequestError('server', 'Overloaded');
+    return 'ok';
+  }, { timeoutMs: 1000 });
+  assert.equal(result, 'ok');
+  assert.equal(calls, 2);
+});
+
+test('failures that will not go away are not retried', async () => {
+  const call = failing(new RequestError('auth', 'Bad key'));
+  await assert.rejects(withRetry(call, { timeoutMs: 1000 }), { kind: 'auth' });
+  assert.equal(call.mock.callCount(), 1);
+});
+
+test('it gives up after the last attempt with the last error', async () => {
+  const call = failing(new RequestError('network', 'Offline'));
+  await assert.rejects(withRetry(call, { timeoutMs: 1000, attempts: 2 }), { kind: 'network' });
+  assert.equal(call.mock.callCount(), 2);
+});
+
+test('an attempt that hangs times out and its signal is aborted', async () => {
+  let attemptSignal: AbortSignal | undefined;
+  await assert.rejects(withRetry(signal => {
+    attemptSignal = signal;
+    return new Promise(() => {});
+  }, { timeoutMs: 20, attempts: 1 }), { kind: 'timeout' });
+  assert.equal(attemptSignal?.aborted, true);
+});
+
+test('cancelling during the backoff stops the retries at once', async () => {
+  const controller = new AbortController();
+  const call = failing(new RequestError('server', 'Overloaded'));
+  setTimeout(() => controller.abort(), 50);
+  const started = Date.now();
+  await assert.rejects(withRetry(call, { timeoutMs: 1000, signal: controller.signal }), { kind: 'cancelled' });
+  assert.equal(call.mock.callCount(), 1);
+  assert.ok(Date.now() - started < 400, 'did not wait out the backoff');
+});
+
+test('cancelling mid-call rejects without waiting for the call', async () => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 20);
+  await assert.rejects(withRetry(() => new Promise(() => {}), { timeoutMs: 5000, signal: controller.signal }), { kind: 'cancelled' });
+});
+
+test('an already cancelled signal never starts the call', async () => {
+  const controller = new AbortController();
+  controller.abort();
+  const call = mock.fn(async () => 'ok');
+  await assert.rejects(withRetry(call, { timeoutMs: 1000, signal: controller.signal }), { kind: 'cancelled' });
+  assert.equal(call.mock.callCount(), 0);
+});
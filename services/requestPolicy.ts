@@ -0,0 +1,105 @@
+import { RequestError, isRetryable } from "./errors";
+
+/**
+ * REQUEST POLICY
+ * Python Analogy: A 'tenacity.retry' decorator (stop_after_attempt +
+ * wait_exponential) around a call with a timeout, plus the except-clauses that
+ * sort raw SDK and fetch errors into our RequestError kinds.
+ *
+ * Every attempt gets its own AbortSignal, aborted on timeout or when the
+ * caller's signal fires (the Cancel button), so a hung request never blocks
+ * the UI. Only transient failures (rate limits, 5xx, network, timeouts) are retried.
+ */
+export interface RequestPolicy {
+  /** Per attempt, not overall. */
+  timeoutMs: number;
+  attempts?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+
+const cancelled = () => new RequestError('cancelled', 'Request cancelled');
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw cancelled();
+};
+
+// The SDK's ApiError carries 'status'; some wrapped errors only mention it in the message.
+const statusOf = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  const match = String(error?.message ?? '').match(/"code":\s*(\d{3})/);
+  return match ? Number(match[1]) : undefined;
+};
+
+/** Sorts anything a provider call can throw into a RequestError kind. */
+export const classifyError = (error: unknown, signal?: AbortSignal): RequestError => {
+  if (error instanceof RequestError) return error;
+  if (signal?.aborted) return cancelled();
+  const status = statusOf(error);
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return new RequestError('quota', message);
+  if (status === 401 || status === 403 || /API[_ ]?key/i.test(message)) return new RequestError('auth', message);
+  if (status === 400 && /image|mime|inline_?data|media/i.test(message)) return new RequestError('invalid_image', message);
+  if (status !== undefined && status >= 500) return new RequestError('server', message);
+  if (error instanceof TypeError || /fetch failed|network|ECONNRESET|ENOTFOUND|EAI_AGAIN/i.test(message)) {
+    return new RequestError('network', message);
+  }
+  return new RequestError('unknown', message);
+};
+
+/** Exponential, with jitter so parallel clients don't retry in lockstep. */
+const backoffDelay = (attempt: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  // An 'abort' listener added after the fact never fires, so check first.
+  if (signal?.aborted) return reject(cancelled());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const attemptWithTimeout = <T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+  throwIfCancelled(outer);
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+  const forward = () => controller.abort();
+  outer?.addEventListener('abort', forward, { once: true });
+
+  // Aborting is best-effort in the SDK, so we stop waiting as soon as the signal fires.
+  return new Promise<T>((resolve, reject) => {
+    controller.signal.addEventListener('abort', () =>
+      reject(timedOut ? new RequestError('timeout', `No answer after ${Math.round(timeoutMs / 1000)}s`) : cancelled()));
+    call(controller.signal).then(resolve, reject);
+  }).finally(() => {
+    clearTimeout(timer);
+    outer?.removeEventListener('abort', forward);
+  });
+};
+
+/** Runs 'call' under the policy; throws a classified RequestError once it gives up. */
+export const withRetry = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  { timeoutMs, attempts = DEFAULT_ATTEMPTS, signal }: RequestPolicy
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await attemptWithTimeout(call, timeoutMs, signal);
+    } catch (raw) {
+      const error = classifyError(raw, signal);
+      if (!isRetryable(error) || attempt >= attempts) throw error;
+      console.warn(`Attempt ${attempt} of ${attempts} failed (${error.kind}); retrying.`);
+      await sleep(backoffDelay(attempt), signal);
+    }
+  }
+};
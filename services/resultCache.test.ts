@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ScanOptions, TextRegion } from '../types';
+import { DEFAULT_SCAN_OPTIONS } from './scanOptions';
+import { cacheRegions, cacheResult, getCachedRegions, getCachedResults, resultCacheSize } from './resultCache';
+import { createScriptedProvider, installMemoryStorage, makeRegion } from './testing';
+
+const { provider } = createScriptedProvider({});
+const region = makeRegion('r1', { ymin: 100, xmin: 100, ymax: 200, xmax: 900 });
+const HASH = 'a'.repeat(64);
+
+const hit = (overrides: { provider?: typeof provider; hash?: string; region?: TextRegion; options?: ScanOptions } = {}) => {
+  const target = overrides.region ?? region;
+  return getCachedResults(overrides.provider ?? provider, overrides.hash ?? HASH, [target], overrides.options ?? DEFAULT_SCAN_OPTIONS)[target.id];
+};
+
+beforeEach(() => {
+  installMemoryStorage();
+  // Every write gets its own timestamp, so "least recently used" is well defined.
+  let clock = 0;
+  mock.method(Date, 'now', () => ++clock);
+  cacheResult(provider, HASH, region, DEFAULT_SCAN_OPTIONS, { text: 'Hello', confidence: 0.9 });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test('a region is found again by its box and kind, whatever its id and order', () => {
+  assert.deepEqual(hit(), { text: 'Hello', confidence: 0.9, cached: true });
+  assert.deepEqual(hit({ region: { ...region, id: 'other', order: 5 } })?.text, 'Hello');
+});
+
+test('changing any part of the key is a miss', () => {
+  const misses: Record<string, Parameters<typeof hit>[0]> = {
+    'engine': { provider: { ...provider, id: 'gemini' } },
+    'engine version': { provider: { ...provider, version: 'scripted-2' } },
+    'image': { hash: 'b'.repeat(64) },
+    'box': { region: { ...region, box: { ...region.box, xmax: 901 } } },
+    'kind': { region: { ...region, kind: 'table' } },
+    'languages': { options: { ...DEFAULT_SCAN_OPTIONS, languages: ['de'] } },
+    'handwriting': { options: { ...DEFAULT_SCAN_OPTIONS, handwriting: true } },
+    'line breaks': { options: { ...DEFAULT_SCAN_OPTIONS, lineBreaks: 'reflow' } },
+  };
+  for (const [part, overrides] of Object.entries(misses)) assert.equal(hit(overrides), undefined, part);
+});
+
+test('the order of the languages does not matter', () => {
+  const options: ScanOptions = { ...DEFAULT_SCAN_OPTIONS, languages: ['en', 'de'] };
+  cacheResult(provider, HASH, region, options, { text: 'Bilingual' });
+  assert.equal(hit({ options: { ...options, languages: ['de', 'en'] } })?.text, 'Bilingual');
+});
+
+test('empty text is not cached, so a skipped region is tried again', () => {
+  const skipped = makeRegion('r2', { ymin: 300, xmin: 100, ymax: 400, xmax: 900 });
+  cacheResult(provider, HASH, skipped, DEFAULT_SCAN_OPTIONS, { text: '  ' });
+  assert.equal(hit({ region: skipped }), undefined);
+});
+
+test('detected layouts come back as fresh regions on the requested page', () => {
+  cacheRegions(provider, HASH, DEFAULT_SCAN_OPTIONS, [{ ...region, order: 3 }]);
+  const [restored] = getCachedRegions(provider, HASH, 4, DEFAULT_SCAN_OPTIONS)!;
+  assert.deepEqual({ box: restored.box, order: restored.order, pageIndex: restored.pageIndex }, { box: region.box, order: 3, pageIndex: 4 });
+  assert.notEqual(restored.id, region.id);
+  assert.equal(getCachedRegions(provider, HASH, 0, { ...DEFAULT_SCAN_OPTIONS, handwriting: true }), null);
+});
+
+test('past 500 entries the least recently used one is dropped', () => {
+  const boxAt = (i: number) => makeRegion(`n${i}`, { ymin: i, xmin: 0, ymax: i + 10, xmax: 10 });
+  for (let i = 0; i < 499; i++) cacheResult(provider, HASH, boxAt(i), DEFAULT_SCAN_OPTIONS, { text: `n${i}` });
+  assert.equal(resultCacheSize(), 500);
+
+  // Serving the oldest entry again marks it as used, so the next oldest goes instead.
+  cacheResult(provider, HASH, region, DEFAULT_SCAN_OPTIONS, hit()!);
+  cacheResult(provider, HASH, boxAt(999), DEFAULT_SCAN_OPTIONS, { text: 'newest' });
+
+  assert.equal(resultCacheSize(), 500);
+  assert.equal(hit()?.text, 'Hello');
+  assert.equal(hit({ region: boxAt(0) }), undefined);
+  assert.equal(hit({ region: boxAt(1) })?.text, 'n1');
+  assert.equal(hit({ region: boxAt(999) })?.text, 'newest');
+});
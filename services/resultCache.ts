@@ -0,0 +1,121 @@
+import { BoundingBox, RegionResult, RegionResultMap, ScanOptions, TextRegion } from "../types";
+import type { OcrProvider } from "./ocrProvider";
+
+/**
+ * RESULT CACHE
+ * Python Analogy: 'functools.lru_cache' persisted to disk (like 'diskcache'),
+ * keyed by a SHA-256 of the page image instead of the function arguments.
+ *
+ * Layout analysis is cached per page, extraction per region. A region is keyed
+ * by what decides its text (box and kind), not by its id, which is new on every
+ * detection; reading order doesn't change what's inside a box, so reordering
+ * keeps cached text. Every key also names the engine, its model/prompt version
+ * and the scan options, so changing any of those is a miss.
+ */
+const STORAGE_KEY = 'ocr_result_cache';
+/** Least recently used entries are dropped past this, or sooner if storage runs out. */
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  value: unknown;
+  usedAt: number;
+}
+
+type CacheTable = Record<string, CacheEntry>;
+
+/** What layout analysis found, minus the parts that are new for every document. */
+type CachedRegion = Pick<TextRegion, 'box' | 'kind' | 'description' | 'order'>;
+
+const loadTable = (): CacheTable => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveTable = (table: CacheTable) => {
+  let entries = Object.entries(table).sort((a, b) => b[1].usedAt - a[1].usedAt).slice(0, MAX_ENTRIES);
+  // A full localStorage throws; halve the cache until it fits (or is empty).
+  while (entries.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+      return;
+    } catch {
+      entries = entries.slice(0, Math.floor(entries.length / 2));
+    }
+  }
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/** Hex SHA-256 of a page's base64 data, as sent to the engine. */
+export const hashImage = async (base64Image: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(base64Image));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const optionsKey = (options: ScanOptions) =>
+  `${[...options.languages].sort().join('+')}|${options.handwriting ? 'handwriting' : ''}|${options.lineBreaks}`;
+
+const engineKey = (provider: OcrProvider) => `${provider.id}@${provider.version}`;
+
+const boxKey = (box: BoundingBox) => `${box.ymin},${box.xmin},${box.ymax},${box.xmax}`;
+
+const detectionKey = (provider: OcrProvider, imageHash: string, options: ScanOptions) =>
+  `detect|${engineKey(provider)}|${imageHash}|${optionsKey(options)}`;
+
+const regionKey = (provider: OcrProvider, imageHash: string, region: TextRegion, options: ScanOptions) =>
+  `extract|${engineKey(provider)}|${imageHash}|${boxKey(region.box)}|${region.kind}|${optionsKey(options)}`;
+
+/** Cached layout for a page, as fresh regions on 'pageIndex'; null on a miss. */
+export const getCachedRegions = (provider: OcrProvider, imageHash: string, pageIndex: number, options: ScanOptions): TextRegion[] | null => {
+  const table = loadTable();
+  const entry = table[detectionKey(provider, imageHash, options)];
+  if (!entry) return null;
+  entry.usedAt = Date.now();
+  saveTable(table);
+  return (entry.value as CachedRegion[]).map(r => ({
+    ...r,
+    id: Math.random().toString(36).substr(2, 9),
+    isActive: true,
+    pageIndex
+  }));
+};
+
+export const cacheRegions = (provider: OcrProvider, imageHash: string, options: ScanOptions, regions: TextRegion[]) => {
+  const table = loadTable();
+  const value: CachedRegion[] = regions.map(({ box, kind, description, order }) => ({ box, kind, description, order }));
+  table[detectionKey(provider, imageHash, options)] = { value, usedAt: Date.now() };
+  saveTable(table);
+};
+
+/**
+ * Results already known for some of a page's regions, marked 'cached'; misses are left out.
+ * A read-only lookup (cheap enough to run while rendering); serving a hit means passing it
+ * back to 'cacheResult', which also marks it as recently used.
+ */
+export const getCachedResults = (provider: OcrProvider, imageHash: string, regions: TextRegion[], options: ScanOptions): RegionResultMap => {
+  const table = loadTable();
+  const hits: RegionResultMap = {};
+  for (const region of regions) {
+    const entry = table[regionKey(provider, imageHash, region, options)];
+    if (entry) hits[region.id] = { ...(entry.value as RegionResult), cached: true };
+  }
+  return hits;
+};
+
+/** Remembers one region's result. Empty text isn't cached, so a region the engine skipped is tried again. */
+export const cacheResult = (provider: OcrProvider, imageHash: string, region: TextRegion, options: ScanOptions, result: RegionResult) => {
+  if (!result.text.trim()) return;
+  const table = loadTable();
+  const { cached: _cached, ...value } = result;
+  table[regionKey(provider, imageHash, region, options)] = { value, usedAt: Date.now() };
+  saveTable(table);
+};
+
+/** Number of cached pages and regions, for the settings UI. */
+export const resultCacheSize = (): number => Object.keys(loadTable()).length;
+
+export const clearResultCache = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
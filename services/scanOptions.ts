@@ -0,0 +1,123 @@
+import { ScanOptions } from "../types";
+
+/**
+ * SCAN OPTIONS
+ * Python Analogy: A settings dataclass with a lookup table of supported
+ * languages, shared by every engine so "Arabic" means the same thing to
+ * Gemini's prompt, Tesseract's traineddata and the exporters.
+ */
+export interface ScanLanguage {
+  /** ISO 639-1 code, stored on regions. */
+  code: string;
+  label: string;
+  script: Script;
+  /** Tesseract traineddata name. */
+  tesseract: string;
+  rightToLeft?: boolean;
+}
+
+type Script = 'Latin' | 'Cyrillic' | 'Greek' | 'Arabic' | 'Hebrew' | 'Devanagari' | 'Han' | 'Kana' | 'Hangul' | 'Thai';
+
+export const SCAN_LANGUAGES: ScanLanguage[] = [
+  { code: 'en', label: 'English', script: 'Latin', tesseract: 'eng' },
+  { code: 'es', label: 'Spanish', script: 'Latin', tesseract: 'spa' },
+  { code: 'fr', label: 'French', script: 'Latin', tesseract: 'fra' },
+  { code: 'de', label: 'German', script: 'Latin', tesseract: 'deu' },
+  { code: 'it', label: 'Italian', script: 'Latin', tesseract: 'ita' },
+  { code: 'pt', label: 'Portuguese', script: 'Latin', tesseract: 'por' },
+  { code: 'nl', label: 'Dutch', script: 'Latin', tesseract: 'nld' },
+  { code: 'pl', label: 'Polish', script: 'Latin', tesseract: 'pol' },
+  { code: 'tr', label: 'Turkish', script: 'Latin', tesseract: 'tur' },
+  { code: 'ru', label: 'Russian', script: 'Cyrillic', tesseract: 'rus' },
+  { code: 'uk', label: 'Ukrainian', script: 'Cyrillic', tesseract: 'ukr' },
+  { code: 'el', label: 'Greek', script: 'Greek', tesseract: 'ell' },
+  { code: 'ar', label: 'Arabic', script: 'Arabic', tesseract: 'ara', rightToLeft: true },
+  { code: 'fa', label: 'Persian', script: 'Arabic', tesseract: 'fas', rightToLeft: true },
+  { code: 'he', label: 'Hebrew', script: 'Hebrew', tesseract: 'heb', rightToLeft: true },
+  { code: 'hi', label: 'Hindi', script: 'Devanagari', tesseract: 'hin' },
+  { code: 'zh', label: 'Chinese (Simplified)', script: 'Han', tesseract: 'chi_sim' },
+  { code: 'ja', label: 'Japanese', script: 'Kana', tesseract: 'jpn' },
+  { code: 'ko', label: 'Korean', script: 'Hangul', tesseract: 'kor' },
+  { code: 'th', label: 'Thai', script: 'Thai', tesseract: 'tha' },
+];
+
+export const DEFAULT_SCAN_OPTIONS: ScanOptions = { languages: [], handwriting: false, lineBreaks: 'preserve' };
+
+const STORAGE_KEY = 'ocr_scan_options';
+
+const SCRIPT_RANGES: [Script, RegExp][] = [
+  ['Latin', /[A-Za-zÀ-ɏ]/g],
+  ['Cyrillic', /[Ѐ-ӿ]/g],
+  ['Greek', /[Ͱ-Ͽ]/g],
+  ['Arabic', /[؀-ۿݐ-ݿ]/g],
+  ['Hebrew', /[֐-׿]/g],
+  ['Devanagari', /[ऀ-ॿ]/g],
+  ['Kana', /[぀-ヿ]/g],
+  ['Han', /[一-鿿]/g],
+  ['Hangul', /[가-힯]/g],
+  ['Thai', /[฀-๿]/g],
+];
+
+export const findLanguage = (code: string | undefined): ScanLanguage | undefined =>
+  SCAN_LANGUAGES.find(l => l.code === code);
+
+export const isRightToLeft = (code: string | undefined) => !!findLanguage(code)?.rightToLeft;
+
+/** Drops unknown codes and fills missing fields, e.g. for options sent to the backend. */
+export const sanitizeScanOptions = (raw: any): ScanOptions => ({
+  languages: Array.isArray(raw?.languages) ? raw.languages.filter((c: unknown) => typeof c === 'string' && findLanguage(c)) : [],
+  handwriting: raw?.handwriting === true,
+  lineBreaks: raw?.lineBreaks === 'reflow' ? 'reflow' : 'preserve',
+});
+
+/** "English, Arabic (Arabic script)" for prompts; empty when nothing was chosen. */
+export const describeLanguages = (options: ScanOptions): string =>
+  options.languages
+    .map(findLanguage)
+    .filter((l): l is ScanLanguage => !!l)
+    .map(l => l.script === 'Latin' ? l.label : `${l.label} (${l.script} script)`)
+    .join(', ');
+
+/** Tesseract's "eng+ara" form; English when nothing was chosen. */
+export const tesseractLanguages = (options: ScanOptions): string =>
+  options.languages.map(code => findLanguage(code)?.tesseract).filter(Boolean).join('+') || 'eng';
+
+/**
+ * Best guess at a text's language among the expected ones, by the script most
+ * of its letters are written in. Languages sharing a script (English and
+ * German, say) can't be told apart this way, so the first one listed wins.
+ */
+export const guessLanguage = (text: string, candidates: string[]): string | undefined => {
+  let best: Script | null = null;
+  let bestCount = 0;
+  for (const [script, pattern] of SCRIPT_RANGES) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  }
+  if (!best) return undefined;
+  // Japanese mixes kana with Han characters, so Han text may still be Japanese.
+  return candidates.find(code => findLanguage(code)?.script === best)
+    ?? (best === 'Han' ? candidates.find(code => findLanguage(code)?.script === 'Kana') : undefined);
+};
+
+/** Short label for buttons: "Auto", "EN, AR · Handwriting". */
+export const summarizeScanOptions = (options: ScanOptions): string => {
+  const languages = options.languages.length ? options.languages.map(c => c.toUpperCase()).join(', ') : 'Auto';
+  return options.handwriting ? `${languages} · Handwriting` : languages;
+};
+
+export const loadScanOptions = (): ScanOptions => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? sanitizeScanOptions(JSON.parse(saved)) : DEFAULT_SCAN_OPTIONS;
+  } catch {
+    return DEFAULT_SCAN_OPTIONS;
+  }
+};
+
+export const saveScanOptions = (options: ScanOptions) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
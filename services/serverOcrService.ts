@@ -0,0 +1,75 @@
+import { FieldValue, RegionResult, RegionResultMap, TextRegion, User } from "../types";
+import { apiRequest, apiStream, publishCredits } from "./apiClient";
+import { RequestError } from "./errors";
+import type { OcrProvider } from "./ocrProvider";
+import { GEMINI_VERSION } from "./engineVersions";
+
+/**
+ * SERVER PROXY PROVIDER
+ * Python Analogy: An RPC stub with the same signature as the local Gemini module.
+ *
+ * Stands in for 'geminiProvider' when a backend is configured: the same model
+ * runs on the server, which holds the API key and debits one credit per
+ * extracted page or translation/summary (and for template fields on a page
+ * it didn't just extract). Extracted text streams back region by region, and
+ * a page stays charged once some of it has arrived. The server applies the
+ * retry and timeout policy itself, so calls here are made once; hanging up
+ * (Cancel) stops the server's Gemini call and refunds its credit if no text
+ * was sent yet.
+ */
+export const serverGeminiProvider: OcrProvider = {
+  id: 'gemini',
+  label: 'Gemini Cloud',
+  isOffline: false,
+  billedByServer: true,
+  // The backend runs the same geminiService, so results are interchangeable with direct calls.
+  version: GEMINI_VERSION,
+  detectRegions: async (base64Image, pageIndex = 0, options, signal) =>
+    (await apiRequest<{ regions: TextRegion[] }>('/api/ocr/detect', { image: base64Image, pageIndex, options }, signal)).regions,
+  extractTextFromRegions: async (base64Image, regions, options, signal, onResult) => {
+    const results: RegionResultMap = {};
+    let credits: number | undefined;
+    // Streamed per region; the balance comes last, once the page is paid for.
+    try {
+      await apiStream<{ id?: string; result?: RegionResult; credits?: number }>(
+        '/api/ocr/extract',
+        { image: base64Image, regions, options },
+        signal,
+        element => {
+          if (element.id && element.result) {
+            results[element.id] = element.result;
+            onResult?.(element.id, element.result);
+          }
+          if (typeof element.credits === 'number') credits = element.credits;
+        }
+      );
+    } catch (error) {
+      // A page that delivered some text stays charged, but the stream broke off before its balance.
+      if (Object.keys(results).length > 0) {
+        apiRequest<{ user: User }>('/api/me').then(({ user }) => publishCredits(user.credits), () => {});
+      }
+      throw error;
+    }
+    if (credits === undefined) throw new RequestError('bad_response', 'The extraction stream ended early');
+    publishCredits(credits);
+    return results;
+  },
+  extractFields: async (base64Image, template, pageIndex = 0, signal) => {
+    const { fields, credits } = await apiRequest<{ fields: FieldValue[]; credits: number }>(
+      '/api/ocr/fields',
+      { image: base64Image, template, pageIndex },
+      signal
+    );
+    publishCredits(credits);
+    return fields;
+  },
+  transformText: async (texts, action, targetLanguage, signal) => {
+    const { results, credits } = await apiRequest<{ results: Record<string, string>; credits: number }>(
+      '/api/ocr/transform',
+      { texts, action, targetLanguage },
+      signal
+    );
+    publishCredits(credits);
+    return results;
+  },
+};
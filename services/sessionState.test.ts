@@ -0,0 +1,106 @@
+import { beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppState, DocumentPage, TextRegion } from '../types';
+import { installMemoryStorage, makeRegion } from './testing';
+import { getSessionToken, setSessionToken } from './apiClient';
+import { SessionAction, SessionState, canRedo, canUndo, initialSession, loadResumePoint, saveResumePoint, sessionReducer } from './sessionState';
+
+beforeEach(() => {
+  installMemoryStorage();
+});
+
+test('saving or clearing the resume point leaves the session token alone', () => {
+  setSessionToken('token-123');
+
+  saveResumePoint({ ownerId: 'usr_1', scanId: 'scan_1', currentPage: 2 });
+  assert.equal(getSessionToken(), 'token-123');
+  assert.deepEqual(loadResumePoint('usr_1'), { ownerId: 'usr_1', scanId: 'scan_1', currentPage: 2 });
+
+  saveResumePoint(null);
+  assert.equal(getSessionToken(), 'token-123');
+  assert.equal(loadResumePoint('usr_1'), null);
+});
+
+test('a resume point is only offered to the user who left it', () => {
+  saveResumePoint({ ownerId: 'usr_1', scanId: 'scan_1', currentPage: 0 });
+  assert.equal(loadResumePoint('usr_2'), null);
+});
+
+const pages: DocumentPage[] = [{ id: 'p1', image: 'data:image/png;base64,AAAA', sourceName: 'scan.png' }];
+const detected = [
+  makeRegion('a', { ymin: 0, xmin: 0, ymax: 100, xmax: 1000 }, { order: 1 }),
+  makeRegion('b', { ymin: 200, xmin: 0, ymax: 300, xmax: 1000 }, { order: 2 }),
+];
+
+const run = (state: SessionState, ...actions: SessionAction[]) => actions.reduce(sessionReducer, state);
+
+const analyzed = () => run(initialSession,
+  { type: 'begin' },
+  { type: 'detect', pages },
+  { type: 'detected', regions: detected, scan: null });
+
+const deactivate = (id: string): SessionAction =>
+  ({ type: 'edit', update: regions => regions.map(r => r.id === id ? { ...r, isActive: false } : r) });
+
+const active = (state: SessionState) => state.regions.filter(r => r.isActive).map(r => r.id);
+
+test('edits can be undone and redone, and a new edit clears redo', () => {
+  let state = analyzed();
+  assert.equal(state.appState, AppState.INTERACTING);
+  assert.equal(canUndo(state), false, 'a freshly analyzed document has no history');
+
+  state = run(state, deactivate('a'), deactivate('b'));
+  assert.deepEqual(active(state), []);
+  assert.equal(canUndo(state), true);
+  assert.equal(canRedo(state), false);
+
+  state = run(state, { type: 'undo' });
+  assert.deepEqual(active(state), ['b']);
+  assert.equal(canRedo(state), true);
+
+  state = run(state, { type: 'undo' });
+  assert.deepEqual(active(state), ['a', 'b']);
+  assert.equal(canUndo(state), false);
+
+  state = run(state, { type: 'redo' });
+  assert.deepEqual(active(state), ['b']);
+
+  state = run(state, deactivate('b'));
+  assert.deepEqual(active(state), []);
+  assert.equal(canRedo(state), false, 'a new edit starts a new branch');
+  assert.equal(canUndo(state), true);
+});
+
+test('an edit that changes nothing leaves no history', () => {
+  const state = run(analyzed(), { type: 'edit', update: regions => regions });
+  assert.equal(canUndo(state), false);
+});
+
+test('history keeps the last 100 edits', () => {
+  let state = analyzed();
+  for (let i = 0; i < 105; i++) {
+    state = run(state, { type: 'edit', update: regions => regions.map(r => ({ ...r, order: r.order + 1 })) });
+  }
+  assert.equal(state.past.length, 100);
+  for (let i = 0; i < 100; i++) state = run(state, { type: 'undo' });
+  assert.equal(canUndo(state), false);
+  assert.deepEqual(state.regions.map(r => r.order), [6, 7], 'the oldest five edits can no longer be undone');
+});
+
+test('extracted text survives undoing the edit made after it', () => {
+  let state = run(analyzed(), deactivate('b'), { type: 'results', results: { a: { text: 'paid for' } } }, { type: 'undo' });
+  assert.deepEqual(active(state), ['a', 'b']);
+  assert.equal(state.regions.find((r: TextRegion) => r.id === 'a')?.extractedText, 'paid for');
+});
+
+test('undo is unavailable while an engine call is running', () => {
+  const state = run(analyzed(), deactivate('a'), { type: 'transition', to: AppState.EXTRACTING });
+  assert.equal(canUndo(state), false);
+  assert.equal(run(state, { type: 'undo' }), state);
+});
+
+test('signing out forgets the history', () => {
+  const state = run(analyzed(), deactivate('a'), { type: 'reset', forget: true });
+  assert.equal(canUndo(state), false);
+  assert.equal(state.appState, AppState.IDLE);
+});
@@ -0,0 +1,223 @@
+import { AppState, DocumentPage, FieldValue, RegionResultMap, TextRegion, TextTransform } from "../types";
+import { applyRegionResults } from "./documentService";
+import type { ScanMeta } from "./historyService";
+
+/**
+ * SESSION STATE
+ * Python Analogy: A finite-state machine (like the 'transitions' library) over
+ * AppState that owns the open document, plus an undo stack of immutable
+ * snapshots, the way a command-pattern editor keeps its history.
+ *
+ * Every change to the document goes through 'sessionReducer'. Moves between
+ * AppState values are checked against TRANSITIONS and illegal ones are
+ * ignored, so a late answer from a cancelled request can't drag the UI back
+ * into a state it already left. Region edits and Clear are undoable. Engine
+ * output (extracted text, fields, transforms) and library metadata are not:
+ * they are written into every snapshot of the same document, so undo never
+ * throws away something that was paid for.
+ */
+
+/** What undo and redo swap in and out. */
+export interface SessionDocument {
+  appState: AppState;
+  pages: DocumentPage[];
+  currentPage: number;
+  regions: TextRegion[];
+  fieldValues: FieldValue[] | null;
+  documentTransform: TextTransform | null;
+  /** The library entry the document autosaves to; null until analyzed, and after Clear. */
+  scan: ScanMeta | null;
+}
+
+export interface SessionState extends SessionDocument {
+  past: SessionDocument[];
+  future: SessionDocument[];
+}
+
+export type SessionAction =
+  /** A guarded move between states, e.g. INTERACTING -> EXTRACTING. */
+  | { type: 'transition'; to: AppState }
+  /** Files were picked: the old document goes, pages follow once loaded. */
+  | { type: 'begin' }
+  | { type: 'preview'; pages: DocumentPage[] }
+  | { type: 'detect'; pages: DocumentPage[] }
+  | { type: 'detected'; regions: TextRegion[]; scan: ScanMeta | null }
+  /** Loading or analysis failed; back to the upload screen. */
+  | { type: 'abandon' }
+  | { type: 'open'; document: Omit<SessionDocument, 'appState'>; appState: AppState.INTERACTING | AppState.FINISHED }
+  /** 'forget' also drops the history, e.g. on sign-out, so the next user can't undo into this document. */
+  | { type: 'reset'; forget?: boolean }
+  /** An undoable change to the regions; 'update' must be pure. */
+  | { type: 'edit'; update: (regions: TextRegion[]) => TextRegion[] }
+  | { type: 'results'; results: RegionResultMap }
+  | { type: 'fields'; fieldValues: FieldValue[] | null }
+  | { type: 'regionTransform'; id: string; transform: TextTransform }
+  | { type: 'documentTransform'; transform: TextTransform | null }
+  | { type: 'scan'; update: (scan: ScanMeta | null) => ScanMeta | null }
+  | { type: 'page'; page: number }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const TRANSITIONS: Record<AppState, AppState[]> = {
+  [AppState.IDLE]: [AppState.UPLOADING],
+  [AppState.UPLOADING]: [AppState.PREPROCESSING, AppState.DETECTING_REGIONS, AppState.IDLE],
+  [AppState.PREPROCESSING]: [AppState.DETECTING_REGIONS, AppState.IDLE],
+  [AppState.DETECTING_REGIONS]: [AppState.INTERACTING, AppState.IDLE],
+  [AppState.INTERACTING]: [AppState.EXTRACTING, AppState.FINISHED, AppState.IDLE],
+  [AppState.EXTRACTING]: [AppState.FINISHED, AppState.INTERACTING],
+  [AppState.FINISHED]: [AppState.INTERACTING, AppState.EXTRACTING, AppState.IDLE],
+};
+
+/** States waiting on files or an engine; the document can't be edited, replaced or undone meanwhile. */
+const BUSY_STATES: AppState[] = [AppState.UPLOADING, AppState.DETECTING_REGIONS, AppState.EXTRACTING];
+
+/** States in which the regions can be edited (text edits and review happen on results). */
+const EDITING_STATES: AppState[] = [AppState.INTERACTING, AppState.FINISHED];
+
+/** Oldest snapshots are dropped past this. */
+const MAX_HISTORY = 100;
+
+export const canTransition = (from: AppState, to: AppState) => TRANSITIONS[from].includes(to);
+
+export const isBusy = (appState: AppState) => BUSY_STATES.includes(appState);
+
+const EMPTY_DOCUMENT: SessionDocument = {
+  appState: AppState.IDLE,
+  pages: [],
+  currentPage: 0,
+  regions: [],
+  fieldValues: null,
+  documentTransform: null,
+  scan: null
+};
+
+export const initialSession: SessionState = { ...EMPTY_DOCUMENT, past: [], future: [] };
+
+export const canUndo = (state: SessionState) => state.past.length > 0 && EDITING_STATES.concat(AppState.IDLE).includes(state.appState);
+
+export const canRedo = (state: SessionState) => state.future.length > 0 && EDITING_STATES.concat(AppState.IDLE).includes(state.appState);
+
+const snapshot = ({ past: _past, future: _future, ...document }: SessionState): SessionDocument => document;
+
+/** Only analyzed documents are worth a snapshot; an empty or half-loaded one has nothing to restore. */
+const isAnalyzed = (document: SessionDocument) => EDITING_STATES.includes(document.appState);
+
+/** Pushes the current document onto the undo stack and clears redo. */
+const record = (state: SessionState): Pick<SessionState, 'past' | 'future'> => ({
+  past: isAnalyzed(state) ? [...state.past, snapshot(state)].slice(-MAX_HISTORY) : state.past,
+  future: []
+});
+
+/**
+ * Applies a non-undoable change to the present and to every snapshot of the same
+ * document (same pages), so undoing an edit keeps it.
+ */
+const rebase = (state: SessionState, change: (document: SessionDocument) => SessionDocument): SessionState => {
+  const sameDocument = (document: SessionDocument) => document.pages === state.pages ? change(document) : document;
+  const { past, future, ...present } = state;
+  return { ...change(present), past: past.map(sameDocument), future: future.map(sameDocument) };
+};
+
+// A snapshot only takes text for regions that were still waiting for it there; one
+// whose kind or box was since changed back keeps its own text.
+const fillPending = (document: SessionDocument, results: RegionResultMap): SessionDocument => {
+  const fresh = Object.fromEntries(Object.entries(results).filter(([id]) =>
+    document.regions.some(r => r.id === id && r.extractedText === undefined)));
+  return Object.keys(fresh).length > 0 ? { ...document, regions: applyRegionResults(document.regions, fresh) } : document;
+};
+
+/** Swaps in a snapshot. Undo within one document stays in the current view; across documents it restores theirs. */
+const restore = (state: SessionState, document: SessionDocument, past: SessionDocument[], future: SessionDocument[]): SessionState => ({
+  ...document,
+  appState: document.pages === state.pages ? state.appState : document.appState,
+  currentPage: Math.min(document.currentPage, Math.max(0, document.pages.length - 1)),
+  past,
+  future
+});
+
+const ignore = (state: SessionState, action: SessionAction): SessionState => {
+  console.warn(`Ignored '${action.type}' in state ${state.appState}.`);
+  return state;
+};
+
+export const sessionReducer = (state: SessionState, action: SessionAction): SessionState => {
+  switch (action.type) {
+    case 'transition':
+      return canTransition(state.appState, action.to) ? { ...state, appState: action.to } : ignore(state, action);
+    case 'begin':
+      if (!canTransition(state.appState, AppState.UPLOADING)) return ignore(state, action);
+      // History is kept: if loading fails, Ctrl+Z still brings back what Clear removed.
+      return { ...EMPTY_DOCUMENT, appState: AppState.UPLOADING, past: state.past, future: state.future };
+    case 'preview':
+      if (!canTransition(state.appState, AppState.PREPROCESSING)) return ignore(state, action);
+      return { ...state, appState: AppState.PREPROCESSING, pages: action.pages, currentPage: 0 };
+    case 'detect':
+      if (!canTransition(state.appState, AppState.DETECTING_REGIONS)) return ignore(state, action);
+      return { ...state, appState: AppState.DETECTING_REGIONS, pages: action.pages, currentPage: 0 };
+    case 'detected':
+      if (!canTransition(state.appState, AppState.INTERACTING)) return ignore(state, action);
+      // A new document starts a new history.
+      return { ...state, appState: AppState.INTERACTING, regions: action.regions, fieldValues: null, documentTransform: null, scan: action.scan, past: [], future: [] };
+    case 'abandon':
+      return { ...EMPTY_DOCUMENT, past: state.past, future: state.future };
+    case 'open':
+      if (isBusy(state.appState)) return ignore(state, action);
+      return { ...action.document, appState: action.appState, past: [], future: [] };
+    case 'reset':
+      return action.forget ? initialSession : { ...EMPTY_DOCUMENT, ...record(state) };
+    case 'edit': {
+      if (!EDITING_STATES.includes(state.appState)) return ignore(state, action);
+      const regions = action.update(state.regions);
+      return regions === state.regions ? state : { ...state, regions, ...record(state) };
+    }
+    case 'results':
+      return rebase(state, document => fillPending(document, action.results));
+    case 'fields':
+      return rebase(state, document => ({ ...document, fieldValues: action.fieldValues }));
+    case 'regionTransform':
+      return rebase(state, document => ({
+        ...document,
+        regions: document.regions.map(r => r.id === action.id ? { ...r, transform: action.transform } : r)
+      }));
+    case 'documentTransform':
+      return rebase(state, document => ({ ...document, documentTransform: action.transform }));
+    case 'scan':
+      return rebase(state, document => ({ ...document, scan: action.update(document.scan) }));
+    case 'page':
+      return { ...state, currentPage: Math.min(Math.max(0, action.page), Math.max(0, state.pages.length - 1)) };
+    case 'undo': {
+      if (!canUndo(state)) return state;
+      const previous = state.past[state.past.length - 1];
+      return restore(state, previous, state.past.slice(0, -1), [snapshot(state), ...state.future]);
+    }
+    case 'redo': {
+      if (!canRedo(state)) return state;
+      const [next, ...future] = state.future;
+      return restore(state, next, [...state.past, snapshot(state)], future);
+    }
+  }
+};
+
+// --- Resume after reload ---
+// The document itself autosaves to the library; this only remembers which entry was open.
+const RESUME_KEY = 'ocr_resume';
+
+interface ResumePoint {
+  ownerId: string;
+  scanId: string;
+  currentPage: number;
+}
+
+export const loadResumePoint = (ownerId: string): ResumePoint | null => {
+  try {
+    const point: ResumePoint | null = JSON.parse(localStorage.getItem(RESUME_KEY) || 'null');
+    return point && point.ownerId === ownerId ? point : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveResumePoint = (point: ResumePoint | null) => {
+  if (point) localStorage.setItem(RESUME_KEY, JSON.stringify(point));
+  else localStorage.removeItem(RESUME_KEY);
+};
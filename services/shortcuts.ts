@@ -0,0 +1,88 @@
+/**
+ * KEYBOARD SHORTCUTS
+ * Python Analogy: A keymap dict (like prompt_toolkit's KeyBindings) from key
+ * combos to command names; the editor decides what each command does.
+ *
+ * Combos are written "Mod+Shift+Z", where Mod is Ctrl, or Cmd on macOS. The
+ * same table drives the cheat sheet, so the two can't drift apart.
+ */
+export type ShortcutAction =
+  | 'next' | 'previous' | 'moveUp' | 'moveDown' | 'toggle' | 'delete'
+  | 'digit' | 'confirm' | 'autoOrder' | 'cancel'
+  | 'nextPage' | 'previousPage'
+  | 'zoomIn' | 'zoomOut' | 'fitPage' | 'fitWidth' | 'zoomToRegion'
+  | 'extract' | 'copy' | 'export' | 'undo' | 'redo' | 'help';
+
+export type ShortcutGroup = 'Regions' | 'Pages' | 'View' | 'Document';
+
+export interface Shortcut {
+  action: ShortcutAction;
+  /** Any of these triggers it. "Digit" stands for 0-9. */
+  keys: string[];
+  label: string;
+  group: ShortcutGroup;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { action: 'next', keys: ['Tab', 'ArrowDown'], label: 'Select the next region', group: 'Regions' },
+  { action: 'previous', keys: ['Shift+Tab', 'ArrowUp'], label: 'Select the previous region', group: 'Regions' },
+  { action: 'moveUp', keys: ['Alt+ArrowUp'], label: 'Move it up in the reading order', group: 'Regions' },
+  { action: 'moveDown', keys: ['Alt+ArrowDown'], label: 'Move it down in the reading order', group: 'Regions' },
+  { action: 'digit', keys: ['Digit'], label: 'Type its new position…', group: 'Regions' },
+  { action: 'confirm', keys: ['Enter'], label: '…and move it there', group: 'Regions' },
+  { action: 'toggle', keys: ['Space'], label: 'Include or skip it', group: 'Regions' },
+  { action: 'delete', keys: ['Delete', 'Backspace'], label: 'Delete it', group: 'Regions' },
+  { action: 'autoOrder', keys: ['R'], label: 'Renumber by position (Auto-Order)', group: 'Regions' },
+  { action: 'cancel', keys: ['Escape'], label: 'Clear the selection', group: 'Regions' },
+  { action: 'nextPage', keys: ['PageDown'], label: 'Next page', group: 'Pages' },
+  { action: 'previousPage', keys: ['PageUp'], label: 'Previous page', group: 'Pages' },
+  { action: 'zoomIn', keys: ['Plus', '='], label: 'Zoom in', group: 'View' },
+  { action: 'zoomOut', keys: ['Minus'], label: 'Zoom out', group: 'View' },
+  { action: 'fitPage', keys: ['F'], label: 'Fit the page', group: 'View' },
+  { action: 'fitWidth', keys: ['W'], label: 'Fit the width', group: 'View' },
+  { action: 'zoomToRegion', keys: ['Z'], label: 'Zoom to the selected region', group: 'View' },
+  { action: 'extract', keys: ['Mod+Enter'], label: 'Start extraction', group: 'Document' },
+  { action: 'copy', keys: ['Mod+Shift+C'], label: 'Copy the extracted text', group: 'Document' },
+  { action: 'export', keys: ['Mod+Shift+E'], label: 'Open the export menu', group: 'Document' },
+  { action: 'undo', keys: ['Mod+Z'], label: 'Undo', group: 'Document' },
+  { action: 'redo', keys: ['Mod+Shift+Z', 'Mod+Y'], label: 'Redo', group: 'Document' },
+  { action: 'help', keys: ['?'], label: 'Show this list', group: 'Document' },
+];
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// '+' separates a combo's parts, so these keys are spelled out in the table.
+const KEY_NAMES: Record<string, string> = { ' ': 'Space', '+': 'Plus', '-': 'Minus' };
+
+// Letters are compared upper-case so Shift doesn't change the key name.
+const keyName = (e: KeyboardEvent) => KEY_NAMES[e.key] ?? (e.key.length === 1 ? e.key.toUpperCase() : e.key);
+
+const matches = (combo: string, e: KeyboardEvent): boolean => {
+  const parts = combo.split('+');
+  const key = parts.pop()!;
+  const name = keyName(e);
+  if (key === 'Digit' ? !/^[0-9]$/.test(name) : name !== key) return false;
+  // Symbols like "?" need Shift on most layouts, so Shift is only checked for named keys and letters.
+  const symbol = (key.length === 1 && !/[A-Z0-9]/.test(key)) || key === 'Plus' || key === 'Minus';
+  return (e.ctrlKey || e.metaKey) === parts.includes('Mod')
+    && e.altKey === parts.includes('Alt')
+    && (symbol || e.shiftKey === parts.includes('Shift'));
+};
+
+export const matchShortcut = (e: KeyboardEvent): ShortcutAction | null =>
+  SHORTCUTS.find(shortcut => shortcut.keys.some(combo => matches(combo, e)))?.action ?? null;
+
+/** "Mod+Shift+Z" -> "Ctrl + Shift + Z" (or "⌘ + Shift + Z" on macOS), for display. */
+export const formatCombo = (combo: string): string =>
+  combo.split('+').map(part => ({
+    Mod: IS_MAC ? '⌘' : 'Ctrl',
+    Alt: IS_MAC ? '⌥' : 'Alt',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    Digit: '0–9',
+    PageUp: 'Page Up',
+    PageDown: 'Page Down',
+    Plus: '+',
+    Minus: '−',
+    Escape: 'Esc'
+  }[part] ?? part)).join(' + ');
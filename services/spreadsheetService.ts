@@ -0,0 +1,101 @@
+import { zipSync, strToU8 } from "fflate";
+
+/**
+ * SPREADSHEET WRITERS
+ * Python Analogy: The 'csv' module plus a tiny subset of 'openpyxl'.
+ *
+ * XLSX is written by hand (a zip of SpreadsheetML parts) with inline strings,
+ * which every spreadsheet app reads without needing a shared-strings table.
+ */
+export interface NamedTable {
+  name: string;
+  rows: string[][];
+}
+
+/** Tab-separated rendering of a table, used wherever plain text is needed. */
+export const tableToText = (rows: string[][]): string => rows.map(row => row.join('\t')).join('\n');
+
+// RFC 4180: quote when the cell has a delimiter, quote or line break; double inner quotes.
+const csvCell = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** All tables in one CSV, separated by an empty line. */
+export const tablesToCsv = (tables: NamedTable[]): string =>
+  tables
+    .map(t => t.rows.map(row => row.map(csvCell).join(',')).join('\r\n'))
+    .join('\r\n\r\n') + '\r\n';
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Python: string.ascii_uppercase-based column names: 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Amounts like "1,234.50" or "-12" become real numbers so they can be summed.
+const NUMERIC_CELL = /^-?\d{1,3}(,\d{3})*(\.\d+)?$|^-?\d+(\.\d+)?$/;
+
+const sheetCell = (value: string, ref: string) => {
+  const trimmed = value.trim();
+  if (NUMERIC_CELL.test(trimmed)) return `<c r="${ref}"><v>${trimmed.replace(/,/g, '')}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const sheetXml = (rows: string[][]) => {
+  const body = rows
+    .map((row, r) => `<row r="${r + 1}">${row.map((cell, c) => sheetCell(cell, `${columnName(c)}${r + 1}`)).join('')}</row>`)
+    .join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+};
+
+// Excel's sheet-name rules: max 31 chars, none of \ / ? * [ ] :
+const sheetName = (name: string) => name.replace(/[\\/?*[\]:]/g, '-').slice(0, 31) || 'Sheet';
+
+/** One worksheet per table. */
+export const tablesToXlsx = (tables: NamedTable[]): Uint8Array => {
+  const sheets = tables.length > 0 ? tables : [{ name: 'Sheet1', rows: [] }];
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>
+${sheets.map((t, i) => `<sheet name="${escapeXml(sheetName(t.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('\n')}
+</sheets></workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+</Relationships>`;
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(contentTypes),
+    '_rels/.rels': strToU8(rootRels),
+    'xl/workbook.xml': strToU8(workbook),
+    'xl/_rels/workbook.xml.rels': strToU8(workbookRels),
+  };
+  sheets.forEach((t, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(t.rows));
+  });
+
+  return zipSync(files);
+};
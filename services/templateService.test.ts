@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { coerceFieldValue } from './templateService';
+
+test('dates are read day-first, month-first only when that is the only valid reading', () => {
+  assert.equal(coerceFieldValue('date', '05/03/2024'), '2024-03-05');
+  assert.equal(coerceFieldValue('date', '12/25/2024'), '2024-12-25');
+  assert.equal(coerceFieldValue('date', 'Due 2024/1/5'), '2024-01-05');
+  assert.equal(coerceFieldValue('date', 'March 5, 2024'), '2024-03-05');
+  assert.equal(coerceFieldValue('date', '5th Mar 2024'), '2024-03-05');
+  assert.equal(coerceFieldValue('date', '2024-02-29'), '2024-02-29');
+});
+
+test('dates that do not exist are rejected', () => {
+  for (const raw of ['32/13/2020', '45/45/2020', '2024-13-45', '2023-02-29', '31/04/24']) {
+    assert.equal(coerceFieldValue('date', raw), null, raw);
+  }
+});
+
+test('text that merely contains a number is not a date', () => {
+  assert.equal(coerceFieldValue('date', 'Invoice 2'), null);
+  assert.equal(coerceFieldValue('date', 'No. 12'), null);
+});
+
+test('amounts handle currency symbols and both decimal conventions', () => {
+  assert.equal(coerceFieldValue('amount', '$1,234.56'), 1234.56);
+  assert.equal(coerceFieldValue('amount', '1.234,56 €'), 1234.56);
+  assert.equal(coerceFieldValue('amount', '€ 1 234,56'), 1234.56);
+  assert.equal(coerceFieldValue('amount', '12,50'), 12.5);
+  assert.equal(coerceFieldValue('amount', '1.234.567'), 1234567);
+  assert.equal(coerceFieldValue('amount', '-42.10'), -42.1);
+  assert.equal(coerceFieldValue('amount', 'No. 12'), 12);
+});
+
+test('several separate numbers are not glued into one amount', () => {
+  for (const raw of ['Page 3 of 4', '32/13/2020', 'Total']) {
+    assert.equal(coerceFieldValue('amount', raw), null, raw);
+  }
+});
@@ -0,0 +1,153 @@
+import { FieldType, FieldValue, FormTemplate, TemplateField } from "../types";
+
+/**
+ * FORM TEMPLATES
+ * Python Analogy: A tiny JSON-file "repository" (load/save/delete) plus the
+ * type coercion you'd normally put in a Pydantic validator.
+ *
+ * Templates are stored in localStorage, next to the user and provider preference.
+ */
+const STORAGE_KEY = 'ocr_templates';
+const SELECTED_KEY = 'ocr_selected_template';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const loadTemplates = (): FormTemplate[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const persist = (templates: FormTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  return templates;
+};
+
+/** Inserts or replaces by id and returns the new list. */
+export const saveTemplate = (template: FormTemplate): FormTemplate[] => {
+  const stamped = { ...template, updatedAt: Date.now() };
+  const others = loadTemplates().filter(t => t.id !== template.id);
+  return persist([...others, stamped].sort((a, b) => a.name.localeCompare(b.name)));
+};
+
+export const deleteTemplate = (id: string): FormTemplate[] =>
+  persist(loadTemplates().filter(t => t.id !== id));
+
+export const createTemplate = (name: string): FormTemplate => ({
+  id: newId(),
+  name,
+  fields: [],
+  updatedAt: Date.now()
+});
+
+export const createField = (name = '', type: FieldType = 'string'): TemplateField => ({
+  id: newId(),
+  name,
+  type
+});
+
+export const loadSelectedTemplateId = (): string | null => localStorage.getItem(SELECTED_KEY);
+
+export const saveSelectedTemplateId = (id: string | null) => {
+  if (id) localStorage.setItem(SELECTED_KEY, id);
+  else localStorage.removeItem(SELECTED_KEY);
+};
+
+// --- Value typing ---
+
+// One number as printed: digits with optional thousands groups ("1,234", "1.234", "1 234") and decimals.
+const AMOUNT_TOKEN = /-?\d{1,3}(?:[ ,.'\u00a0\u202f]\d{3})+(?:[.,]\d+)?|-?\d+(?:[.,]\d+)?/g;
+
+// Python: float(re.sub(r"[^\d.,-]", "", raw)) with European "1.234,56" handled too.
+// Text with more than one number ("Page 3 of 4", a date) isn't an amount; gluing them would invent one.
+const parseAmount = (raw: string): number | null => {
+  const tokens = raw.match(AMOUNT_TOKEN);
+  if (!tokens || tokens.length !== 1) return null;
+  let cleaned = tokens[0].replace(/[ '\u00a0\u202f]/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Comma is the decimal separator only if it has 1-2 digits after it.
+    cleaned = /,\d{1,2}$/.test(cleaned)
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma < 0 && cleaned.indexOf('.') !== lastDot) {
+    // "1.234.567": several dots can only be thousands groups.
+    cleaned = cleaned.replace(/\./g, '');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+  const value = parseFloat(cleaned);
+  return Number.isFinite(value) ? value : null;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** "YYYY-MM-DD" if that day exists (no 13th months, no 31 April), else null. */
+const isoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const exists = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return exists ? `${year}-${pad(month)}-${pad(day)}` : null;
+};
+
+const monthNumber = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+const parseDate = (raw: string): string | null => {
+  const text = raw.trim();
+  const iso = text.match(/(?<!\d)(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/);
+  if (iso) return isoDate(+iso[1], +iso[2], +iso[3]);
+
+  // Day-first is the common layout on the forms we see; month-first is only tried when day-first can't be a date.
+  const dmy = text.match(/(?<!\d)(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?!\d)/);
+  if (dmy) {
+    const year = dmy[3].length === 2 ? 2000 + +dmy[3] : +dmy[3];
+    return isoDate(year, +dmy[2], +dmy[1]) ?? isoDate(year, +dmy[1], +dmy[2]);
+  }
+
+  // "5 March 2024", "March 5th, 2024"; month names are English only.
+  const named = text.match(/(?<!\d)(\d{1,2})(?:st|nd|rd|th)?\s+([A-Za-z]{3,})\.?,?\s+(\d{4})(?!\d)/)
+    ?? text.match(/([A-Za-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})(?!\d)/);
+  if (named) {
+    const dayFirst = /^\d/.test(named[1]);
+    const month = monthNumber(dayFirst ? named[2] : named[1]);
+    const day = +(dayFirst ? named[1] : named[2]);
+    return month > 0 ? isoDate(+named[3], month, day) : null;
+  }
+  return null;
+};
+
+/** Turns what was read on the page into the field's declared type (null if it doesn't fit). */
+export const coerceFieldValue = (type: FieldType, raw: string): string | number | null => {
+  if (!raw.trim()) return null;
+  if (type === 'amount') return parseAmount(raw);
+  if (type === 'date') return parseDate(raw);
+  return raw.trim();
+};
+
+/**
+ * For multi-page documents each page is searched; per field we keep the
+ * value with the highest confidence.
+ */
+export const mergeFieldValues = (perPage: FieldValue[][]): FieldValue[] => {
+  const best = new Map<string, FieldValue>();
+  for (const value of perPage.flat()) {
+    const current = best.get(value.fieldId);
+    const better = !current
+      || (current.value === null && value.value !== null)
+      || (value.value !== null && value.confidence > current.confidence);
+    if (better) best.set(value.fieldId, value);
+  }
+  return Array.from(best.values());
+};
+
+/** Python: {f.name: f.value for f in values} */
+export const fieldValuesToJson = (values: FieldValue[]): string =>
+  JSON.stringify(
+    Object.fromEntries(values.map(v => [v.name, { value: v.value, type: v.type, confidence: v.confidence, raw: v.raw }])),
+    null,
+    2
+  );
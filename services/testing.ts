@@ -0,0 +1,96 @@
+import { BoundingBox, RegionResultMap, TextRegion } from "../types";
+import type { OcrProvider } from "./ocrProvider";
+import { RequestError } from "./errors";
+import { throwIfCancelled } from "./requestPolicy";
+import { coerceFieldValue } from "./templateService";
+
+/**
+ * TEST SUPPORT
+ * Python Analogy: pytest fixtures. Node has no 'localStorage', so modules that
+ * keep preferences or sessions there get an in-memory one, and OCR flows run
+ * against a scripted provider instead of Gemini or Tesseract.
+ */
+export const installMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  const storage: Storage = {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => Array.from(items.keys())[index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); },
+  };
+  (globalThis as any).localStorage = storage;
+  return storage;
+};
+
+/** A paragraph region; boxes are on the 0-1000 grid, like the engines return them. */
+export const makeRegion = (id: string, box: BoundingBox, extra: Partial<TextRegion> = {}): TextRegion => ({
+  id,
+  box,
+  order: 0,
+  description: id,
+  kind: 'paragraph',
+  isActive: true,
+  pageIndex: 0,
+  ...extra
+});
+
+/** What the scripted provider "sees" on one page image. */
+export interface ScriptedPage {
+  regions: TextRegion[];
+  /** Text per region id; regions without an entry come back empty, like unreadable ones. */
+  text: Record<string, string>;
+  /** Field values by template field name. */
+  fields?: Record<string, string>;
+}
+
+/**
+ * An OcrProvider that answers from a script keyed by page image: no network,
+ * no API key, no WASM. Like the real engines it reports each region through
+ * 'onResult' as it goes and honours the AbortSignal between regions.
+ * 'calls' counts engine calls, so tests can see what a cache saved.
+ */
+export const createScriptedProvider = (pages: Record<string, ScriptedPage>) => {
+  const calls = { detect: 0, extract: 0 };
+  const pageFor = (base64Image: string): ScriptedPage => {
+    const page = pages[base64Image];
+    if (!page) throw new RequestError('invalid_image', 'The script has no such page');
+    return page;
+  };
+
+  const provider: OcrProvider = {
+    id: 'local',
+    label: 'Scripted',
+    isOffline: true,
+    version: 'scripted-1',
+    detectRegions: async (base64Image, pageIndex = 0, _options, signal) => {
+      throwIfCancelled(signal);
+      calls.detect++;
+      return pageFor(base64Image).regions.map(r => ({ ...r, pageIndex }));
+    },
+    extractTextFromRegions: async (base64Image, regions, _options, signal, onResult) => {
+      throwIfCancelled(signal);
+      calls.extract++;
+      const page = pageFor(base64Image);
+      const results: RegionResultMap = {};
+      for (const region of regions.filter(r => r.isActive).sort((a, b) => a.order - b.order)) {
+        // A tick between regions, so a test can cancel half-way through a page.
+        await Promise.resolve();
+        throwIfCancelled(signal);
+        results[region.id] = { text: page.text[region.id] ?? '', confidence: 1 };
+        onResult?.(region.id, results[region.id]);
+      }
+      return results;
+    },
+    extractFields: async (base64Image, template, pageIndex = 0, signal) => {
+      throwIfCancelled(signal);
+      const fields = pageFor(base64Image).fields ?? {};
+      return template.fields.map(field => {
+        const raw = fields[field.name] ?? '';
+        return { fieldId: field.id, name: field.name, type: field.type, value: coerceFieldValue(field.type, raw), raw, confidence: raw ? 1 : 0, pageIndex };
+      });
+    },
+  };
+  return { provider, calls };
+};
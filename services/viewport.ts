@@ -0,0 +1,100 @@
+import { BoundingBox } from "../types";
+
+/**
+ * VIEWPORT MATH
+ * Python Analogy: The affine transform behind a matplotlib pan/zoom toolbar -
+ * a scale plus an offset from image pixels to screen pixels, with helpers
+ * that return a new transform for each gesture.
+ *
+ * The page is drawn at (x, y) on screen, 'scale' screen pixels per image
+ * pixel. Everything here is pure; the useViewport hook owns the state.
+ */
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface ViewState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+/** 'page' shows the whole page, 'width' fills the viewport's width; null once the user zooms or pans. */
+export type FitMode = 'page' | 'width';
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 8;
+// Room left around a fitted page or region, in screen pixels.
+const FIT_MARGIN = 24;
+// Never let the page be dragged further out of view than this.
+const MIN_VISIBLE = 80;
+
+const clampScale = (scale: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+
+/** Keeps part of the page on screen, so it can't be lost off the edge. */
+export const clampView = (view: ViewState, container: Size, image: Size): ViewState => {
+  const width = image.width * view.scale;
+  const height = image.height * view.scale;
+  return {
+    scale: view.scale,
+    x: Math.min(container.width - MIN_VISIBLE, Math.max(MIN_VISIBLE - width, view.x)),
+    y: Math.min(container.height - MIN_VISIBLE, Math.max(MIN_VISIBLE - height, view.y))
+  };
+};
+
+export const fitView = (mode: FitMode, container: Size, image: Size): ViewState => {
+  const room = { width: Math.max(1, container.width - 2 * FIT_MARGIN), height: Math.max(1, container.height - 2 * FIT_MARGIN) };
+  const scale = clampScale(mode === 'width'
+    ? room.width / image.width
+    : Math.min(room.width / image.width, room.height / image.height));
+  const height = image.height * scale;
+  return {
+    scale,
+    x: (container.width - image.width * scale) / 2,
+    // A page taller than the viewport starts at its top rather than its middle.
+    y: height > room.height ? FIT_MARGIN : (container.height - height) / 2
+  };
+};
+
+/** Zooms by 'factor' keeping the image point under 'anchor' (screen pixels in the viewport) in place. */
+export const zoomAt = (view: ViewState, factor: number, anchor: { x: number; y: number }): ViewState => {
+  const scale = clampScale(view.scale * factor);
+  const ratio = scale / view.scale;
+  return { scale, x: anchor.x - (anchor.x - view.x) * ratio, y: anchor.y - (anchor.y - view.y) * ratio };
+};
+
+/** Centres and zooms on a region box (0-1000 grid), with some of the page around it. */
+export const viewForBox = (box: BoundingBox, container: Size, image: Size): ViewState => {
+  const width = ((box.xmax - box.xmin) / 1000) * image.width;
+  const height = ((box.ymax - box.ymin) / 1000) * image.height;
+  const scale = clampScale(Math.min(
+    (container.width - 2 * FIT_MARGIN) / Math.max(width * 1.2, 1),
+    (container.height - 2 * FIT_MARGIN) / Math.max(height * 1.2, 1),
+    MAX_ZOOM / 2
+  ));
+  const centerX = ((box.xmin + box.xmax) / 2000) * image.width;
+  const centerY = ((box.ymin + box.ymax) / 2000) * image.height;
+  return { scale, x: container.width / 2 - centerX * scale, y: container.height / 2 - centerY * scale };
+};
+
+/** Part of the page on screen, as 0-1 fractions of the page; drives the minimap's frame. */
+export const visibleFraction = (view: ViewState, container: Size, image: Size) => {
+  const width = image.width * view.scale;
+  const height = image.height * view.scale;
+  const left = Math.max(0, -view.x / width);
+  const top = Math.max(0, -view.y / height);
+  return {
+    left,
+    top,
+    width: Math.min(1, (container.width - view.x) / width) - left,
+    height: Math.min(1, (container.height - view.y) / height) - top
+  };
+};
+
+/** Pans so the page point at fractions (fx, fy) sits in the middle of the viewport. */
+export const centerOn = (view: ViewState, fx: number, fy: number, container: Size, image: Size): ViewState => ({
+  scale: view.scale,
+  x: container.width / 2 - fx * image.width * view.scale,
+  y: container.height / 2 - fy * image.height * view.scale
+});
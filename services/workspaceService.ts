@@ -0,0 +1,35 @@
+import { UsageReport, WorkspaceRole, WorkspaceState } from "../types";
+import { apiRequest, isServerMode } from "./apiClient";
+
+/**
+ * TEAM WORKSPACES
+ * Python Analogy: The client half of an "organizations" API, one function per
+ * endpoint, each returning the caller's fresh account and workspace.
+ *
+ * Workspaces are shared between people, so they only exist with a backend;
+ * in the browser-only demo the team screen explains how to start one.
+ */
+export const workspacesAvailable = isServerMode;
+
+export const loadWorkspace = () => apiRequest<WorkspaceState>('/api/workspace');
+
+export const createWorkspace = (name: string) => apiRequest<WorkspaceState>('/api/workspace', { name });
+
+export const inviteMember = (email: string, role: WorkspaceRole, spendingLimit: number | null) =>
+  apiRequest<WorkspaceState>('/api/workspace/invites', { email, role, spendingLimit });
+
+export const acceptInvite = (workspaceId: string) => apiRequest<WorkspaceState>('/api/workspace/invites/accept', { workspaceId });
+
+export const declineInvite = (workspaceId: string) => apiRequest<WorkspaceState>('/api/workspace/invites/decline', { workspaceId });
+
+/** Only the fields given are changed. */
+export const updateMember = (email: string, changes: { role?: WorkspaceRole; spendingLimit?: number | null }) =>
+  apiRequest<WorkspaceState>('/api/workspace/members', { email, ...changes });
+
+/** Removes a member, or withdraws an invitation that wasn't accepted yet. */
+export const removeMember = (email: string) => apiRequest<WorkspaceState>('/api/workspace/members/remove', { email });
+
+export const leaveWorkspace = () => apiRequest<WorkspaceState>('/api/workspace/leave', {});
+
+export const loadUsage = async (): Promise<UsageReport> =>
+  (await apiRequest<{ report: UsageReport }>('/api/workspace/usage')).report;
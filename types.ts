@@ -6,29 +6,280 @@ export interface BoundingBox {
   xmax: number;
 }
 
+export type RegionKind = 'paragraph' | 'heading' | 'list' | 'table' | 'caption' | 'math' | 'code';
+
+export const REGION_KINDS: RegionKind[] = ['paragraph', 'heading', 'list', 'table', 'caption', 'math', 'code'];
+
 export interface TextRegion {
   id: string;
   box: BoundingBox;
   order: number;
   description: string;
+  kind: RegionKind;
   extractedText?: string; 
+  /** Rows of cells, filled in by extraction for 'table' regions only. */
+  table?: string[][];
+  /** Engine's certainty about extractedText, 0-1. */
+  confidence?: number;
+  /** One 0-1 score per line of extractedText (blank lines count as certain). */
+  lineConfidence?: number[];
+  /** Parts of extractedText the engine was unsure about. */
+  uncertain?: UncertainSpan[];
+  /** Set once a person has proof-read (and possibly corrected) the text. */
+  verified?: boolean;
+  /** Post-processed copy of extractedText (translation, summary...); the original is kept. */
+  transform?: TextTransform;
+  /** Main language of extractedText as an ISO 639-1 code, e.g. "en" or "ar". */
+  language?: string;
+  /** Programming language of a 'code' region, e.g. "python". 'math' regions hold LaTeX instead. */
+  codeLanguage?: string;
+  /** The text came from the result cache: no engine call, no credit. */
+  cached?: boolean;
   isActive: boolean;
+  /** Zero-based index of the DocumentPage this region was detected on. */
+  pageIndex: number;
+}
+
+/** Character range [start, end) into a region's extractedText. */
+export interface UncertainSpan {
+  start: number;
+  end: number;
+}
+
+export interface RegionResult {
+  text: string;
+  table?: string[][];
+  confidence?: number;
+  lineConfidence?: number[];
+  uncertain?: UncertainSpan[];
+  language?: string;
+  codeLanguage?: string;
+  cached?: boolean;
+}
+
+export type LineBreakMode = 'preserve' | 'reflow';
+
+/** Hints passed to the engines for one scan. */
+export interface ScanOptions {
+  /** Expected languages as ISO 639-1 codes; empty means detect automatically. */
+  languages: string[];
+  /** The page is (partly) handwritten. */
+  handwriting: boolean;
+  /** Keep the page's line breaks, or join lines into paragraphs. */
+  lineBreaks: LineBreakMode;
+}
+
+/**
+ * Where a region stands in a running extraction: queued, or on the page being
+ * read right now. Regions with text are done; the rest have no status.
+ */
+export type ExtractionStatus = 'pending' | 'active';
+
+/** Post-processing steps that can run on extracted text. */
+export type TransformAction = 'translate' | 'summarize' | 'dehyphenate' | 'whitespace' | 'redact';
+
+export interface TextTransform {
+  action: TransformAction;
+  /** Language the text was translated into, for 'translate' only. */
+  targetLanguage?: string;
+  text: string;
+}
+
+/** Extraction results keyed by TextRegion.id, as returned by an OCR provider. */
+export type RegionResultMap = Record<string, RegionResult>;
+
+export interface DocumentPage {
+  id: string;
+  /** Full data URL of the (rasterized) page image. */
+  image: string;
+  /** Human-readable origin, e.g. "contract.pdf · p3" or "receipt.jpg". */
+  sourceName: string;
 }
 
 export enum AppState {
   IDLE = 'IDLE',
   UPLOADING = 'UPLOADING',
+  PREPROCESSING = 'PREPROCESSING',
   DETECTING_REGIONS = 'DETECTING_REGIONS',
   INTERACTING = 'INTERACTING',
   EXTRACTING = 'EXTRACTING',
   FINISHED = 'FINISHED'
 }
 
+/** A point in the same 0-1000 normalized space as BoundingBox. */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Page corners in order: top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point];
+
+export type EnhanceMode = 'none' | 'contrast' | 'binarize';
+
+/** Preprocessing applied to every page before layout analysis. */
+export interface PreprocessSettings {
+  /** When false, uploads skip the preview and go straight to analysis. */
+  review: boolean;
+  deskew: boolean;
+  enhance: EnhanceMode;
+  /** Longest side in pixels after processing. */
+  maxDimension: number;
+}
+
+/** Per-page manual fixes made in the preview. */
+export interface PageAdjustments {
+  /** Extra clockwise rotation on top of the EXIF orientation. */
+  rotation: 0 | 90 | 180 | 270;
+  /** Four page corners on the rotated image; a rectangle crops, any other shape straightens the perspective. */
+  corners: Quad | null;
+}
+
+export type FieldType = 'string' | 'date' | 'amount';
+
+export interface TemplateField {
+  id: string;
+  name: string;
+  type: FieldType;
+  /** Optional free-text hint for the model, e.g. "top-right, after 'Invoice #'". */
+  hint?: string;
+  /** Where the value usually sits on the page (0-1000 normalized). */
+  anchor?: BoundingBox;
+}
+
+export interface FormTemplate {
+  id: string;
+  name: string;
+  fields: TemplateField[];
+  updatedAt: number;
+}
+
+export interface FieldValue {
+  fieldId: string;
+  name: string;
+  type: FieldType;
+  /** Typed value: ISO date string, number for amounts, plain string otherwise; null if not found. */
+  value: string | number | null;
+  /** Exactly what was read on the page, before typing. */
+  raw: string;
+  /** 0-1 */
+  confidence: number;
+  pageIndex: number;
+}
+
+export type BatchJobStatus = 'queued' | 'loading' | 'detecting' | 'extracting' | 'done' | 'failed';
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: BatchJobStatus;
+  /** 0-1 across all stages of this job. */
+  progress: number;
+  error?: string;
+  /** Credits taken for this job; refunded if it fails after charging. */
+  creditsCharged: number;
+  pages: DocumentPage[];
+  regions: TextRegion[];
+}
+
+/** A library entry: everything the history list shows and searches, without page images. */
+export interface ScanSummary {
+  id: string;
+  /** Scans are listed per signed-in user. */
+  ownerId: string;
+  name: string;
+  tags: string[];
+  /** Small JPEG data URL of the first page. */
+  thumbnail: string;
+  /** Reading-order output at the time of the last save, kept for full-text search. */
+  text: string;
+  pageCount: number;
+  regionCount: number;
+  creditsSpent: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Everything needed to reopen a scan exactly where it was left. */
+export interface ScanRecord extends ScanSummary {
+  pages: DocumentPage[];
+  regions: TextRegion[];
+  fieldValues: FieldValue[] | null;
+  /** Post-processed copy of the whole result, when one was made. */
+  documentTransform?: TextTransform | null;
+  scanOptions?: ScanOptions;
+}
+
 export interface User {
   id: string;
   email: string;
+  /** Credits this user can spend now: their own balance, or what the workspace pool and their limit allow. */
   credits: number;
   isPro: boolean;
+  /** Set while the user belongs to a team workspace; scans are then paid from its pool. */
+  workspace?: WorkspaceSeat;
+}
+
+/** Admins manage members and buy credits; members scan; viewers can't spend credits. */
+export type WorkspaceRole = 'admin' | 'member' | 'viewer';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['admin', 'member', 'viewer'];
+
+/** The signed-in user's place in their workspace. */
+export interface WorkspaceSeat {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  /** Credits left in the shared pool. */
+  pool: number;
+  /** Most this member may spend per calendar month; null means no limit. */
+  spendingLimit: number | null;
+  spentThisMonth: number;
+}
+
+export interface WorkspaceMember {
+  /** Null until the invited email signs in and accepts. */
+  userId: string | null;
+  email: string;
+  role: WorkspaceRole;
+  spendingLimit: number | null;
+  spentThisMonth: number;
+  invitedAt: number;
+  joinedAt: number | null;
+}
+
+/** An open invitation, as shown to the invited user. */
+export interface WorkspaceInvite {
+  workspaceId: string;
+  workspaceName: string;
+  role: WorkspaceRole;
+  invitedBy: string;
+}
+
+/** What every workspace call answers with: the caller's account and everything the team screen shows. */
+export interface WorkspaceState {
+  user: User;
+  /** Seats and open invitations of the user's workspace; empty without one. */
+  members: WorkspaceMember[];
+  /** Invitations waiting for this user. */
+  invites: WorkspaceInvite[];
+}
+
+/** One member's activity over the report period. */
+export interface MemberUsage {
+  userId: string;
+  email: string;
+  /** Extracted pages. */
+  scans: number;
+  credits: number;
+  /** Credits per day, aligned with UsageReport.days. */
+  daily: number[];
+}
+
+export interface UsageReport {
+  /** ISO dates (YYYY-MM-DD, UTC), oldest first. */
+  days: string[];
+  members: MemberUsage[];
 }
 
 export interface PricingPlan {
@@ -37,4 +288,6 @@ export interface PricingPlan {
   price: string;
   credits: number;
   popular?: boolean;
+  /** Bought by a workspace admin and added to the shared pool. */
+  team?: boolean;
 }
@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a backend, the Gemini key lives on the server and must not be bundled.
+    const browserApiKey = env.API_BASE_URL ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +13,10 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(browserApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(browserApiKey),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || ''),
+        'process.env.TESSERACT_ASSET_PATH': JSON.stringify(env.TESSERACT_ASSET_PATH || '')
       },
       resolve: {
         alias: {